@@ -0,0 +1,43 @@
+// /app/api/favorites/export/[format]/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getFavoriteLocations } from "@/lib/supabase/locations";
+import { MAP_EXPORT_FORMATS, buildMapExport, favoritesToMapExport, isMapExportFormat } from "@/lib/map-export";
+import { getAttachmentDisposition } from "@/lib/download";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/favorites/export/[format] - Download the user's favorites as GeoJSON, KML or GPX
+export async function GET(
+  request: Request,
+  { params }: { params: { format: string } }
+) {
+  const format = params.format;
+  if (!isMapExportFormat(format)) {
+    return NextResponse.json({ error: `Unknown export format "${format}"` }, { status: 404 });
+  }
+
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const favorites = await getFavoriteLocations(user.id);
+    const { extension, contentType } = MAP_EXPORT_FORMATS[format];
+    const body = buildMapExport(format, favoritesToMapExport(favorites), { baseUrl: new URL(request.url).origin });
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": getAttachmentDisposition(`tokyo-favorites.${extension}`),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error(`Unexpected error exporting favorites as ${format}:`, error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
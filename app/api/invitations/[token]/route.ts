@@ -0,0 +1,106 @@
+// /app/api/invitations/[token]/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryInvitationPreview } from "@/lib/supabase/itinerary-members";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/invitations/[token] - What an invitation offers (itinerary name, role, addressee)
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const invitation = await getItineraryInvitationPreview(supabase, params.token);
+    if (!invitation) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(invitation, { status: 200 });
+
+  } catch (error) {
+    console.error("Unexpected error fetching invitation:", error);
+    return NextResponse.json({ error: "Failed to fetch invitation" }, { status: 500 });
+  }
+}
+
+// POST /api/invitations/[token] - Accept an invitation and join the itinerary
+export async function POST(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { data: itineraryId, error: acceptError } = await supabase.rpc(
+      'accept_itinerary_invitation',
+      { _token: params.token }
+    );
+
+    if (acceptError) {
+      // no_data_found: unknown or revoked token
+      if (acceptError.code === 'P0002') {
+        return NextResponse.json({ error: "This invitation is no longer valid" }, { status: 404 });
+      }
+      // insufficient_privilege: an email invitation for another account
+      if (acceptError.code === '42501') {
+        return NextResponse.json({ error: "This invitation was sent to a different email address" }, { status: 403 });
+      }
+      console.error("Error accepting invitation:", acceptError.message);
+      return NextResponse.json({ error: "Failed to accept invitation" }, { status: 500 });
+    }
+
+    return NextResponse.json({ itineraryId }, { status: 200 });
+
+  } catch (error) {
+    console.error("Unexpected error accepting invitation:", error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
+
+// DELETE /api/invitations/[token] - Decline an email invitation addressed to the current user
+export async function DELETE(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { data: declined, error: declineError } = await supabase.rpc(
+      'decline_itinerary_invitation',
+      { _token: params.token }
+    );
+
+    if (declineError) {
+      console.error("Error declining invitation:", declineError.message);
+      return NextResponse.json({ error: "Failed to decline invitation" }, { status: 500 });
+    }
+    // Unknown token, a link invitation, or one addressed to another account
+    if (!declined) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+
+  } catch (error) {
+    console.error("Unexpected error declining invitation:", error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
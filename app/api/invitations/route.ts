@@ -0,0 +1,26 @@
+// /app/api/invitations/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getPendingItineraryInvitations } from "@/lib/supabase/itinerary-members";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/invitations - Email invitations addressed to the current user that they haven't accepted or declined yet
+export async function GET() {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const invitations = await getPendingItineraryInvitations(supabase);
+
+    return NextResponse.json(invitations, { status: 200 });
+
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    return NextResponse.json({ error: "Failed to fetch invitations" }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// /app/api/itineraries/[id]/duplicate/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole } from "@/lib/supabase/itineraries";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/itineraries/[id]/duplicate - Copy an itinerary (days and locations) under a new name.
+// Members can duplicate too; the copy is theirs.
+export async function POST(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        // Body is optional; fall back to "<original name> (copy)"
+        const body = await request.json().catch(() => ({}));
+        const requestedName = body?.name;
+
+        if (requestedName !== undefined && (typeof requestedName !== 'string' || requestedName.trim() === '')) {
+            return NextResponse.json({ error: "Itinerary name must be a non-empty string" }, { status: 400 });
+        }
+
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+
+        let newName = requestedName?.trim();
+        if (!newName) {
+            const { data: original, error: nameError } = await supabase
+                .from("user_itineraries")
+                .select("name")
+                .eq("id", itineraryId)
+                .single();
+
+            if (nameError || !original) {
+                console.error(`Error fetching name for itinerary ${itineraryId}:`, nameError?.message);
+                return NextResponse.json({ error: "Failed to duplicate itinerary" }, { status: 500 });
+            }
+            newName = `${original.name} (copy)`;
+        }
+
+        // Copy days and locations atomically in the database
+        const { data: newItineraryId, error: duplicateError } = await supabase.rpc(
+            'duplicate_itinerary',
+            {
+                _itinerary_id: itineraryId,
+                _new_name: newName
+            }
+        );
+
+        if (duplicateError) {
+            if (duplicateError.code === '23505') {
+                return NextResponse.json({ error: `An itinerary with the name "${newName}" already exists.` }, { status: 409 });
+            }
+            console.error("Error duplicating itinerary:", duplicateError.message);
+            return NextResponse.json({ error: "Failed to duplicate itinerary" }, { status: 500 });
+        }
+
+        return NextResponse.json({ id: newItineraryId, name: newName }, { status: 201 });
+
+    } catch (error) {
+        console.error(`Unexpected error duplicating itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
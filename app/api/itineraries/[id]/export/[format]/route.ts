@@ -0,0 +1,53 @@
+// /app/api/itineraries/[id]/export/[format]/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryDetails } from "@/lib/supabase/itineraries";
+import { MAP_EXPORT_FORMATS, buildMapExport, isMapExportFormat, itineraryToMapExport } from "@/lib/map-export";
+import { getAttachmentDisposition, toDownloadBaseName } from "@/lib/download";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/itineraries/[id]/export/[format] - Download the itinerary for map apps as GeoJSON, KML or GPX,
+// with one layer/track per day in stop order. Any member can export. (.ics lives in export/ics.)
+export async function GET(
+    request: Request,
+    { params }: { params: { id: string; format: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+    const format = params.format;
+    if (!isMapExportFormat(format)) {
+        return NextResponse.json({ error: `Unknown export format "${format}"` }, { status: 404 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const details = await getItineraryDetails(supabase, itineraryId, user.id);
+        if (!details) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+
+        const { extension, contentType } = MAP_EXPORT_FORMATS[format];
+        const body = buildMapExport(format, itineraryToMapExport(details.name, details.days), { baseUrl: new URL(request.url).origin });
+
+        return new NextResponse(body, {
+            headers: {
+                "Content-Type": contentType,
+                "Content-Disposition": getAttachmentDisposition(`${toDownloadBaseName(details.name)}.${extension}`),
+                "Cache-Control": "no-store",
+            },
+        });
+
+    } catch (error) {
+        console.error(`Unexpected error exporting itinerary ${params.id} as ${format}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
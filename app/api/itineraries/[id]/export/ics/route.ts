@@ -0,0 +1,54 @@
+// /app/api/itineraries/[id]/export/ics/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryDetails } from "@/lib/supabase/itineraries";
+import { buildItineraryCalendar } from "@/lib/ics";
+import { getAttachmentDisposition, toDownloadBaseName } from "@/lib/download";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/itineraries/[id]/export/ics - Download the itinerary as an iCalendar (.ics) file.
+// Any member can export; the trip needs a start date to place events on the calendar.
+export async function GET(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const details = await getItineraryDetails(supabase, itineraryId, user.id);
+        if (!details) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (!details.startDate) {
+            return NextResponse.json({ error: "Set the trip's start date before exporting it to a calendar" }, { status: 400 });
+        }
+
+        const calendar = buildItineraryCalendar(
+            { id: details.id, name: details.name, startDate: details.startDate, days: details.days },
+            { baseUrl: new URL(request.url).origin }
+        );
+
+        return new NextResponse(calendar, {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": getAttachmentDisposition(`${toDownloadBaseName(details.name)}.ics`),
+                "Cache-Control": "no-store",
+            },
+        });
+
+    } catch (error) {
+        console.error(`Unexpected error exporting itinerary ${params.id} to iCalendar:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
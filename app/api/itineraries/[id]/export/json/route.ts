@@ -0,0 +1,48 @@
+// /app/api/itineraries/[id]/export/json/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryDetails } from "@/lib/supabase/itineraries";
+import { buildItineraryFile } from "@/lib/itinerary-file";
+import { getAttachmentDisposition, toDownloadBaseName } from "@/lib/download";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/itineraries/[id]/export/json - Download the itinerary as a versioned JSON file that can be imported again.
+// Any member can export.
+export async function GET(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const details = await getItineraryDetails(supabase, itineraryId, user.id);
+        if (!details) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+
+        const file = buildItineraryFile(details.name, details.startDate, details.days);
+
+        return new NextResponse(JSON.stringify(file, null, 2), {
+            headers: {
+                "Content-Type": "application/json; charset=utf-8",
+                "Content-Disposition": getAttachmentDisposition(`${toDownloadBaseName(details.name)}.json`),
+                "Cache-Control": "no-store",
+            },
+        });
+
+    } catch (error) {
+        console.error(`Unexpected error exporting itinerary ${params.id} as JSON:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
@@ -0,0 +1,52 @@
+// /app/api/itineraries/[id]/invitations/[invitationId]/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole } from "@/lib/supabase/itineraries";
+
+export const dynamic = "force-dynamic";
+
+// DELETE /api/itineraries/[id]/invitations/[invitationId] - Revoke an invitation; its link stops working. Owner only.
+export async function DELETE(
+    request: Request,
+    { params }: { params: { id: string; invitationId: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    const invitationId = parseInt(params.invitationId, 10);
+    if (isNaN(itineraryId) || isNaN(invitationId)) {
+        return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner') {
+            return NextResponse.json({ error: "Only the owner can manage invitations" }, { status: 403 });
+        }
+
+        const { error: deleteError } = await supabase
+            .from("itinerary_invitations")
+            .delete()
+            .eq("id", invitationId)
+            .eq("itinerary_id", itineraryId);
+
+        if (deleteError) {
+            console.error("Error revoking invitation:", deleteError.message);
+            return NextResponse.json({ error: "Failed to revoke invitation" }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error revoking invitation ${params.invitationId}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
@@ -0,0 +1,126 @@
+// /app/api/itineraries/[id]/invitations/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole } from "@/lib/supabase/itineraries";
+import { getItineraryInvitations } from "@/lib/supabase/itinerary-members";
+import { isItineraryMemberRole } from "@/lib/itinerary-roles";
+import { generateUrlToken } from "@/lib/tokens";
+
+export const dynamic = "force-dynamic";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// GET /api/itineraries/[id]/invitations - Open invitations for an itinerary. Owner only.
+export async function GET(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner') {
+            return NextResponse.json({ error: "Only the owner can manage invitations" }, { status: 403 });
+        }
+
+        const invitations = await getItineraryInvitations(supabase, itineraryId);
+
+        return NextResponse.json(invitations, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error fetching invitations for itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "Failed to fetch invitations" }, { status: 500 });
+    }
+}
+
+
+// POST /api/itineraries/[id]/invitations - Invite someone as a viewer or editor. Owner only.
+// With an email, only that account can accept (once); without one, anyone logged in can join through the link.
+export async function POST(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const { email: rawEmail, role: inviteRole } = await request.json();
+
+        if (!isItineraryMemberRole(inviteRole)) {
+            return NextResponse.json({ error: "Role must be 'viewer' or 'editor'" }, { status: 400 });
+        }
+        if (rawEmail != null && (typeof rawEmail !== 'string' || !EMAIL_PATTERN.test(rawEmail.trim()))) {
+            return NextResponse.json({ error: "Please enter a valid email address" }, { status: 400 });
+        }
+        const email: string | null = rawEmail ? rawEmail.trim().toLowerCase() : null;
+
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner') {
+            return NextResponse.json({ error: "Only the owner can invite people" }, { status: 403 });
+        }
+
+        if (email) {
+            if (email === user.email?.toLowerCase()) {
+                return NextResponse.json({ error: "You can't invite yourself" }, { status: 400 });
+            }
+            const { data: existingMember } = await supabase
+                .from("itinerary_members")
+                .select("user_id")
+                .eq("itinerary_id", itineraryId)
+                .eq("email", email) // Both are lowercase
+                .maybeSingle();
+            if (existingMember) {
+                return NextResponse.json({ error: `${email} is already a member of this itinerary` }, { status: 409 });
+            }
+        }
+
+        const { data: invitation, error: insertError } = await supabase
+            .from("itinerary_invitations")
+            .insert({ itinerary_id: itineraryId, email, role: inviteRole, token: generateUrlToken() })
+            .select("id, email, role, token")
+            .single();
+
+        if (insertError) {
+            // One open invitation per email and itinerary
+            if (insertError.code === '23505') {
+                return NextResponse.json({ error: `${email} has already been invited` }, { status: 409 });
+            }
+            console.error("Error creating invitation:", insertError.message);
+            return NextResponse.json({ error: "Failed to create invitation" }, { status: 500 });
+        }
+
+        return NextResponse.json(
+            { id: invitation.id, email: invitation.email ?? null, role: invitation.role, token: invitation.token },
+            { status: 201 }
+        );
+
+    } catch (error) {
+        console.error(`Unexpected error creating invitation for itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
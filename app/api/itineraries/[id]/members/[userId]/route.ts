@@ -0,0 +1,113 @@
+// /app/api/itineraries/[id]/members/[userId]/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole } from "@/lib/supabase/itineraries";
+import { isItineraryMemberRole } from "@/lib/itinerary-roles";
+
+export const dynamic = "force-dynamic";
+
+// PATCH /api/itineraries/[id]/members/[userId] - Change a member's role (viewer or editor). Owner only.
+export async function PATCH(
+    request: Request,
+    { params }: { params: { id: string; userId: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const { role: newRole } = await request.json();
+
+        if (!isItineraryMemberRole(newRole)) {
+            return NextResponse.json({ error: "Role must be 'viewer' or 'editor'" }, { status: 400 });
+        }
+
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner') {
+            return NextResponse.json({ error: "Only the owner can change roles" }, { status: 403 });
+        }
+
+        const { data: updated, error: updateError } = await supabase
+            .from("itinerary_members")
+            .update({ role: newRole })
+            .eq("itinerary_id", itineraryId)
+            .eq("user_id", params.userId)
+            .select("user_id, email, role")
+            .maybeSingle();
+
+        if (updateError) {
+            console.error("Error updating member role:", updateError.message);
+            return NextResponse.json({ error: "Failed to update member" }, { status: 500 });
+        }
+        if (!updated) {
+            return NextResponse.json({ error: "Member not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ userId: updated.user_id, email: updated.email, role: updated.role }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error updating member of itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
+
+
+// DELETE /api/itineraries/[id]/members/[userId] - Remove a member (owner), or leave the itinerary (the member themselves)
+export async function DELETE(
+    request: Request,
+    { params }: { params: { id: string; userId: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner' && params.userId !== user.id) {
+            return NextResponse.json({ error: "Only the owner can remove other members" }, { status: 403 });
+        }
+
+        const { data: removed, error: deleteError } = await supabase
+            .from("itinerary_members")
+            .delete()
+            .eq("itinerary_id", itineraryId)
+            .eq("user_id", params.userId)
+            .select("user_id");
+
+        if (deleteError) {
+            console.error("Error removing itinerary member:", deleteError.message);
+            return NextResponse.json({ error: "Failed to remove member" }, { status: 500 });
+        }
+        if (!removed || removed.length === 0) {
+            return NextResponse.json({ error: "Member not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error removing member of itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
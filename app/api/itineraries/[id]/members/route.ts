@@ -0,0 +1,40 @@
+// /app/api/itineraries/[id]/members/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole } from "@/lib/supabase/itineraries";
+import { getItineraryMembers } from "@/lib/supabase/itinerary-members";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/itineraries/[id]/members - The current user's role and the itinerary's members (any member can see them)
+export async function GET(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+
+        const members = await getItineraryMembers(supabase, itineraryId);
+
+        return NextResponse.json({ role, members }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error fetching members of itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "Failed to fetch members" }, { status: 500 });
+    }
+}
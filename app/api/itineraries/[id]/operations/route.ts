@@ -0,0 +1,144 @@
+// /app/api/itineraries/[id]/operations/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole, getItineraryDetails } from "@/lib/supabase/itineraries";
+import { snapshotBeforeSave } from "@/lib/supabase/itinerary-snapshots";
+import { canEditItinerary } from "@/lib/itinerary-roles";
+import { isValidDurationMinutes, isValidTimeString } from "@/lib/itinerary-schedule";
+import { STOP_NOTE_MAX_LENGTH } from "@/lib/constants";
+import { isValidCostAmount } from "@/lib/itinerary-budget";
+import { parseCustomPlaceId } from "@/lib/custom-places";
+
+export const dynamic = "force-dynamic";
+
+// More than this in one request means something went wrong on the client; it should send a full save instead
+const MAX_OPERATIONS = 500;
+
+const isDayNumber = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isLocationId = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Custom places are stored by their user_places id instead of a catalog location id
+function toStopColumns(locationId: string) {
+    const customPlaceId = parseCustomPlaceId(locationId);
+    return { location_id: customPlaceId === null ? locationId : null, custom_place_id: customPlaceId };
+}
+
+// Invalid stop times/durations/costs are dropped rather than rejected, and over-long notes are truncated (as in POST /api/itineraries/[id])
+function toStopFieldColumns(op: any) {
+    return {
+        start_time: isValidTimeString(op.startTime) ? op.startTime : null,
+        duration_minutes: isValidDurationMinutes(op.durationMinutes) ? op.durationMinutes : null,
+        note: typeof op.note === 'string' && op.note.trim() ? op.note.slice(0, STOP_NOTE_MAX_LENGTH) : null,
+        cost_override: isValidCostAmount(op.costOverride) ? op.costOverride : null,
+    };
+}
+
+// Map a client operation (lib/itinerary-operations.ts) to the shape patch_itinerary expects; null if malformed
+function toRpcOperation(op: any): Record<string, unknown> | null {
+    switch (op?.type) {
+        case 'addDay':
+            if (op.dayId === undefined) return { type: 'addDay' };
+            return isDayNumber(op.dayId) ? { type: 'addDay', at_day_number: op.dayId } : null;
+        case 'removeDay':
+            return isDayNumber(op.dayId) ? { type: 'removeDay', day_number: op.dayId } : null;
+        case 'addStop':
+            if (!isDayNumber(op.dayId) || !isLocationId(op.locationId) || !isIndex(op.index)) return null;
+            return { type: 'addStop', day_number: op.dayId, index: op.index, ...toStopColumns(op.locationId), ...toStopFieldColumns(op) };
+        case 'removeStop':
+            if (!isDayNumber(op.dayId) || !isLocationId(op.locationId)) return null;
+            return { type: 'removeStop', day_number: op.dayId, ...toStopColumns(op.locationId) };
+        case 'moveStop':
+            if (!isDayNumber(op.fromDayId) || !isDayNumber(op.toDayId) || !isLocationId(op.locationId) || !isIndex(op.index)) return null;
+            return { type: 'moveStop', from_day_number: op.fromDayId, to_day_number: op.toDayId, index: op.index, ...toStopColumns(op.locationId) };
+        case 'updateStop':
+            if (!isDayNumber(op.dayId) || !isLocationId(op.locationId)) return null;
+            return { type: 'updateStop', day_number: op.dayId, ...toStopColumns(op.locationId), ...toStopFieldColumns(op) };
+        default:
+            return null;
+    }
+}
+
+// POST /api/itineraries/[id]/operations - Apply incremental edits to an itinerary in one transaction.
+// Like a full save, the body's version must match the stored one (409 with the current itinerary otherwise).
+// Operations that don't fit the stored itinerary get a 422, after which the client should fall back to a full save.
+export async function POST(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const { operations, version } = await request.json();
+
+        if (!Array.isArray(operations) || operations.length === 0) {
+            return NextResponse.json({ error: "Operations must be a non-empty array" }, { status: 400 });
+        }
+        if (operations.length > MAX_OPERATIONS) {
+            return NextResponse.json({ error: `At most ${MAX_OPERATIONS} operations can be applied at once` }, { status: 400 });
+        }
+        if (!Number.isInteger(version)) {
+            return NextResponse.json({ error: "Version is required and must be an integer" }, { status: 400 });
+        }
+
+        const rpcOperations = operations.map(toRpcOperation);
+        const invalidIndex = rpcOperations.findIndex(op => op === null);
+        if (invalidIndex !== -1) {
+            return NextResponse.json({ error: `Invalid operation at index ${invalidIndex}` }, { status: 400 });
+        }
+
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (!canEditItinerary(role)) {
+            return NextResponse.json({ error: "You can only view this itinerary" }, { status: 403 });
+        }
+
+        // Keep the stored version in the history first (throttled, skipped if unchanged)
+        await snapshotBeforeSave(supabase, itineraryId);
+
+        const { data: newVersion, error: patchError } = await supabase.rpc(
+            'patch_itinerary',
+            {
+                _itinerary_id: itineraryId,
+                _operations: rpcOperations,
+                _expected_version: version
+            }
+        );
+
+        if (patchError) {
+            // serialization_failure: the itinerary was saved elsewhere since this client loaded it
+            if (patchError.code === '40001') {
+                const current = await getItineraryDetails(supabase, itineraryId, user.id);
+                return NextResponse.json(
+                    { error: "This itinerary was changed somewhere else", current },
+                    { status: 409 }
+                );
+            }
+            // invalid_parameter_value / unique_violation / foreign_key_violation (a deleted place): an operation
+            // doesn't fit the stored itinerary
+            if (patchError.code === '22023' || patchError.code === '23505' || patchError.code === '23503') {
+                return NextResponse.json({ error: `Operations could not be applied: ${patchError.message}` }, { status: 422 });
+            }
+            console.error("Error patching itinerary:", patchError.message);
+            return NextResponse.json({ error: "Failed to update itinerary" }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true, version: newVersion }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error patching itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
@@ -1,27 +1,13 @@
 // /app/api/itineraries/[id]/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import type { ItineraryDay, LocationData } from "@/lib/types"; // Import LocationData
+import { getItineraryRole, getItineraryDetails, toItineraryDaysData } from "@/lib/supabase/itineraries";
+import { snapshotBeforeSave } from "@/lib/supabase/itinerary-snapshots";
+import { canEditItinerary } from "@/lib/itinerary-roles";
+import { isValidDateString } from "@/lib/date-utils";
 
 export const dynamic = "force-dynamic";
 
-// Helper function to verify ownership
-async function verifyItineraryOwnership(supabase: ReturnType<typeof createClient>, itineraryId: number, userId: string): Promise<boolean> {
-    const { data, error } = await supabase
-        .from("user_itineraries")
-        .select("id")
-        .eq("id", itineraryId)
-        .eq("user_id", userId)
-        .maybeSingle();
-
-    if (error) {
-        console.error("Error verifying itinerary ownership:", error.message);
-        return false;
-    }
-    return !!data;
-}
-
-
 // GET /api/itineraries/[id] - Fetch details for a specific itinerary
 export async function GET(
     request: Request,
@@ -40,126 +26,102 @@ export async function GET(
             return NextResponse.json({ error: "Authentication required" }, { status: 401 });
         }
 
-        // Verify ownership (RLS should also enforce this, but good practice)
-        const isOwner = await verifyItineraryOwnership(supabase, itineraryId, user.id);
-        if (!isOwner) {
+        // Access is verified inside getItineraryDetails (RLS also enforces this)
+        const itineraryDetails = await getItineraryDetails(supabase, itineraryId, user.id);
+        if (!itineraryDetails) {
             return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
         }
 
-        // Fetch itinerary name (optional, could be passed from client)
-         const { data: itineraryInfo, error: nameError } = await supabase
-           .from("user_itineraries")
-           .select("name")
-           .eq("id", itineraryId)
-           .single();
+        return NextResponse.json(itineraryDetails, { status: 200 });
 
-         if (nameError || !itineraryInfo) {
-             console.warn(`Could not fetch name for itinerary ${itineraryId}: ${nameError?.message}`);
-             // Proceed without name if needed, or return error
-         }
+    } catch (error) {
+        console.error(`Unexpected error fetching itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "Failed to fetch itinerary" }, { status: 500 });
+    }
+}
 
 
-        // Fetch all days for this itinerary
-        const { data: days, error: daysError } = await supabase
-            .from("itinerary_days")
-            .select("id, day_number")
-            .eq("itinerary_id", itineraryId)
-            .order("day_number");
+// POST /api/itineraries/[id] - Update a specific itinerary's content.
+// The body's version must match the stored one; otherwise responds 409 with the current itinerary.
+export async function POST(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
 
-        if (daysError) {
-            console.error("Error fetching days:", daysError.message);
-            return NextResponse.json({ error: "Failed to fetch itinerary days" }, { status: 500 });
-        }
+    try {
+        const { days, version } = await request.json(); // 'days' content plus the version it was based on
 
-        if (!days || days.length === 0) {
-             // Itinerary exists but has no days (e.g., immediately after creation before default day insert finishes?)
-             // Return empty days array along with ID and name
-             return NextResponse.json(
-                 { id: itineraryId, name: itineraryInfo?.name || 'Unknown', days: [] },
-                 { status: 200 }
-             );
+        if (!days) {
+            return NextResponse.json({ error: "Days data is required" }, { status: 400 });
+        }
+        if (!Number.isInteger(version)) {
+            return NextResponse.json({ error: "Version is required and must be an integer" }, { status: 400 });
         }
 
-        // Fetch all locations for these days
-        const dayIds = days.map(day => day.id);
-        const { data: itineraryLocations, error: locationsError } = await supabase
-            .from("itinerary_locations")
-            .select("day_id, location_id, position")
-            .in("day_id", dayIds)
-            .order("position");
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
 
-        if (locationsError) {
-            console.error("Error fetching itinerary locations:", locationsError.message);
-            return NextResponse.json({ error: "Failed to fetch itinerary locations" }, { status: 500 });
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
         }
 
-        // Extract all unique location IDs
-        const locationIds = Array.from(new Set(itineraryLocations?.map(item => item.location_id) || []));
+        // Verify the user may edit (RLS should also enforce this)
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!canEditItinerary(role)) {
+            return NextResponse.json({ error: "Unauthorized: You can't edit this itinerary or it was not found" }, { status: 403 });
+        }
 
-        let locationMap = new Map<string, LocationData>(); // Use LocationData type for map value
+        // Keep the stored version in the history first (throttled, skipped if unchanged)
+        await snapshotBeforeSave(supabase, itineraryId);
 
-        if (locationIds.length > 0) {
-            // Fetch all location data for these location IDs
-            const { data: locationsData, error: fullLocationsError } = await supabase
-                .from("locations")
-                .select(`
-                    id, name, description, latitude, longitude, images,
-                    categories!inner ( name )
-                `)
-                .in("id", locationIds);
+        const daysData = toItineraryDaysData(days);
 
-            if (fullLocationsError) {
-                console.error("Error fetching location details:", fullLocationsError.message);
-                return NextResponse.json({ error: "Failed to fetch location details" }, { status: 500 });
+        // Call the update_itinerary RPC function
+        const { data: newVersion, error: updateError } = await supabase.rpc(
+            'update_itinerary',
+            {
+                _itinerary_id: itineraryId,
+                _days_data: daysData,
+                _expected_version: version
             }
+        );
 
-            // Transform location data to match LocationData type (FIXED)
-            locationsData?.forEach(location => {
-                // Check if categories is an array and has at least one element
-                const categoryName = (Array.isArray(location.categories) && location.categories.length > 0)
-                    ? location.categories[0].name // Access the name from the first element
-                    : (location.categories && typeof location.categories === 'object' && 'name' in location.categories)
-                        ? (location.categories as { name: string }).name // Handle if it's already an object
-                        : 'Unknown'; // Fallback category name
-
-                locationMap.set(location.id, {
-                    id: location.id,
-                    name: location.name,
-                    description: location.description,
-                    category: categoryName, // Use the safely accessed category name
-                    coordinates: [location.latitude, location.longitude] as [number, number],
-                    images: Array.isArray(location.images) ? location.images : JSON.parse(location.images || '[]')
-                });
-            });
-        }
-
-        // Assemble the days array with their locations
-        const assembledDays = days.map(day => {
-            const dayLocations = itineraryLocations
-                ?.filter(item => item.day_id === day.id)
-                .map(item => locationMap.get(item.location_id))
-                .filter((loc): loc is LocationData => !!loc); // Type guard to ensure only valid LocationData objects
-
-            return {
-                id: day.day_number, // Use day_number as the client-side ID
-                locations: dayLocations || []
-            };
-        });
+        if (updateError) {
+            // serialization_failure: the itinerary was saved elsewhere since this client loaded it
+            if (updateError.code === '40001') {
+                const current = await getItineraryDetails(supabase, itineraryId, user.id);
+                return NextResponse.json(
+                    { error: "This itinerary was changed somewhere else", current },
+                    { status: 409 }
+                );
+            }
+            // foreign_key_violation: a stop refers to a custom place that was deleted since.
+            // Retrying won't help, so this mustn't look like a server error
+            if (updateError.code === '23503') {
+                return NextResponse.json(
+                    { error: "Some places in this itinerary no longer exist. Reload the itinerary to continue" },
+                    { status: 400 }
+                );
+            }
+            console.error("Error updating itinerary:", updateError.message);
+            return NextResponse.json({ error: "Failed to update itinerary" }, { status: 500 });
+        }
 
-        return NextResponse.json(
-            { id: itineraryId, name: itineraryInfo?.name || 'Unknown', days: assembledDays },
-            { status: 200 }
-        );
+        return NextResponse.json({ success: true, version: newVersion }, { status: 200 });
 
     } catch (error) {
-        console.error(`Unexpected error fetching itinerary ${params.id}:`, error);
+        console.error(`Unexpected error updating itinerary ${params.id}:`, error);
         return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
     }
 }
 
 
-// POST /api/itineraries/[id] - Update a specific itinerary's content
-export async function POST(
+// PATCH /api/itineraries/[id] - Update a specific itinerary's settings (name and/or start date)
+export async function PATCH(
     request: Request,
     { params }: { params: { id: string } }
 ) {
@@ -169,10 +131,26 @@ export async function POST(
     }
 
     try {
-        const { days } = await request.json(); // Only expect 'days' for content update
+        const body = await request.json();
+        const updates: { name?: string; start_date?: string | null } = {};
 
-        if (!days) {
-            return NextResponse.json({ error: "Days data is required" }, { status: 400 });
+        if (body.name !== undefined) {
+            if (typeof body.name !== 'string' || body.name.trim() === '') {
+                return NextResponse.json({ error: "Itinerary name is required and must be a non-empty string" }, { status: 400 });
+            }
+            updates.name = body.name.trim();
+        }
+
+        // startDate is a 'YYYY-MM-DD' calendar day in Tokyo; null clears it
+        if (body.startDate !== undefined) {
+            if (body.startDate !== null && !isValidDateString(body.startDate)) {
+                return NextResponse.json({ error: "Start date must be a valid date in YYYY-MM-DD format or null" }, { status: 400 });
+            }
+            updates.start_date = body.startDate;
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json({ error: "Nothing to update: provide a name or a startDate" }, { status: 400 });
         }
 
         const supabase = createClient();
@@ -182,36 +160,84 @@ export async function POST(
             return NextResponse.json({ error: "Authentication required" }, { status: 401 });
         }
 
-        // Verify ownership (RLS should also enforce this)
-         const isOwner = await verifyItineraryOwnership(supabase, itineraryId, user.id);
-         if (!isOwner) {
-             return NextResponse.json({ error: "Unauthorized: Itinerary does not belong to the current user or not found" }, { status: 403 });
-         }
-
-        // Prepare the days data for the RPC function
-        const daysData = days.map((day: ItineraryDay) => ({
-            day_number: day.id,
-            locations: day.locations.map(loc => loc.id)
-        }));
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        // Editors may change the dates, but only the owner can rename
+        if (updates.name !== undefined ? role !== 'owner' : !canEditItinerary(role)) {
+            return NextResponse.json({ error: "You don't have permission to change this itinerary" }, { status: 403 });
+        }
 
-        // Call the update_itinerary RPC function
-        const { error: updateError } = await supabase.rpc(
-            'update_itinerary',
-            {
-                _itinerary_id: itineraryId,
-                _days_data: daysData
-            }
-        );
+        const { data: updatedItinerary, error: updateError } = await supabase
+            .from("user_itineraries")
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq("id", itineraryId)
+            .select('id, name, start_date')
+            .single();
 
         if (updateError) {
+            // Same (user_id, name) uniqueness rule as on creation
+            if (updateError.code === '23505') {
+                return NextResponse.json({ error: `An itinerary with the name "${updates.name}" already exists.` }, { status: 409 });
+            }
             console.error("Error updating itinerary:", updateError.message);
             return NextResponse.json({ error: "Failed to update itinerary" }, { status: 500 });
         }
 
-        return NextResponse.json({ success: true }, { status: 200 });
+        return NextResponse.json(
+            { id: updatedItinerary.id, name: updatedItinerary.name, startDate: updatedItinerary.start_date ?? null },
+            { status: 200 }
+        );
 
     } catch (error) {
         console.error(`Unexpected error updating itinerary ${params.id}:`, error);
         return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
     }
+}
+
+
+// DELETE /api/itineraries/[id] - Delete a specific itinerary (days, locations and members cascade). Owner only.
+export async function DELETE(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner') {
+            return NextResponse.json({ error: "Only the owner can delete this itinerary" }, { status: 403 });
+        }
+
+        const { error: deleteError } = await supabase
+            .from("user_itineraries")
+            .delete()
+            .eq("id", itineraryId)
+            .eq("user_id", user.id);
+
+        if (deleteError) {
+            console.error("Error deleting itinerary:", deleteError.message);
+            return NextResponse.json({ error: "Failed to delete itinerary" }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error deleting itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+// /app/api/itineraries/[id]/share/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole } from "@/lib/supabase/itineraries";
+import { generateUrlToken } from "@/lib/tokens";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/itineraries/[id]/share - Current share token ({ shareToken: null } when not shared). Owner only, like POST and DELETE.
+export async function GET(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const { data, error } = await supabase
+            .from("user_itineraries")
+            .select("share_token")
+            .eq("id", itineraryId)
+            .eq("user_id", user.id)
+            .maybeSingle();
+
+        if (error) {
+            console.error("Error fetching share token:", error.message);
+            return NextResponse.json({ error: "Failed to fetch share link" }, { status: 500 });
+        }
+        if (!data) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+
+        return NextResponse.json({ shareToken: data.share_token ?? null }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error fetching share token for itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
+
+
+// POST /api/itineraries/[id]/share - Create a share token, or return the existing one
+export async function POST(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner') {
+            return NextResponse.json({ error: "Only the owner can share this itinerary" }, { status: 403 });
+        }
+
+        // Only set a token if there isn't one yet, so an existing link keeps working
+        const { data: updated, error: updateError } = await supabase
+            .from("user_itineraries")
+            .update({ share_token: generateUrlToken() })
+            .eq("id", itineraryId)
+            .eq("user_id", user.id)
+            .is("share_token", null)
+            .select("share_token")
+            .maybeSingle();
+
+        if (updateError) {
+            console.error("Error creating share token:", updateError.message);
+            return NextResponse.json({ error: "Failed to create share link" }, { status: 500 });
+        }
+        if (updated) {
+            return NextResponse.json({ shareToken: updated.share_token }, { status: 201 });
+        }
+
+        const { data: existing, error: fetchError } = await supabase
+            .from("user_itineraries")
+            .select("share_token")
+            .eq("id", itineraryId)
+            .eq("user_id", user.id)
+            .single();
+
+        if (fetchError || !existing?.share_token) {
+            console.error("Error fetching existing share token:", fetchError?.message);
+            return NextResponse.json({ error: "Failed to create share link" }, { status: 500 });
+        }
+
+        return NextResponse.json({ shareToken: existing.share_token }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error creating share token for itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
+
+
+// DELETE /api/itineraries/[id]/share - Revoke the share token; the old link stops working
+export async function DELETE(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (role !== 'owner') {
+            return NextResponse.json({ error: "Only the owner can share this itinerary" }, { status: 403 });
+        }
+
+        const { error: updateError } = await supabase
+            .from("user_itineraries")
+            .update({ share_token: null })
+            .eq("id", itineraryId)
+            .eq("user_id", user.id);
+
+        if (updateError) {
+            console.error("Error revoking share token:", updateError.message);
+            return NextResponse.json({ error: "Failed to revoke share link" }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error revoking share token for itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    }
+}
@@ -0,0 +1,89 @@
+// /app/api/itineraries/[id]/snapshots/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getItineraryRole } from "@/lib/supabase/itineraries";
+import { createItinerarySnapshot, getItinerarySnapshots } from "@/lib/supabase/itinerary-snapshots";
+import { canEditItinerary } from "@/lib/itinerary-roles";
+import { SNAPSHOT_CONFIG } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/itineraries/[id]/snapshots - The itinerary's version history, newest first (any member can see it)
+export async function GET(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+
+        const snapshots = await getItinerarySnapshots(supabase, itineraryId);
+
+        return NextResponse.json({ snapshots }, { status: 200 });
+
+    } catch (error) {
+        console.error(`Unexpected error fetching snapshots of itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "Failed to fetch version history" }, { status: 500 });
+    }
+}
+
+
+// POST /api/itineraries/[id]/snapshots - Save the stored itinerary as a labelled version (owner and editors).
+// Restoring a version is a normal save of its days from the planner, so there is no restore endpoint.
+export async function POST(
+    request: Request,
+    { params }: { params: { id: string } }
+) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) {
+        return NextResponse.json({ error: "Invalid Itinerary ID" }, { status: 400 });
+    }
+
+    try {
+        const { label } = await request.json();
+
+        if (typeof label !== 'string' || label.trim() === '') {
+            return NextResponse.json({ error: "Label is required and must be a non-empty string" }, { status: 400 });
+        }
+        if (label.trim().length > SNAPSHOT_CONFIG.labelMaxLength) {
+            return NextResponse.json({ error: `Label can be at most ${SNAPSHOT_CONFIG.labelMaxLength} characters` }, { status: 400 });
+        }
+
+        const supabase = createClient();
+        const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+        if (userError || !user) {
+            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+        }
+
+        const role = await getItineraryRole(supabase, itineraryId, user.id);
+        if (!role) {
+            return NextResponse.json({ error: "Itinerary not found or access denied" }, { status: 404 });
+        }
+        if (!canEditItinerary(role)) {
+            return NextResponse.json({ error: "You can only view this itinerary" }, { status: 403 });
+        }
+
+        const snapshotId = await createItinerarySnapshot(supabase, itineraryId, label.trim());
+
+        return NextResponse.json({ id: snapshotId }, { status: 201 });
+
+    } catch (error) {
+        console.error(`Unexpected error creating a snapshot of itinerary ${params.id}:`, error);
+        return NextResponse.json({ error: "Failed to save this version" }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+// /app/api/itineraries/import/match/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getLocations } from "@/lib/supabase/locations";
+import { matchImportRows } from "@/lib/import-matching";
+import type { ImportRow } from "@/lib/itinerary-import";
+import { IMPORT_CONFIG } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+function isImportRow(value: any): value is ImportRow {
+  return typeof value === 'object' && value !== null
+    && typeof value.name === 'string'
+    && (value.locationId === undefined || typeof value.locationId === 'string')
+    && (value.coordinates === undefined || (Array.isArray(value.coordinates) && value.coordinates.length === 2
+      && value.coordinates.every((n: unknown) => typeof n === 'number' && Number.isFinite(n))));
+}
+
+// POST /api/itineraries/import/match - Match rows read from an import file against the catalog locations.
+// Nothing is saved; the user reviews the matches before creating the itinerary.
+export async function POST(request: Request) {
+  try {
+    const { rows } = await request.json();
+
+    if (!Array.isArray(rows) || rows.length === 0 || !rows.every(isImportRow)) {
+      return NextResponse.json({ error: "Rows must be a non-empty array of places" }, { status: 400 });
+    }
+    if (rows.length > IMPORT_CONFIG.maxRows) {
+      return NextResponse.json({ error: `At most ${IMPORT_CONFIG.maxRows} places can be imported at once` }, { status: 400 });
+    }
+
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const locations = await getLocations();
+    if (locations.length === 0) {
+      return NextResponse.json({ error: "Failed to load locations" }, { status: 500 });
+    }
+
+    return NextResponse.json({ matches: matchImportRows(rows, locations) }, { status: 200 });
+
+  } catch (error) {
+    console.error("Unexpected error matching import rows:", error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
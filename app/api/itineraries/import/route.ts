@@ -0,0 +1,139 @@
+// /app/api/itineraries/import/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { toItineraryDaysData } from "@/lib/supabase/itineraries";
+import { CUSTOM_PLACE_COLUMNS } from "@/lib/supabase/places";
+import { customPlaceToLocationData, type CustomPlaceRow } from "@/lib/custom-places";
+import { isValidDateString } from "@/lib/date-utils";
+import type { ImportStopInput } from "@/lib/itinerary-import";
+import type { ItineraryDay } from "@/lib/types";
+import { CUSTOM_PLACE_CONFIG, IMPORT_CONFIG } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+function isValidStop(stop: any): stop is ImportStopInput {
+  if (typeof stop !== 'object' || stop === null) return false;
+  if (typeof stop.locationId === 'string') return stop.locationId.trim() !== '' && stop.customPlace === undefined;
+  const place = stop.customPlace;
+  return typeof place === 'object' && place !== null
+    && typeof place.name === 'string' && place.name.trim() !== ''
+    && typeof place.latitude === 'number' && place.latitude >= -90 && place.latitude <= 90
+    && typeof place.longitude === 'number' && place.longitude >= -180 && place.longitude <= 180;
+}
+
+// POST /api/itineraries/import - Create an itinerary from a reviewed import, adding unmatched places
+// the user chose to keep as custom places. Responds with the new itinerary's id.
+export async function POST(request: Request) {
+  try {
+    const { name, startDate, days } = await request.json();
+
+    if (!name || typeof name !== 'string' || name.trim() === '') {
+      return NextResponse.json({ error: "Itinerary name is required and must be a non-empty string" }, { status: 400 });
+    }
+    if (startDate !== null && startDate !== undefined && !isValidDateString(startDate)) {
+      return NextResponse.json({ error: "Start date must be a YYYY-MM-DD date or null" }, { status: 400 });
+    }
+    if (!Array.isArray(days) || days.length === 0 || !days.every(day => Array.isArray(day?.stops) && day.stops.every(isValidStop))) {
+      return NextResponse.json({ error: "Days must be a non-empty array of stops" }, { status: 400 });
+    }
+    // A place can only be on a day once
+    const hasRepeatedPlace = days.some((day: { stops: ImportStopInput[] }) => {
+      const locationIds = day.stops.map(stop => stop.locationId).filter(Boolean);
+      return new Set(locationIds).size !== locationIds.length;
+    });
+    if (hasRepeatedPlace) {
+      return NextResponse.json({ error: "A place can only be added to a day once" }, { status: 400 });
+    }
+    const stops: ImportStopInput[] = days.flatMap(day => day.stops);
+    if (stops.length > IMPORT_CONFIG.maxRows) {
+      return NextResponse.json({ error: `At most ${IMPORT_CONFIG.maxRows} places can be imported at once` }, { status: 400 });
+    }
+
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { data: newItinerary, error: insertError } = await supabase
+      .from("user_itineraries")
+      .insert({ user_id: user.id, name: name.trim(), start_date: startDate ?? null })
+      .select("id, version")
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json({ error: `An itinerary with the name "${name.trim()}" already exists.` }, { status: 409 });
+      }
+      console.error("Error creating imported itinerary:", insertError.message);
+      return NextResponse.json({ error: "Failed to create itinerary" }, { status: 500 });
+    }
+
+    // Undo the partial import so a retry doesn't leave an empty itinerary and duplicate places behind
+    let createdPlaceIds: number[] = [];
+    const rollback = async () => {
+      await supabase.from("user_itineraries").delete().eq("id", newItinerary.id);
+      if (createdPlaceIds.length > 0) {
+        await supabase.from("user_places").delete().in("id", createdPlaceIds);
+      }
+    };
+
+    // Create the custom places in one insert; rows come back in insert order
+    const customStops = stops.filter(stop => stop.customPlace);
+    let customPlaces: CustomPlaceRow[] = [];
+    if (customStops.length > 0) {
+      const { data: insertedPlaces, error: placesError } = await supabase
+        .from("user_places")
+        .insert(customStops.map(stop => ({
+          user_id: user.id,
+          name: stop.customPlace!.name.trim().slice(0, CUSTOM_PLACE_CONFIG.nameMaxLength),
+          latitude: stop.customPlace!.latitude,
+          longitude: stop.customPlace!.longitude,
+          address: stop.customPlace!.address?.trim().slice(0, CUSTOM_PLACE_CONFIG.addressMaxLength) || null,
+        })))
+        .select(CUSTOM_PLACE_COLUMNS);
+
+      if (placesError || !insertedPlaces) {
+        console.error("Error creating custom places for import:", placesError?.message);
+        await rollback();
+        return NextResponse.json({ error: "Failed to create custom places" }, { status: 500 });
+      }
+      customPlaces = insertedPlaces as CustomPlaceRow[];
+      createdPlaceIds = customPlaces.map(place => place.id);
+    }
+
+    let customIndex = 0;
+    const itineraryDays: ItineraryDay[] = days.map((day: { stops: ImportStopInput[] }, index: number) => ({
+      id: index + 1,
+      locations: day.stops.map(stop => {
+        const base = stop.customPlace
+          ? customPlaceToLocationData(customPlaces[customIndex++])
+          : { id: stop.locationId!, name: '', description: '', category: '', coordinates: [0, 0] as [number, number], images: [] };
+        return { ...base, startTime: stop.startTime, durationMinutes: stop.durationMinutes, note: stop.note, costOverride: stop.costOverride };
+      }),
+    }));
+
+    const { error: saveError } = await supabase.rpc('update_itinerary', {
+      _itinerary_id: newItinerary.id,
+      _days_data: toItineraryDaysData(itineraryDays),
+      _expected_version: newItinerary.version,
+    });
+
+    if (saveError) {
+      await rollback();
+      // foreign_key_violation: a matched location id isn't in the catalog (any more)
+      if (saveError.code === '23503') {
+        return NextResponse.json({ error: "Some of the matched places no longer exist. Please import the file again." }, { status: 400 });
+      }
+      console.error("Error saving imported itinerary:", saveError.message);
+      return NextResponse.json({ error: "Failed to save imported itinerary" }, { status: 500 });
+    }
+
+    return NextResponse.json({ itineraryId: newItinerary.id }, { status: 201 });
+
+  } catch (error) {
+    console.error("Unexpected error importing itinerary:", error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+// /app/api/itineraries/import/text/route.ts
+import { NextResponse } from "next/server";
+import OpenAI from "openai";
+import { createClient } from "@/lib/supabase/server";
+import { getLocations } from "@/lib/supabase/locations";
+import { parseTextItinerary, type TextItineraryDraft } from "@/lib/text-itinerary";
+import { IMPORT_CONFIG } from "@/lib/constants";
+import type { LocationData } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+// Same provider as /api/itineraries/generate. Created per request because this route must also work without a key.
+async function parseWithAI(text: string, locations: LocationData[]): Promise<TextItineraryDraft> {
+  const openai = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai/'
+  });
+
+  const locationsString = locations.map(loc => `- ID: ${loc.id}, Name: ${loc.name}`).join('\n');
+  const systemPrompt = `
+You convert a traveller's notes about a Tokyo trip into a structured itinerary.
+Split the notes into days the way the notes do (if they don't mention days, use a single day) and list, for each day,
+the places from the provided list that the notes mention, in the order they are mentioned. Do NOT add places the notes don't mention.
+Respond with a JSON object: { "tripName": string or null, "days": [{ "locations": ["location-id", ...] }] }.
+Use the trip's title from the notes as "tripName" if there is one, otherwise null.
+
+Available Tokyo Locations (Use ONLY these IDs):
+${locationsString}
+  `;
+
+  const completion = await openai.chat.completions.create({
+    model: "gemini-2.0-flash",
+    response_format: { type: "json_object" },
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: text },
+    ],
+    temperature: 0.2,
+  });
+  const content = completion.choices[0]?.message?.content;
+  if (!content) throw new Error("AI did not return any content");
+
+  const parsed = JSON.parse(content);
+  if (!parsed || !Array.isArray(parsed.days)) throw new Error("AI response has no days");
+
+  const byId = new Map(locations.map(location => [location.id, location]));
+  return {
+    name: typeof parsed.tripName === 'string' && parsed.tripName.trim() ? parsed.tripName.trim().slice(0, 60) : null,
+    days: parsed.days.map((day: any) => {
+      // A place can only be on a day once; keep its first mention (as findPlaceMentions does)
+      const seen = new Set<string>();
+      return {
+        stops: (Array.isArray(day?.locations) ? day.locations : [])
+          .filter((id: unknown): id is string => {
+            if (typeof id !== 'string' || !byId.has(id) || seen.has(id)) return false;
+            seen.add(id);
+            return true;
+          })
+          .map((id: string) => ({ location: byId.get(id)!, mention: null })),
+      };
+    }),
+  };
+}
+
+// POST /api/itineraries/import/text - Turn pasted trip notes into days of catalog locations.
+// The built-in fuzzy matcher is used unless the AI is asked for and configured; nothing is saved,
+// the user edits the result and creates the itinerary through /api/itineraries/import.
+export async function POST(request: Request) {
+  try {
+    const { text, useAi } = await request.json();
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json({ error: "Paste some trip notes first" }, { status: 400 });
+    }
+    if (text.length > IMPORT_CONFIG.maxTextLength) {
+      return NextResponse.json({ error: `Text can be at most ${IMPORT_CONFIG.maxTextLength} characters` }, { status: 400 });
+    }
+
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const locations = await getLocations();
+    if (locations.length === 0) {
+      return NextResponse.json({ error: "Failed to load locations" }, { status: 500 });
+    }
+
+    let warning: string | undefined;
+    if (useAi === true) {
+      if (process.env.OPENAI_API_KEY) {
+        try {
+          return NextResponse.json({ ...(await parseWithAI(text, locations)), method: 'ai' }, { status: 200 });
+        } catch (error) {
+          console.error("AI text parsing failed, falling back to the fuzzy matcher:", error);
+          warning = "The AI couldn't read this text, so the built-in matcher was used instead.";
+        }
+      } else {
+        warning = "AI isn't set up on this server, so the built-in matcher was used.";
+      }
+    }
+
+    return NextResponse.json({ ...parseTextItinerary(text, locations), method: 'fuzzy', warning }, { status: 200 });
+
+  } catch (error) {
+    console.error("Unexpected error parsing itinerary text:", error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
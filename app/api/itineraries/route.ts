@@ -1,10 +1,11 @@
 // /app/api/itineraries/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { getItinerarySummaries } from "@/lib/supabase/itineraries";
 
 export const dynamic = "force-dynamic";
 
-// GET /api/itineraries - Fetch all itinerary names for the user
+// GET /api/itineraries - Fetch all itinerary summaries (name, dates, day count) for the user
 export async function GET() {
   try {
     const supabase = createClient();
@@ -14,22 +15,13 @@ export async function GET() {
       return NextResponse.json({ error: "Authentication required" }, { status: 401 });
     }
 
-    const { data: itineraries, error: fetchError } = await supabase
-      .from("user_itineraries")
-      .select("id, name")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: true }); // Or order by name, etc.
-
-    if (fetchError) {
-      console.error("Error fetching itineraries:", fetchError.message);
-      return NextResponse.json({ error: "Failed to fetch itineraries" }, { status: 500 });
-    }
+    const itineraries = await getItinerarySummaries(supabase, user.id);
 
-    return NextResponse.json(itineraries || [], { status: 200 });
+    return NextResponse.json(itineraries, { status: 200 });
 
   } catch (error) {
-    console.error("Unexpected error fetching itineraries:", error);
-    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+    console.error("Error fetching itineraries:", error);
+    return NextResponse.json({ error: "Failed to fetch itineraries" }, { status: 500 });
   }
 }
 
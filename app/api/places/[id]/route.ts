@@ -0,0 +1,47 @@
+// /app/api/places/[id]/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+// DELETE /api/places/[id] - Delete a custom place (itinerary stops using it are removed by cascade)
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const placeId = parseInt(params.id, 10);
+  if (isNaN(placeId)) {
+    return NextResponse.json({ error: "Invalid Place ID" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { data: deletedPlace, error: deleteError } = await supabase
+      .from("user_places")
+      .delete()
+      .eq("id", placeId)
+      .eq("user_id", user.id)
+      .select("id")
+      .maybeSingle();
+
+    if (deleteError) {
+      console.error(`Error deleting custom place ${placeId}:`, deleteError.message);
+      return NextResponse.json({ error: "Failed to delete place" }, { status: 500 });
+    }
+    if (!deletedPlace) {
+      return NextResponse.json({ error: "Place not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+
+  } catch (error) {
+    console.error(`Unexpected error deleting custom place ${params.id}:`, error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
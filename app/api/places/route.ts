@@ -0,0 +1,79 @@
+// /app/api/places/route.ts
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getCustomPlaces, CUSTOM_PLACE_COLUMNS } from "@/lib/supabase/places";
+import { customPlaceToLocationData, type CustomPlaceRow } from "@/lib/custom-places";
+import { CUSTOM_PLACE_CONFIG } from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+// Trim an optional text field; empty strings are stored as NULL
+function optionalText(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  return value.trim().slice(0, maxLength);
+}
+
+// GET /api/places - List the current user's custom places
+export async function GET() {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const places = await getCustomPlaces(supabase, user.id);
+    return NextResponse.json({ places }, { status: 200 });
+
+  } catch (error) {
+    console.error("Unexpected error fetching custom places:", error);
+    return NextResponse.json({ error: "Failed to fetch places" }, { status: 500 });
+  }
+}
+
+// POST /api/places - Create a custom place
+export async function POST(request: Request) {
+  try {
+    const { name, latitude, longitude, address, notes } = await request.json();
+
+    if (!name || typeof name !== 'string' || name.trim() === '') {
+      return NextResponse.json({ error: "Place name is required and must be a non-empty string" }, { status: 400 });
+    }
+    if (typeof latitude !== 'number' || typeof longitude !== 'number'
+      || latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+      return NextResponse.json({ error: "Valid latitude and longitude are required" }, { status: 400 });
+    }
+
+    const supabase = createClient();
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { data: newPlace, error: insertError } = await supabase
+      .from("user_places")
+      .insert({
+        user_id: user.id,
+        name: name.trim().slice(0, CUSTOM_PLACE_CONFIG.nameMaxLength),
+        latitude,
+        longitude,
+        address: optionalText(address, CUSTOM_PLACE_CONFIG.addressMaxLength),
+        notes: optionalText(notes, CUSTOM_PLACE_CONFIG.notesMaxLength),
+      })
+      .select(CUSTOM_PLACE_COLUMNS)
+      .single();
+
+    if (insertError) {
+      console.error("Error creating custom place:", insertError.message);
+      return NextResponse.json({ error: "Failed to create place" }, { status: 500 });
+    }
+
+    return NextResponse.json(customPlaceToLocationData(newPlace as CustomPlaceRow), { status: 201 });
+
+  } catch (error) {
+    console.error("Unexpected error creating custom place:", error);
+    return NextResponse.json({ error: "An unexpected error occurred" }, { status: 500 });
+  }
+}
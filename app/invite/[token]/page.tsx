@@ -0,0 +1,43 @@
+// /app/invite/[token]/page.tsx
+import { notFound, redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getItineraryInvitationPreview } from '@/lib/supabase/itinerary-members';
+import Header from "@/components/layout/header";
+import PageClient from '@/components/page-client';
+import AcceptInvitationCard from "@/components/planner/accept-invitation-card";
+
+export const metadata = {
+    title: "Join Itinerary - Tokyo Guide",
+    description: "You've been invited to plan a Tokyo trip together",
+};
+
+export default async function InvitationPage({ params }: { params: { token: string } }) {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+        redirect(`/login?message=Please log in to join this itinerary&redirectTo=/invite/${encodeURIComponent(params.token)}`);
+    }
+
+    const invitation = await getItineraryInvitationPreview(supabase, params.token);
+
+    if (!invitation) {
+        notFound();
+    }
+
+    // Nothing to accept if the user already has at least the offered access
+    if (invitation.currentRole && !(invitation.currentRole === 'viewer' && invitation.role === 'editor')) {
+        redirect(`/planner/${invitation.itineraryId}`);
+    }
+
+    return (
+        <div className="flex flex-col min-h-screen">
+            <Header />
+            <main className="flex-1 container mx-auto px-4 py-16">
+                <PageClient>
+                    <AcceptInvitationCard token={params.token} invitation={invitation} userEmail={user.email ?? null} />
+                </PageClient>
+            </main>
+        </div>
+    );
+}
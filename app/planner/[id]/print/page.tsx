@@ -0,0 +1,75 @@
+// /app/planner/[id]/print/page.tsx
+import { headers } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import QRCode from 'qrcode';
+import { createClient } from '@/lib/supabase/server';
+import { getItineraryDetails } from '@/lib/supabase/itineraries';
+import PrintItinerary from '@/components/print/print-itinerary';
+import PrintToolbar from '@/components/print/print-toolbar';
+import type { ItineraryDay } from '@/lib/types';
+
+// QR codes linking each catalog stop to its /location page, keyed by location id
+async function buildQrCodes(days: ItineraryDay[], baseUrl: string): Promise<Record<string, string>> {
+    const locationIds = Array.from(new Set(days.flatMap(day => day.locations.filter(loc => !loc.isCustom).map(loc => loc.id))));
+    const svgs = await Promise.all(locationIds.map(id => (
+        QRCode.toString(`${baseUrl}/location/${encodeURIComponent(id)}`, { type: 'svg', margin: 0, errorCorrectionLevel: 'M' })
+    )));
+    return Object.fromEntries(locationIds.map((id, index) => [id, svgs[index]]));
+}
+
+// Any member can print; the booklet shows the last saved version of the itinerary
+export default async function PrintItineraryPage({ params }: { params: { id: string } }) {
+    const itineraryId = parseInt(params.id, 10);
+
+    if (isNaN(itineraryId)) {
+        notFound();
+    }
+
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+        redirect(`/login?message=Please log in to view your itinerary&redirectTo=/planner/${itineraryId}/print`);
+    }
+
+    const itineraryDetails = await getItineraryDetails(supabase, itineraryId, user.id);
+
+    if (!itineraryDetails) {
+        notFound();
+    }
+
+    const headerList = headers();
+    const host = headerList.get('x-forwarded-host') ?? headerList.get('host');
+    const protocol = headerList.get('x-forwarded-proto') ?? 'https';
+    const qrCodes = await buildQrCodes(itineraryDetails.days, `${protocol}://${host}`);
+
+    return (
+        <main className="mx-auto max-w-[728px] p-6 print:max-w-none print:p-0">
+            <PrintToolbar backHref={`/planner/${itineraryId}`} />
+            <PrintItinerary
+                name={itineraryDetails.name}
+                startDate={itineraryDetails.startDate}
+                days={itineraryDetails.days}
+                qrCodes={qrCodes}
+            />
+        </main>
+    );
+}
+
+export async function generateMetadata({ params }: { params: { id: string } }) {
+    const itineraryId = parseInt(params.id, 10);
+    if (isNaN(itineraryId)) return { title: "Print itinerary" };
+
+    const supabase = createClient();
+    const { data } = await supabase
+        .from("user_itineraries")
+        .select("name")
+        .eq("id", itineraryId)
+        .maybeSingle(); // RLS limits this to itineraries the user owns or has joined
+
+    // The title becomes the default file name for "Save as PDF"
+    return {
+        title: data ? `${data.name} - Tokyo Itinerary` : "Print itinerary",
+        robots: { index: false },
+    };
+}
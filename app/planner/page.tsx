@@ -1,25 +1,12 @@
 // /app/planner/page.tsx
 import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
+import { getItinerarySummaries } from '@/lib/supabase/itineraries';
+import { getPendingItineraryInvitations } from '@/lib/supabase/itinerary-members';
 import Header from '@/components/layout/header';
 import PlannerDashboardClient from '@/components/planner/planner-dashboard-client'; // New component
 import PageClient from '@/components/page-client'; // To prevent hydration errors
-
-// Helper function to fetch itineraries (can be moved to lib/supabase/itineraries.ts later)
-async function getItinerariesForUser(userId: string) {
-    const supabase = createClient();
-    const { data, error } = await supabase
-        .from('user_itineraries')
-        .select('id, name')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: true });
-
-    if (error) {
-        console.error("Error fetching itineraries in server component:", error.message);
-        return []; // Return empty array on error
-    }
-    return data || [];
-}
+import type { ItinerarySummary, PendingItineraryInvitation } from '@/lib/types';
 
 export default async function PlannerDashboardPage() {
     const supabase = createClient();
@@ -30,18 +17,31 @@ export default async function PlannerDashboardPage() {
         redirect('/login?message=Please log in to access the planner');
     }
 
-    // Fetch the list of itineraries for the logged-in user
-    const itineraries = await getItinerariesForUser(user.id);
+    // Fetch the list of itineraries for the logged-in user (their own and those shared with them)
+    let itineraries: ItinerarySummary[] = [];
+    try {
+        itineraries = await getItinerarySummaries(supabase, user.id);
+    } catch (error) {
+        console.error("Error fetching itineraries in server component:", error);
+        // Render an empty list; the client refetches on mount
+    }
+
+    let invitations: PendingItineraryInvitation[] = [];
+    try {
+        invitations = await getPendingItineraryInvitations(supabase);
+    } catch (error) {
+        console.error("Error fetching invitations in server component:", error);
+    }
 
     return (
         <div className="flex flex-col min-h-screen"> {/* Use min-h-screen for dashboard */}
             <Header />
             <main className="flex-1 container mx-auto px-4 py-8">
                 <PageClient> {/* Wrap client component */}
-                    <PlannerDashboardClient initialItineraries={itineraries} />
+                    <PlannerDashboardClient initialItineraries={itineraries} initialInvitations={invitations} />
                 </PageClient>
             </main>
             {/* Optional: Add Footer if desired for the dashboard */}
         </div>
     );
-}
\ No newline at end of file
+}
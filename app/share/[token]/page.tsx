@@ -0,0 +1,47 @@
+// /app/share/[token]/page.tsx
+import { notFound } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getCategories } from "@/lib/supabase/categories";
+import { getSharedItinerary } from '@/lib/supabase/itineraries';
+import Header from "@/components/layout/header";
+import PageClient from '@/components/page-client';
+import SharedItineraryClient from "@/components/share/shared-itinerary-client";
+
+// Public, read-only view of an itinerary; anyone with the link can open it without logging in
+export default async function SharedItineraryPage({ params }: { params: { token: string } }) {
+    const supabase = createClient();
+
+    const [categories, itinerary] = await Promise.all([
+        getCategories(),
+        getSharedItinerary(supabase, params.token)
+    ]);
+
+    if (!itinerary) {
+        notFound();
+    }
+
+    return (
+        <div className="flex flex-col h-screen">
+             <div className="sticky top-0 z-50 w-full bg-white">
+                 <Header />
+             </div>
+             <div className="flex-1 overflow-hidden">
+                 <PageClient>
+                     <SharedItineraryClient itinerary={itinerary} categories={categories} />
+                 </PageClient>
+             </div>
+        </div>
+    );
+}
+
+export async function generateMetadata({ params }: { params: { token: string } }) {
+    const supabase = createClient();
+    const itinerary = await getSharedItinerary(supabase, params.token).catch(() => null);
+    const itineraryName = itinerary?.name ?? "Shared Itinerary";
+
+    return {
+      title: `${itineraryName} - Tokyo Itinerary`,
+      description: itinerary ? `A ${itinerary.days.length}-day Tokyo trip plan.` : "A Tokyo trip plan.",
+      robots: { index: false }, // Share links are unlisted
+    };
+}
@@ -3,6 +3,7 @@
 import React from 'react'
 import { XMarkIcon, HeartIcon, CalendarDaysIcon, CheckIcon } from '@heroicons/react/24/outline'
 import type { LocationData, ItineraryDay } from '@/lib/types' // Assuming ItineraryDay is defined here
+import { formatTripDate, getTripDayDate } from '@/lib/date-utils'
 
 interface FilterModalProps {
   isOpen: boolean
@@ -20,6 +21,7 @@ interface FilterModalProps {
   days?: ItineraryDay[]
   selectedDayIds?: number[]
   onDayToggle?: (dayId: number) => void
+  tripStartDate?: string | null // Shows each day's calendar date when set
 }
 
 export default function FilterModal({
@@ -35,6 +37,7 @@ export default function FilterModal({
   days = [],
   selectedDayIds = [],
   onDayToggle,
+  tripStartDate = null,
 }: FilterModalProps) {
   if (!isOpen) return null
 
@@ -135,6 +138,9 @@ export default function FilterModal({
                         {selectedDayIds.includes(day.id) && <CheckIcon className="h-3 w-3 text-white" />}
                       </div>
                       <span className="text-sm">Day {day.id}</span>
+                      {tripStartDate && (
+                        <span className="ml-2 text-xs text-gray-500">{formatTripDate(getTripDayDate(tripStartDate, day.id))}</span>
+                      )}
                       <span className="ml-auto text-xs text-gray-400">({day.locations.length})</span>
                     </div>
                   ))
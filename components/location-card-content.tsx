@@ -6,6 +6,7 @@ import { HeartIcon as HeartOutline } from "@heroicons/react/24/outline";
 import { HeartIcon as HeartSolid } from "@heroicons/react/24/solid";
 import type { LocationData } from "@/lib/types";
 import { cn } from "@/lib/utils";
+import { formatStopCost } from "@/lib/itinerary-budget";
 
 interface LocationCardContentProps {
   location: LocationData;
@@ -64,20 +65,22 @@ export default function LocationCardContent({
           sizes={imageSizes}
           priority={false}
         />
-        {/* Favorite Button Overlay */}
-        <div
-          className="absolute left-2 top-2 z-10 flex h-8 w-8 cursor-pointer items-center justify-center rounded-full bg-white shadow-md transition-colors hover:bg-gray-100"
-          onClick={handleHeartClick}
-          title={isLoggedIn ? (isFavorited ? "Remove from favorites" : "Add to favorites") : "Login to favorite"}
-          aria-label={isFavorited ? "Remove from favorites" : "Add to favorites"}
-          data-interactive-area="true"
-        >
-          {isFavorited ? (
-            <HeartSolid className="w-5 h-5 text-red-500" />
-          ) : (
-            <HeartOutline className="w-5 h-5 text-gray-700" />
-          )}
-        </div>
+        {/* Favorite Button Overlay (custom places can't be favorited) */}
+        {!location.isCustom && (
+          <div
+            className="absolute left-2 top-2 z-10 flex h-8 w-8 cursor-pointer items-center justify-center rounded-full bg-white shadow-md transition-colors hover:bg-gray-100"
+            onClick={handleHeartClick}
+            title={isLoggedIn ? (isFavorited ? "Remove from favorites" : "Add to favorites") : "Login to favorite"}
+            aria-label={isFavorited ? "Remove from favorites" : "Add to favorites"}
+            data-interactive-area="true"
+          >
+            {isFavorited ? (
+              <HeartSolid className="w-5 h-5 text-red-500" />
+            ) : (
+              <HeartOutline className="w-5 h-5 text-gray-700" />
+            )}
+          </div>
+        )}
         {/* Header Actions Slot */}
         {renderHeaderActions && (
           <div className="absolute right-2 top-2 z-10" data-interactive-area="true">
@@ -93,6 +96,11 @@ export default function LocationCardContent({
           <span className="inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
             {location.category}
           </span>
+          {formatStopCost(location) && (
+            <span className="ml-1 inline-block px-2 py-0.5 text-xs font-medium rounded-full bg-green-50 text-green-800" title="Typical cost">
+              {formatStopCost(location)}
+            </span>
+          )}
         </div>
       </div>
       {/* Footer Actions Slot */}
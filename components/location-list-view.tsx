@@ -22,7 +22,7 @@ interface LocationListViewProps {
   onToggleFavorite: (locationId: string) => Promise<void | boolean>
   // Optional props for card actions and links
   renderCardActions?: (location: LocationData) => React.ReactNode
-  getCardHref?: (location: LocationData) => string
+  getCardHref?: (location: LocationData) => string | undefined
   cardLinkTarget?: string
   listClassName?: string // Optional class for the outer list container
   gridClassName?: string // Optional class for the grid div
@@ -4,7 +4,7 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import dynamic from 'next/dynamic';
 import { useMediaQuery } from '@/hooks/use-media-query';
-import type { LocationData, ItineraryDay } from '@/lib/types';
+import type { LocationData, ItineraryDay, PlannedStopRef } from '@/lib/types';
 import type { CategoryData } from '@/lib/supabase/categories';
 import { useAuth } from '@/hooks/use-auth';
 import { useFavorites } from '@/hooks/use-favorites';
@@ -13,7 +13,7 @@ import MapControls from '@/components/map/map-controls';
 import MobileMapNav from '@/components/map/mobile-map-nav';
 import EmptyState from '@/components/empty-state';
 import { cn } from '@/lib/utils';
-import type { PopupContentProps } from '@/components/map/map-view'; // Assuming PopupContentProps is exported
+import type { PopupContentProps, DayRoute, MapLegendItem } from '@/components/map/map-view'; // Assuming PopupContentProps is exported
 import { Button } from '@/components/ui/button';
 import { XCircleIcon } from 'lucide-react';
 
@@ -38,6 +38,7 @@ export interface FilterOptions {
   days?: ItineraryDay[];
   selectedDayIds?: number[];
   onDayToggle?: (dayId: number) => void;
+  startDate?: string | null; // Trip start date, if the itinerary has one
 }
 
 export interface InteractiveMapLayoutProps {
@@ -63,7 +64,13 @@ export interface InteractiveMapLayoutProps {
   renderPlanView?: () => React.ReactNode; // Optional for Planner
 
   // Map Specifics
-  locationToDayMap?: Map<string, number>; // Optional for Planner markers
+  locationToDayMap?: Map<string, PlannedStopRef[]>; // Optional for Planner markers
+  dayRoutes?: DayRoute[]; // Optional for Planner: one line per day, hidden for days filtered out
+  highlightedDayId?: number | null;
+  mapLegend?: MapLegendItem[];
+  mapPickHint?: string | null; // When set, the map is in pick mode: shows this hint and reports clicks via onMapPick
+  onMapPick?: (coordinates: [number, number]) => void;
+  onCancelMapPick?: () => void;
 
   // Optional: Pass down specific state/handlers if needed, but prefer keeping them internal
   // Example: If a parent needs to trigger a map fit externally
@@ -83,6 +90,12 @@ export default function InteractiveMapLayout({
   renderListView,
   renderPlanView,
   locationToDayMap,
+  dayRoutes,
+  highlightedDayId,
+  mapLegend,
+  mapPickHint,
+  onMapPick,
+  onCancelMapPick,
 }: InteractiveMapLayoutProps) {
   // --- Hooks ---
   const { isLoggedIn } = useAuth();
@@ -120,6 +133,32 @@ export default function InteractiveMapLayout({
   const activeSearchTerm = isAiSearchActive ? searchQuery : activeSearchQuery;
   const isDayFilterActive = useMemo(() => filterOptions.showDayFilter && (filterOptions.selectedDayIds?.length ?? 0) > 0, [filterOptions.showDayFilter, filterOptions.selectedDayIds]);
 
+  const isPickingOnMap = !!mapPickHint && !!onMapPick;
+
+  // The map has to be visible to pick a point on it
+  useEffect(() => {
+    if (isPickingOnMap && isMobile) {
+      setMobileView('map');
+    }
+  }, [isPickingOnMap, isMobile]);
+
+  // Routes follow the day filter like the markers do
+  const visibleDayRoutes = useMemo(() => {
+    if (!dayRoutes || !isDayFilterActive) return dayRoutes;
+    return dayRoutes.filter(route => filterOptions.selectedDayIds?.includes(route.dayId));
+  }, [dayRoutes, isDayFilterActive, filterOptions.selectedDayIds]);
+
+  // Markers only number and badge the stops on the days being shown
+  const visibleLocationToDayMap = useMemo(() => {
+    if (!locationToDayMap || !isDayFilterActive) return locationToDayMap;
+    const map = new Map<string, PlannedStopRef[]>();
+    locationToDayMap.forEach((stops, locationId) => {
+      const visibleStops = stops.filter(stop => filterOptions.selectedDayIds?.includes(stop.dayId));
+      if (visibleStops.length > 0) map.set(locationId, visibleStops);
+    });
+    return map;
+  }, [locationToDayMap, isDayFilterActive, filterOptions.selectedDayIds]);
+
   // --- Filtering Logic ---
   useEffect(() => {
     let newFilteredLocations = initialLocations;
@@ -156,8 +195,8 @@ export default function InteractiveMapLayout({
       // Apply Day filter (Planner only)
       if (filterOptions.showDayFilter && currentSelectedDayIds && currentSelectedDayIds.length > 0 && locationToDayMap) {
         newFilteredLocations = newFilteredLocations.filter(location => {
-          const dayNum = locationToDayMap.get(location.id);
-          return dayNum !== undefined && currentSelectedDayIds.includes(dayNum);
+          const stops = locationToDayMap.get(location.id);
+          return !!stops && stops.some(stop => currentSelectedDayIds.includes(stop.dayId));
         });
       }
 
@@ -361,6 +400,15 @@ export default function InteractiveMapLayout({
     });
   }, [renderPopupContent, isLoggedIn, isFavorited, toggleFavorite, isLoadingFavorite, fetchFavorites]);
 
+  const renderMapPickBanner = () => isPickingOnMap && (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-3 rounded-full bg-white px-4 py-2 text-sm shadow-md">
+      <span>{mapPickHint}</span>
+      {onCancelMapPick && (
+        <button onClick={onCancelMapPick} className="font-medium text-blue-600 hover:text-blue-700">Cancel</button>
+      )}
+    </div>
+  );
+
 
   // --- Final Render ---
   return (
@@ -380,6 +428,7 @@ export default function InteractiveMapLayout({
         days={filterOptions.days}
         selectedDayIds={filterOptions.selectedDayIds}
         onDayToggle={filterOptions.onDayToggle}
+        tripStartDate={filterOptions.startDate}
       />
 
       {isMobile ? (
@@ -408,16 +457,21 @@ export default function InteractiveMapLayout({
           {/* Mobile content area */}
           <div className="flex-1 overflow-hidden">
             {mobileView === "map" && (
-              <div className={cn("relative h-full", mobileBottomPadding)}>
+              <div className={cn("relative h-full", mobileBottomPadding, isPickingOnMap && "[&_.leaflet-container]:cursor-crosshair")}>
+                {renderMapPickBanner()}
                 <MapView
                   locations={filteredLocations}
                   onLocationHover={handleLocationHover}
                   hoveredLocation={hoveredLocation}
                   onViewportChange={handleViewportChange}
                   renderPopupContent={internalRenderPopupContent} // Use internal wrapper
-                  locationToDayMap={locationToDayMap}
+                  locationToDayMap={visibleLocationToDayMap}
                   locationsToFit={locationsToFit}
                   onBoundsFitted={handleBoundsFitted}
+                  onMapClick={isPickingOnMap ? onMapPick : undefined}
+                  dayRoutes={visibleDayRoutes}
+                  highlightedDayId={highlightedDayId}
+                  legend={mapLegend}
                 />
               </div>
             )}
@@ -521,16 +575,21 @@ export default function InteractiveMapLayout({
               />
             )}
             {/* Map Container */}
-            <div className="flex-1 overflow-hidden relative">
+            <div className={cn("flex-1 overflow-hidden relative", isPickingOnMap && "[&_.leaflet-container]:cursor-crosshair")}>
+              {renderMapPickBanner()}
               <MapView
                 locations={filteredLocations}
                 onLocationHover={handleLocationHover}
                 hoveredLocation={hoveredLocation}
                 onViewportChange={handleViewportChange}
                 renderPopupContent={internalRenderPopupContent} // Use internal wrapper
-                locationToDayMap={locationToDayMap}
+                locationToDayMap={visibleLocationToDayMap}
                 locationsToFit={locationsToFit}
                 onBoundsFitted={handleBoundsFitted}
+                onMapClick={isPickingOnMap ? onMapPick : undefined}
+                dayRoutes={visibleDayRoutes}
+                highlightedDayId={highlightedDayId}
+                legend={mapLegend}
               />
             </div>
           </div>
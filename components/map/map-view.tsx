@@ -1,13 +1,14 @@
 "use client";
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMapEvents, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMapEvents, useMap } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 import L from "leaflet";
 import { MAP_CONFIG, MARKER_CONFIG } from "@/lib/constants";
 import { Button } from "@/components/ui/button";
 import { createMarkerSvg } from "@/lib/marker-icon";
-import type { LocationData } from "@/lib/types";
+import { getDayColor } from "@/lib/day-colors";
+import type { LocationData, PlannedStopRef } from "@/lib/types";
 
 // --- Popup Styles ---
 const customPopupStyles = `
@@ -72,6 +73,46 @@ function ViewportHandler({ locations, onViewportChange }: {
   return null;
 }
 
+// --- MapClickHandler (reports clicked coordinates, e.g. when picking a custom place) ---
+function MapClickHandler({ onMapClick }: { onMapClick: (coordinates: [number, number]) => void }) {
+  useMapEvents({
+    click: (e) => onMapClick([e.latlng.lat, e.latlng.lng]),
+  });
+  return null;
+}
+
+// --- MapLegend (bottom-left key for marker and route colours) ---
+function MapLegend({ items }: { items: MapLegendItem[] }) {
+  const [isOpen, setIsOpen] = useState(true);
+  return (
+    <div className="absolute bottom-6 left-4 z-[1000] max-w-[180px] rounded-md border bg-white/95 text-xs shadow">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex w-full items-center justify-between gap-2 px-2 py-1.5 font-medium text-gray-700 hover:bg-gray-50"
+        aria-expanded={isOpen}
+      >
+        Legend
+        <span className="text-gray-400">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <ul className="max-h-48 space-y-1 overflow-y-auto border-t px-2 py-1.5">
+          {items.map(item => (
+            <li key={item.label} className="flex items-center gap-2 text-gray-600">
+              {item.variant === 'badge' ? (
+                <span className="flex h-3.5 w-3.5 flex-shrink-0 items-center justify-center rounded-full text-[8px] font-bold text-white" style={{ backgroundColor: item.color }}>+</span>
+              ) : (
+                <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: item.color }} />
+              )}
+              <span className="truncate">{item.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // --- MapBoundsController ---
 function MapBoundsController({ locationsToFit, onBoundsFitted }: {
   locationsToFit: LocationData[] | null;
@@ -110,6 +151,19 @@ export interface PopupContentProps {
   refreshFavorites?: () => Promise<void>;
 }
 
+// A day's stops in visiting order, drawn as a line on the planner map
+export interface DayRoute {
+  dayId: number;
+  color: string;
+  coordinates: [number, number][];
+}
+
+export interface MapLegendItem {
+  color: string;
+  label: string;
+  variant?: 'dot' | 'badge'; // 'badge' matches the "+N" multi-day marker badge
+}
+
 export interface MapViewProps {
   locations: LocationData[];
   onLocationHover: (location: LocationData | null) => void;
@@ -119,7 +173,11 @@ export interface MapViewProps {
   renderPopupContent: (props: PopupContentProps) => React.ReactNode;
   locationsToFit: LocationData[] | null;
   onBoundsFitted: () => void;
-  locationToDayMap?: Map<string, number>;
+  locationToDayMap?: Map<string, PlannedStopRef[]>; // Planner stops for each location, in day order
+  onMapClick?: (coordinates: [number, number]) => void;
+  dayRoutes?: DayRoute[];
+  highlightedDayId?: number | null; // Route drawn on top and thicker, others faded
+  legend?: MapLegendItem[];
 }
 
 // --- MapView Component ---
@@ -133,19 +191,30 @@ export default function MapView({
   locationsToFit,
   onBoundsFitted,
   locationToDayMap,
+  onMapClick,
+  dayRoutes,
+  highlightedDayId,
+  legend,
 }: MapViewProps) {
   const [isMounted, setIsMounted] = useState(false);
   const popupRef = useRef<L.Popup | null>(null);
   const mapRef = useRef<L.Map | null>(null);
 
-  const generateInternalMarkerIcon = useCallback((isHovered: boolean, dayNumber?: number): L.DivIcon => {
-    const isPlanner = dayNumber !== undefined;
+  // Planned stops use their (first) day's colour and a "day.stop" label; places on
+  // several days get a "+N" badge for the other days
+  const generateInternalMarkerIcon = useCallback((isHovered: boolean, stops?: PlannedStopRef[], isCustom?: boolean): L.DivIcon => {
+    const firstStop = stops?.[0];
     const baseSize = MARKER_CONFIG.defaultSize;
     const size = isHovered ? Math.floor(baseSize * MARKER_CONFIG.highlightScale) : baseSize;
     let color: string;
-    if (isPlanner) color = isHovered ? MARKER_CONFIG.plannerHighlightColor : MARKER_CONFIG.plannerColor;
+    if (firstStop) color = getDayColor(firstStop.dayId);
+    else if (isCustom) color = isHovered ? MARKER_CONFIG.customPlaceHighlightColor : MARKER_CONFIG.customPlaceColor;
     else color = isHovered ? MARKER_CONFIG.defaultHighlightColor : MARKER_CONFIG.defaultColor;
-    const svgMarkup = createMarkerSvg(size, color, dayNumber);
+    const label = firstStop ? `${firstStop.dayId}.${firstStop.stopNumber}` : undefined;
+    const badge = stops && stops.length > 1
+      ? { text: `+${stops.length - 1}`, color: MARKER_CONFIG.multiDayBadgeColor }
+      : undefined;
+    const svgMarkup = createMarkerSvg(size, color, label, badge);
     const iconAnchor: [number, number] = [size / 2, size * MARKER_CONFIG.anchorRatioY];
     const popupAnchor: [number, number] = [0, -size * 0.09];
     const tooltipAnchor: [number, number] = [0, -size * 0.73];
@@ -194,11 +263,32 @@ export default function MapView({
           url={MAP_CONFIG.tileLayerUrl}
         />
 
+        {/* --- Day Routes (highlighted route last so it's drawn on top) --- */}
+        {dayRoutes && [...dayRoutes]
+          .sort((a, b) => Number(a.dayId === highlightedDayId) - Number(b.dayId === highlightedDayId))
+          .map((route) => {
+            const isHighlighted = route.dayId === highlightedDayId;
+            const isFaded = highlightedDayId != null && !isHighlighted;
+            return (
+              <Polyline
+                key={`route-${route.dayId}-${isHighlighted}`}
+                positions={route.coordinates}
+                pathOptions={{
+                  color: route.color,
+                  weight: isHighlighted ? 6 : 4,
+                  opacity: isFaded ? 0.25 : 0.8,
+                  dashArray: isHighlighted ? undefined : '8 6',
+                  interactive: false,
+                }}
+              />
+            );
+          })}
+
         {/* --- Marker Loop --- */}
         {locations.filter(loc => loc.coordinates && loc.coordinates.length === 2).map((location) => {
           const isHovered = hoveredLocation?.id === location.id;
-          const dayNumber = locationToDayMap?.get(location.id);
-          const icon = generateInternalMarkerIcon(isHovered, dayNumber); // Call directly
+          const plannedStops = locationToDayMap?.get(location.id);
+          const icon = generateInternalMarkerIcon(isHovered, plannedStops, location.isCustom); // Call directly
 
           return (
             <Marker
@@ -244,9 +334,11 @@ export default function MapView({
         {/* --- End Marker Loop --- */}
 
         <ViewportHandler locations={locations} onViewportChange={onViewportChange} />
+        {onMapClick && <MapClickHandler onMapClick={onMapClick} />}
         <MapBoundsController locationsToFit={locationsToFit} onBoundsFitted={onBoundsFitted} />
         <CustomZoomControl />
       </MapContainer>
+      {legend && legend.length > 0 && <MapLegend items={legend} />}
     </div>
   );
 }
\ No newline at end of file
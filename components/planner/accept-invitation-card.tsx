@@ -0,0 +1,65 @@
+// /components/planner/accept-invitation-card.tsx
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { UserGroupIcon } from '@heroicons/react/24/outline';
+import { ITINERARY_ROLE_LABELS } from '@/lib/itinerary-roles';
+import type { ItineraryInvitationPreview } from '@/lib/types';
+
+interface AcceptInvitationCardProps {
+    token: string;
+    invitation: ItineraryInvitationPreview;
+    userEmail: string | null; // The logged-in account, to explain email invitations sent to someone else
+}
+
+export default function AcceptInvitationCard({ token, invitation, userEmail }: AcceptInvitationCardProps) {
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const router = useRouter();
+
+    const isForAnotherAccount = !!invitation.email && invitation.email.toLowerCase() !== userEmail?.toLowerCase();
+
+    const handleAccept = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`, { method: 'POST' });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || 'Failed to accept invitation');
+            router.push(`/planner/${result.itineraryId}`);
+        } catch (err: any) {
+            setError(err.message);
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="max-w-md mx-auto border rounded-lg shadow-sm bg-white p-6 text-center">
+            <UserGroupIcon className="w-12 h-12 mx-auto mb-3 text-blue-500" />
+            <h1 className="text-xl font-semibold mb-1">Join &ldquo;{invitation.itineraryName}&rdquo;</h1>
+            <p className="text-sm text-gray-500 mb-4">
+                You&apos;ve been invited to this itinerary ({ITINERARY_ROLE_LABELS[invitation.role].toLowerCase()}).
+                {invitation.currentRole === 'viewer' && " You can already view it; accepting lets you edit it too."}
+            </p>
+            {isForAnotherAccount ? (
+                <p className="text-sm text-amber-600">
+                    This invitation was sent to {invitation.email}. Log in with that account to accept it.
+                </p>
+            ) : (
+                <div className="flex justify-center gap-2">
+                    <Button type="button" variant="outline" onClick={() => router.push('/planner')} disabled={isLoading}>
+                        Not now
+                    </Button>
+                    <Button type="button" onClick={handleAccept} disabled={isLoading} className="bg-blue-500 hover:bg-blue-600 text-white">
+                        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Join itinerary
+                    </Button>
+                </div>
+            )}
+            {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+        </div>
+    );
+}
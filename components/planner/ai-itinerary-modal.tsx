@@ -8,14 +8,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea"; // Import the Textarea component
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from "@/components/ui/dialog";
-import { Loader2, Wand2 } from 'lucide-react'; // Added Wand2
+import { ClipboardList, Loader2, Wand2 } from 'lucide-react'; // Added Wand2
+import PasteTextItinerary from '@/components/planner/paste-text-itinerary';
 
 interface AiItineraryModalProps {
     isOpen: boolean;
     onOpenChange: (open: boolean) => void;
 }
 
+// "describe": the AI plans a trip from a prompt; "paste": the user's own notes are turned into an itinerary
+type CreateMode = 'describe' | 'paste';
+
 export default function AiItineraryModal({ isOpen, onOpenChange }: AiItineraryModalProps) {
+    const [mode, setMode] = useState<CreateMode>('describe');
     const [numDays, setNumDays] = useState<number>(3); // Default to 3 days
     const [userPrompt, setUserPrompt] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -68,6 +73,7 @@ export default function AiItineraryModal({ isOpen, onOpenChange }: AiItineraryMo
     const handleModalChange = (open: boolean) => {
         if (!open) {
             // Reset state when closing
+            setMode('describe');
             setNumDays(3);
             setUserPrompt('');
             setIsLoading(false);
@@ -81,66 +87,94 @@ export default function AiItineraryModal({ isOpen, onOpenChange }: AiItineraryMo
             <DialogContent className="sm:max-w-[525px]">
                 <DialogHeader>
                     <DialogTitle className="flex items-center gap-2">
-                        <Wand2 className="w-5 h-5 text-purple-600" />
-                        Generate Itinerary with AI
+                        {mode === 'paste' ? <ClipboardList className="w-5 h-5 text-purple-600" /> : <Wand2 className="w-5 h-5 text-purple-600" />}
+                        {mode === 'paste' ? 'Itinerary from Your Notes' : 'Generate Itinerary with AI'}
                     </DialogTitle>
                     <DialogDescription>
-                        Tell us about your trip, and we'll create a starting plan for you! You can edit it afterwards.
+                        {mode === 'paste'
+                            ? "Paste a plan from a blog, a chat or your notes app. You'll see the days and places we found before anything is saved."
+                            : "Tell us about your trip, and we'll create a starting plan for you! You can edit it afterwards."}
                     </DialogDescription>
                 </DialogHeader>
-                <div className="grid gap-4 py-4">
-                    <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="numDays" className="text-right">
-                            Days
-                        </Label>
-                        <Input
-                            id="numDays"
-                            type="number"
-                            min="1"
-                            max="14" // Add max limit matching API
-                            value={numDays}
-                            onChange={(e) => setNumDays(Math.max(1, parseInt(e.target.value, 10) || 1))} // Ensure positive number
-                            className="col-span-3"
-                            disabled={isLoading}
-                        />
-                    </div>
-                    <div className="grid grid-cols-4 items-start gap-4">
-                        <Label htmlFor="userPrompt" className="text-right pt-2">
-                            Prompt
-                        </Label>
-                        <Textarea
-                            id="userPrompt"
-                            placeholder="e.g., Focus on nature and temples, maybe 3-4 activities per day. Include some good photo spots and places good for kids."
-                            value={userPrompt}
-                            onChange={(e) => setUserPrompt(e.target.value)}
-                            className="col-span-3 min-h-[100px]"
+                <div className="flex gap-1 rounded-md bg-gray-100 p-1 text-sm" role="tablist">
+                    {([['describe', 'Describe a trip'], ['paste', 'Paste text']] as const).map(([value, label]) => (
+                        <button
+                            key={value}
+                            type="button"
+                            role="tab"
+                            aria-selected={mode === value}
+                            onClick={() => { setMode(value); setError(null); }}
                             disabled={isLoading}
-                        />
-                    </div>
-                    {error && <p className="text-red-600 text-sm col-span-4 text-center px-2 py-1 bg-red-50 border border-red-200 rounded">{error}</p>}
+                            className={`flex-1 rounded px-3 py-1 ${mode === value ? 'bg-white shadow-sm font-medium text-purple-700' : 'text-gray-600 hover:text-gray-900'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
                 </div>
-                <DialogFooter>
-                    <DialogClose asChild>
-                        <Button type="button" variant="outline" disabled={isLoading}>
-                            Cancel
-                        </Button>
-                    </DialogClose>
-                    <Button
-                        type="button"
-                        onClick={handleGenerate}
-                        disabled={isLoading || !userPrompt.trim() || numDays <= 0} // Disable if loading or invalid input
-                        className="bg-purple-600 hover:bg-purple-700 text-white" // Style the generate button
-                    >
-                        {isLoading ? (
-                            <>
-                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                Generating...
-                            </>
-                        ) : (
-                            "Generate Itinerary"
-                        )}
-                    </Button>
-                </DialogFooter>
+                {mode === 'paste' ? (
+                    <PasteTextItinerary
+                        onCreated={(itineraryId) => {
+                            handleModalChange(false);
+                            router.push(`/planner/${itineraryId}`);
+                        }}
+                    />
+                ) : (
+                    <>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="numDays" className="text-right">
+                                    Days
+                                </Label>
+                                <Input
+                                    id="numDays"
+                                    type="number"
+                                    min="1"
+                                    max="14" // Add max limit matching API
+                                    value={numDays}
+                                    onChange={(e) => setNumDays(Math.max(1, parseInt(e.target.value, 10) || 1))} // Ensure positive number
+                                    className="col-span-3"
+                                    disabled={isLoading}
+                                />
+                            </div>
+                            <div className="grid grid-cols-4 items-start gap-4">
+                                <Label htmlFor="userPrompt" className="text-right pt-2">
+                                    Prompt
+                                </Label>
+                                <Textarea
+                                    id="userPrompt"
+                                    placeholder="e.g., Focus on nature and temples, maybe 3-4 activities per day. Include some good photo spots and places good for kids."
+                                    value={userPrompt}
+                                    onChange={(e) => setUserPrompt(e.target.value)}
+                                    className="col-span-3 min-h-[100px]"
+                                    disabled={isLoading}
+                                />
+                            </div>
+                            {error && <p className="text-red-600 text-sm col-span-4 text-center px-2 py-1 bg-red-50 border border-red-200 rounded">{error}</p>}
+                        </div>
+                        <DialogFooter>
+                            <DialogClose asChild>
+                                <Button type="button" variant="outline" disabled={isLoading}>
+                                    Cancel
+                                </Button>
+                            </DialogClose>
+                            <Button
+                                type="button"
+                                onClick={handleGenerate}
+                                disabled={isLoading || !userPrompt.trim() || numDays <= 0} // Disable if loading or invalid input
+                                className="bg-purple-600 hover:bg-purple-700 text-white" // Style the generate button
+                            >
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Generating...
+                                    </>
+                                ) : (
+                                    "Generate Itinerary"
+                                )}
+                            </Button>
+                        </DialogFooter>
+                    </>
+                )}
             </DialogContent>
         </Dialog>
     );
@@ -0,0 +1,263 @@
+// /components/planner/collaborators-modal.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { ITINERARY_ROLE_LABELS } from '@/lib/itinerary-roles';
+import type { ItineraryInvitation, ItineraryMember, ItineraryMemberRole, ItineraryRole } from '@/lib/types';
+
+interface CollaboratorsModalProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    itineraryId: number;
+    role: ItineraryRole; // The current user's role
+    currentUserId: string | null;
+}
+
+const MEMBER_ROLES: ItineraryMemberRole[] = ['editor', 'viewer'];
+
+function RoleSelect({ value, onChange, disabled, label }: {
+    value: ItineraryMemberRole;
+    onChange: (role: ItineraryMemberRole) => void;
+    disabled?: boolean;
+    label: string;
+}) {
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as ItineraryMemberRole)}
+            disabled={disabled}
+            className="border rounded px-2 py-1.5 text-sm bg-white"
+            aria-label={label}
+        >
+            {MEMBER_ROLES.map(role => (
+                <option key={role} value={role}>{ITINERARY_ROLE_LABELS[role]}</option>
+            ))}
+        </select>
+    );
+}
+
+// Members of an itinerary and, for its owner, inviting people by email or link
+export default function CollaboratorsModal({ isOpen, onOpenChange, itineraryId, role, currentUserId }: CollaboratorsModalProps) {
+    const [members, setMembers] = useState<ItineraryMember[]>([]);
+    const [invitations, setInvitations] = useState<ItineraryInvitation[]>([]);
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<ItineraryMemberRole>('editor');
+    const [copiedInvitationId, setCopiedInvitationId] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const router = useRouter();
+
+    const isOwner = role === 'owner';
+
+    const getInvitationUrl = (invitation: ItineraryInvitation) => `${window.location.origin}/invite/${invitation.token}`;
+
+    // Load members (and, for the owner, open invitations) each time the modal opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setError(null);
+        setCopiedInvitationId(null);
+        setIsLoading(true);
+        Promise.all([
+            fetch(`/api/itineraries/${itineraryId}/members`).then(async response => {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || 'Failed to load members');
+                setMembers(data.members);
+            }),
+            isOwner && fetch(`/api/itineraries/${itineraryId}/invitations`).then(async response => {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || 'Failed to load invitations');
+                setInvitations(data);
+            }),
+        ])
+            .catch(err => setError(err.message))
+            .finally(() => setIsLoading(false));
+    }, [isOpen, itineraryId, isOwner]);
+
+    // Run a request, showing its error message if it fails; returns the response body on success
+    const runRequest = useCallback(async (url: string, init: RequestInit, fallbackError: string) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(url, init);
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || fallbackError);
+            return data;
+        } catch (err: any) {
+            setError(err.message);
+            return null;
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    const handleInvite = async (email: string | null) => {
+        const invitation: ItineraryInvitation | null = await runRequest(
+            `/api/itineraries/${itineraryId}/invitations`,
+            { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ email, role: inviteRole }) },
+            'Failed to create invitation'
+        );
+        if (invitation) {
+            setInvitations(prev => [...prev, invitation]);
+            setInviteEmail('');
+        }
+    };
+
+    const handleRevokeInvitation = async (invitationId: number) => {
+        const result = await runRequest(`/api/itineraries/${itineraryId}/invitations/${invitationId}`, { method: 'DELETE' }, 'Failed to revoke invitation');
+        if (result) setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+    };
+
+    const handleChangeRole = async (userId: string, newRole: ItineraryMemberRole) => {
+        const updated: ItineraryMember | null = await runRequest(
+            `/api/itineraries/${itineraryId}/members/${userId}`,
+            { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ role: newRole }) },
+            'Failed to change role'
+        );
+        if (updated) setMembers(prev => prev.map(member => member.userId === userId ? updated : member));
+    };
+
+    const handleRemoveMember = async (member: ItineraryMember) => {
+        const isSelf = member.userId === currentUserId;
+        const message = isSelf
+            ? "Leave this itinerary? You'll need a new invitation to get back in."
+            : `Remove ${member.email} from this itinerary?`;
+        if (!window.confirm(message)) return;
+        const result = await runRequest(`/api/itineraries/${itineraryId}/members/${member.userId}`, { method: 'DELETE' }, 'Failed to remove member');
+        if (!result) return;
+        if (isSelf) {
+            router.push('/planner');
+        } else {
+            setMembers(prev => prev.filter(m => m.userId !== member.userId));
+        }
+    };
+
+    const handleCopy = async (invitation: ItineraryInvitation) => {
+        try {
+            await navigator.clipboard.writeText(getInvitationUrl(invitation));
+            setCopiedInvitationId(invitation.id);
+        } catch {
+            setError("Couldn't copy the link. Check that the browser allows clipboard access.");
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px]">
+                <DialogHeader>
+                    <DialogTitle>People</DialogTitle>
+                    <DialogDescription>
+                        {isOwner
+                            ? "Invite people to plan this trip with you. Editors can change days and stops; viewers can only look."
+                            : `You ${role === 'editor' ? 'can edit' : 'can view'} this itinerary. Only its owner can invite people.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <ul className="divide-y border rounded max-h-56 overflow-y-auto">
+                    <li className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                        <span className="font-medium">{isOwner ? 'You' : 'Trip owner'}</span>
+                        <span className="text-gray-500">{ITINERARY_ROLE_LABELS.owner}</span>
+                    </li>
+                    {members.map(member => (
+                        <li key={member.userId} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                            <span className="truncate">
+                                {member.email}
+                                {member.userId === currentUserId && <span className="text-gray-500"> (you)</span>}
+                            </span>
+                            <div className="flex flex-shrink-0 items-center gap-2">
+                                {isOwner ? (
+                                    <RoleSelect
+                                        value={member.role}
+                                        onChange={(newRole) => handleChangeRole(member.userId, newRole)}
+                                        disabled={isLoading}
+                                        label={`Role of ${member.email}`}
+                                    />
+                                ) : (
+                                    <span className="text-gray-500">{ITINERARY_ROLE_LABELS[member.role]}</span>
+                                )}
+                                {(isOwner || member.userId === currentUserId) && (
+                                    <button
+                                        onClick={() => handleRemoveMember(member)}
+                                        disabled={isLoading}
+                                        className="text-xs text-red-500 hover:text-red-600"
+                                    >
+                                        {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                {isOwner && (
+                    <>
+                        <form
+                            className="flex gap-2"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                if (inviteEmail.trim()) handleInvite(inviteEmail.trim());
+                            }}
+                        >
+                            <Input
+                                type="email"
+                                placeholder="Email address"
+                                value={inviteEmail}
+                                onChange={(e) => setInviteEmail(e.target.value)}
+                                disabled={isLoading}
+                                className="flex-1 min-w-0"
+                            />
+                            <RoleSelect value={inviteRole} onChange={setInviteRole} disabled={isLoading} label="Role for new invitations" />
+                            <Button type="submit" disabled={isLoading || !inviteEmail.trim()} className="bg-blue-500 hover:bg-blue-600 text-white">
+                                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Invite
+                            </Button>
+                        </form>
+                        <p className="-mt-2 text-xs text-gray-500">
+                            Send them the invitation link. They&apos;ll also see the invitation on their planner page once they log in with that email.{' '}
+                            <button type="button" onClick={() => handleInvite(null)} disabled={isLoading} className="text-blue-600 hover:text-blue-700">
+                                Or create a link anyone can join with
+                            </button>
+                        </p>
+
+                        {invitations.length > 0 && (
+                            <div>
+                                <h3 className="text-sm font-medium mb-1">Open invitations</h3>
+                                <ul className="divide-y border rounded max-h-40 overflow-y-auto">
+                                    {invitations.map(invitation => (
+                                        <li key={invitation.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                                            <span className="truncate">
+                                                {invitation.email ?? 'Anyone with the link'}
+                                                <span className="text-gray-500"> · {ITINERARY_ROLE_LABELS[invitation.role]}</span>
+                                            </span>
+                                            <div className="flex flex-shrink-0 items-center gap-2">
+                                                <button onClick={() => handleCopy(invitation)} className="text-xs text-blue-600 hover:text-blue-700">
+                                                    {copiedInvitationId === invitation.id ? 'Copied' : 'Copy link'}
+                                                </button>
+                                                <button
+                                                    onClick={() => handleRevokeInvitation(invitation.id)}
+                                                    disabled={isLoading}
+                                                    className="p-0.5 rounded hover:bg-gray-100"
+                                                    title="Revoke invitation"
+                                                    aria-label="Revoke invitation"
+                                                >
+                                                    <XMarkIcon className="h-4 w-4 text-gray-500" />
+                                                </button>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+            </DialogContent>
+        </Dialog>
+    );
+}
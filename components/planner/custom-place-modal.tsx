@@ -0,0 +1,155 @@
+// /components/planner/custom-place-modal.tsx
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { MapPinIcon } from '@heroicons/react/24/outline';
+import { CUSTOM_PLACE_CONFIG } from '@/lib/constants';
+import type { ItineraryDay } from '@/lib/types';
+
+export interface CustomPlaceFormValues {
+    name: string;
+    address: string;
+    notes: string;
+    coordinates: [number, number] | null;
+    dayId: number | null; // Day to add the new place to, if any
+}
+
+export const EMPTY_CUSTOM_PLACE_FORM: CustomPlaceFormValues = {
+    name: '',
+    address: '',
+    notes: '',
+    coordinates: null,
+    dayId: null,
+};
+
+interface CustomPlaceModalProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    values: CustomPlaceFormValues; // Controlled so the form survives closing the modal to pick on the map
+    onChange: (values: CustomPlaceFormValues) => void;
+    days: ItineraryDay[];
+    onPickOnMap: () => void;
+    onSave: (values: CustomPlaceFormValues) => Promise<void>;
+}
+
+export default function CustomPlaceModal({ isOpen, onOpenChange, values, onChange, days, onPickOnMap, onSave }: CustomPlaceModalProps) {
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (changes: Partial<CustomPlaceFormValues>) => onChange({ ...values, ...changes });
+
+    const handleSave = async () => {
+        if (!values.name.trim() || !values.coordinates) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave(values);
+        } catch (err: any) {
+            console.error("Error saving custom place:", err);
+            setError(err.message || "An unexpected error occurred.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleModalChange = (open: boolean) => {
+        if (isSaving) return;
+        if (!open) setError(null);
+        onOpenChange(open);
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={handleModalChange}>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>Add Your Own Place</DialogTitle>
+                    <DialogDescription>
+                        Add a hotel, a booked restaurant or anywhere else that isn&rsquo;t in the guide. Only you can see your places.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-2">
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="customPlaceName">Name</Label>
+                        <Input
+                            id="customPlaceName"
+                            value={values.name}
+                            onChange={(e) => update({ name: e.target.value })}
+                            maxLength={CUSTOM_PLACE_CONFIG.nameMaxLength}
+                            placeholder="e.g. Hotel Gracery Shinjuku"
+                            disabled={isSaving}
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label>Location</Label>
+                        <div className="flex items-center gap-3">
+                            <Button type="button" variant="outline" size="sm" onClick={onPickOnMap} disabled={isSaving}>
+                                <MapPinIcon className="mr-1 h-4 w-4" />
+                                {values.coordinates ? "Pick again" : "Pick on map"}
+                            </Button>
+                            <span className="text-sm text-gray-500">
+                                {values.coordinates
+                                    ? `${values.coordinates[0].toFixed(5)}, ${values.coordinates[1].toFixed(5)}`
+                                    : "No location picked yet"}
+                            </span>
+                        </div>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="customPlaceAddress">Address <span className="text-gray-400 font-normal">(optional)</span></Label>
+                        <Input
+                            id="customPlaceAddress"
+                            value={values.address}
+                            onChange={(e) => update({ address: e.target.value })}
+                            maxLength={CUSTOM_PLACE_CONFIG.addressMaxLength}
+                            disabled={isSaving}
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="customPlaceNotes">Notes <span className="text-gray-400 font-normal">(optional)</span></Label>
+                        <Textarea
+                            id="customPlaceNotes"
+                            value={values.notes}
+                            onChange={(e) => update({ notes: e.target.value })}
+                            maxLength={CUSTOM_PLACE_CONFIG.notesMaxLength}
+                            placeholder="e.g. Check-in from 15:00"
+                            disabled={isSaving}
+                        />
+                    </div>
+                    {days.length > 0 && (
+                        <div className="grid gap-1.5">
+                            <Label htmlFor="customPlaceDay">Add to</Label>
+                            <select
+                                id="customPlaceDay"
+                                value={values.dayId ?? ''}
+                                onChange={(e) => update({ dayId: e.target.value ? Number(e.target.value) : null })}
+                                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                                disabled={isSaving}
+                            >
+                                <option value="">Don&rsquo;t add to a day yet</option>
+                                {days.map(day => (
+                                    <option key={day.id} value={day.id}>Day {day.id}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+                </div>
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="outline" disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    </DialogClose>
+                    <Button type="button" onClick={handleSave} disabled={isSaving || !values.name.trim() || !values.coordinates}>
+                        {isSaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Saving...</> : "Save Place"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,93 @@
+// /components/planner/export-modal.tsx
+"use client";
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { MAP_EXPORT_FORMATS, type MapExportFormat } from '@/lib/map-export';
+
+export interface ExportOption {
+    href: string;
+    label: string;
+    hint: string;
+    disabledReason?: string; // Shown instead of the download link when the export isn't available
+}
+
+const MAP_FORMAT_HINTS: Record<MapExportFormat, string> = {
+    geojson: 'For geojson.io, QGIS and most web maps',
+    kml: 'For Google My Maps and Google Earth',
+    gpx: 'For OsmAnd, Maps.me and GPS apps',
+};
+
+function getMapExportOptions(basePath: string): ExportOption[] {
+    return (Object.keys(MAP_EXPORT_FORMATS) as MapExportFormat[]).map(format => ({
+        href: `${basePath}/${format}`,
+        label: `${MAP_EXPORT_FORMATS[format].label} (.${MAP_EXPORT_FORMATS[format].extension})`,
+        hint: MAP_FORMAT_HINTS[format],
+    }));
+}
+
+// Calendar file, the map formats (one layer/track per day) and the re-importable JSON file
+export function getItineraryExportOptions(itineraryId: number, hasStartDate: boolean): ExportOption[] {
+    return [
+        {
+            href: `/api/itineraries/${itineraryId}/export/ics`,
+            label: 'Calendar (.ics)',
+            hint: 'For Google Calendar, Apple Calendar and Outlook',
+            disabledReason: hasStartDate ? undefined : 'Set the trip dates first',
+        },
+        ...getMapExportOptions(`/api/itineraries/${itineraryId}/export`),
+        {
+            href: `/api/itineraries/${itineraryId}/export/json`,
+            label: 'Itinerary file (.json)',
+            hint: 'To import again later or send to a friend',
+        },
+    ];
+}
+
+export function getFavoritesExportOptions(): ExportOption[] {
+    return getMapExportOptions('/api/favorites/export');
+}
+
+interface ExportModalProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    title: string;
+    description: string;
+    options: ExportOption[];
+}
+
+// List of file downloads for an itinerary or the user's favorites
+export default function ExportModal({ isOpen, onOpenChange, title, description, options }: ExportModalProps) {
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>{description}</DialogDescription>
+                </DialogHeader>
+                <ul className="divide-y border rounded">
+                    {options.map(option => (
+                        <li key={option.href}>
+                            {option.disabledReason ? (
+                                <div className="flex items-center justify-between gap-3 px-3 py-2 text-gray-400">
+                                    <div>
+                                        <p className="text-sm font-medium">{option.label}</p>
+                                        <p className="text-xs">{option.disabledReason}</p>
+                                    </div>
+                                </div>
+                            ) : (
+                                <a href={option.href} download className="flex items-center justify-between gap-3 px-3 py-2 hover:bg-gray-50">
+                                    <div>
+                                        <p className="text-sm font-medium">{option.label}</p>
+                                        <p className="text-xs text-gray-500">{option.hint}</p>
+                                    </div>
+                                    <ArrowDownTrayIcon className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                                </a>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,287 @@
+// /components/planner/import-itinerary-modal.tsx
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { IMPORT_FILE_ACCEPT, parseImportFile, type ImportItineraryRequest, type ImportRow, type ParsedImport } from '@/lib/itinerary-import';
+import type { ImportMatch } from '@/lib/import-matching';
+import { IMPORT_CONFIG } from '@/lib/constants';
+import { formatDistance } from '@/lib/geo';
+
+interface ImportItineraryModalProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// What happens to each imported row
+type ImportDecision = 'match' | 'custom' | 'drop';
+
+const MATCH_METHOD_LABELS = {
+    id: 'by id',
+    name: 'by name',
+    coordinates: 'nearby',
+} as const;
+
+function getDefaultDecision(row: ImportRow, match: ImportMatch): ImportDecision {
+    if (match.location) return 'match';
+    return row.coordinates ? 'custom' : 'drop';
+}
+
+/**
+ * Rows whose match is already used by an earlier row of the same day that is kept as a match
+ * (a place can only be on a day once). Such rows can only be dropped or added as custom places.
+ */
+function findDuplicateRows(rows: ImportRow[], matches: ImportMatch[], decisions: ImportDecision[]): Set<number> {
+    const usedByDay = new Map<number, Set<string>>();
+    const duplicates = new Set<number>();
+    rows.forEach((row, index) => {
+        const locationId = matches[index]?.location?.id;
+        if (!locationId) return;
+        const used = usedByDay.get(row.day) ?? new Set<string>();
+        usedByDay.set(row.day, used);
+        if (used.has(locationId)) {
+            duplicates.add(index);
+        } else if (decisions[index] === 'match') {
+            used.add(locationId);
+        }
+    });
+    return duplicates;
+}
+
+function describeMatch(row: ImportRow, match: ImportMatch, isDuplicate: boolean): string {
+    if (isDuplicate) return `Already on this day (${match.location!.name})`;
+    if (!match.location || !match.method) {
+        return row.coordinates ? 'No match in the guide' : 'No match and no coordinates';
+    }
+    const how = match.method === 'coordinates' && match.distanceKm !== undefined
+        ? `${formatDistance(match.distanceKm)} away`
+        : MATCH_METHOD_LABELS[match.method];
+    return match.location.name === row.name ? `Matched ${how}` : `Matched to ${match.location.name} (${how})`;
+}
+
+// File name without its extension, as a fallback itinerary name
+function baseNameOf(fileName: string): string {
+    return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+}
+
+// Upload a JSON/CSV/KML/GeoJSON file, review how its places were matched, then create the itinerary
+export default function ImportItineraryModal({ isOpen, onOpenChange }: ImportItineraryModalProps) {
+    const [parsed, setParsed] = useState<ParsedImport | null>(null);
+    const [matches, setMatches] = useState<ImportMatch[]>([]);
+    const [decisions, setDecisions] = useState<ImportDecision[]>([]);
+    const [itineraryName, setItineraryName] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const router = useRouter();
+
+    // Start over each time the modal opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setParsed(null);
+        setMatches([]);
+        setDecisions([]);
+        setItineraryName('');
+        setError(null);
+    }, [isOpen]);
+
+    const handleFileChange = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        if (file.size > IMPORT_CONFIG.maxFileBytes) {
+            setError('This file is too large to import.');
+            return;
+        }
+        setIsLoading(true);
+        try {
+            const result = parseImportFile(file.name, await file.text());
+            const response = await fetch('/api/itineraries/import/match', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ rows: result.rows }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to match places');
+
+            // Repeated places on a day (the same name twice, or two points near one place) default to dropped
+            const defaultDecisions = result.rows.map((row, index) => getDefaultDecision(row, data.matches[index]));
+            const duplicates = findDuplicateRows(result.rows, data.matches, defaultDecisions);
+            setParsed(result);
+            setMatches(data.matches);
+            setDecisions(defaultDecisions.map((decision, index) => (duplicates.has(index) ? 'drop' : decision)));
+            setItineraryName(result.name ?? baseNameOf(file.name));
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Rows grouped by the file's day numbers, in order; gaps in the numbering are closed up
+    const dayGroups = useMemo(() => {
+        if (!parsed) return [];
+        const dayNumbers = Array.from(new Set(parsed.rows.map(row => row.day))).sort((a, b) => a - b);
+        return dayNumbers.map(day => ({
+            day,
+            rowIndexes: parsed.rows.map((row, index) => (row.day === day ? index : -1)).filter(index => index >= 0),
+        }));
+    }, [parsed]);
+
+    const duplicateRows = useMemo(() => (
+        parsed ? findDuplicateRows(parsed.rows, matches, decisions) : new Set<number>()
+    ), [parsed, matches, decisions]);
+
+    const counts = useMemo(() => ({
+        match: decisions.filter(decision => decision === 'match').length,
+        custom: decisions.filter(decision => decision === 'custom').length,
+        drop: decisions.filter(decision => decision === 'drop').length,
+    }), [decisions]);
+
+    const handleCreate = async () => {
+        if (!parsed || !itineraryName.trim()) return;
+        const body: ImportItineraryRequest = {
+            name: itineraryName.trim(),
+            startDate: parsed.startDate,
+            days: dayGroups.map(group => ({
+                stops: group.rowIndexes
+                    .filter(index => decisions[index] !== 'drop' && !(decisions[index] === 'match' && duplicateRows.has(index)))
+                    .map(index => {
+                        const row = parsed.rows[index];
+                        const stopFields = { startTime: row.startTime, durationMinutes: row.durationMinutes, note: row.note, costOverride: row.costOverride };
+                        return decisions[index] === 'match'
+                            ? { locationId: matches[index].location!.id, ...stopFields }
+                            : {
+                                customPlace: { name: row.name, latitude: row.coordinates![0], longitude: row.coordinates![1], address: row.address },
+                                ...stopFields,
+                            };
+                    }),
+            })),
+        };
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/itineraries/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to import itinerary');
+            onOpenChange(false);
+            router.push(`/planner/${data.itineraryId}`);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const renderRow = (index: number) => {
+        const row = parsed!.rows[index];
+        const match = matches[index];
+        const isDuplicate = duplicateRows.has(index);
+        return (
+            <li key={index} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                    <p className={decisions[index] === 'drop' ? "truncate text-gray-400 line-through" : "truncate"}>{row.name}</p>
+                    <p className="truncate text-xs text-gray-500">
+                        {describeMatch(row, match, isDuplicate)}
+                    </p>
+                </div>
+                <select
+                    value={decisions[index]}
+                    onChange={(e) => {
+                        const decision = e.target.value as ImportDecision;
+                        setDecisions(prev => prev.map((value, i) => (i === index ? decision : value)));
+                    }}
+                    disabled={isLoading}
+                    className="flex-shrink-0 border rounded px-2 py-1 text-xs bg-white"
+                    aria-label={`What to do with ${row.name}`}
+                >
+                    {match.location && (!isDuplicate || decisions[index] === 'match') && <option value="match">Use match</option>}
+                    {row.coordinates && <option value="custom">Add as my place</option>}
+                    <option value="drop">Drop</option>
+                </select>
+            </li>
+        );
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px]">
+                <DialogHeader>
+                    <DialogTitle>Import Itinerary</DialogTitle>
+                    <DialogDescription>
+                        {parsed
+                            ? "Check how the places were matched. Unmatched places with coordinates can be added as your own places."
+                            : "Upload an itinerary JSON export, a CSV with day and place columns, or a KML/GeoJSON file (e.g. exported from Google My Maps)."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!parsed ? (
+                    <div className="grid gap-2 py-2">
+                        <Input
+                            type="file"
+                            accept={IMPORT_FILE_ACCEPT}
+                            onChange={(e) => handleFileChange(e.target.files?.[0])}
+                            disabled={isLoading}
+                        />
+                        <p className="text-xs text-gray-500">
+                            CSV files need a header row with a <code>day</code> column and a <code>name</code> or <code>id</code> column;
+                            optional columns are <code>lat</code>, <code>lng</code>, <code>time</code>, <code>duration</code> and <code>note</code>.
+                        </p>
+                        {isLoading && (
+                            <p className="flex items-center text-sm text-gray-500">
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Matching places...
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <>
+                        <Input
+                            value={itineraryName}
+                            onChange={(e) => setItineraryName(e.target.value)}
+                            placeholder="Itinerary name"
+                            disabled={isLoading}
+                            aria-label="Itinerary name"
+                        />
+                        <div className="max-h-80 overflow-y-auto border rounded">
+                            {dayGroups.map((group, groupIndex) => (
+                                <div key={group.day}>
+                                    <h3 className="sticky top-0 bg-gray-50 px-3 py-1 text-xs font-medium text-gray-600 border-b">Day {groupIndex + 1}</h3>
+                                    <ul className="divide-y">{group.rowIndexes.map(renderRow)}</ul>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            {counts.match} matched · {counts.custom} added as your places · {counts.drop} dropped
+                        </p>
+                    </>
+                )}
+
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                {parsed && (
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => setParsed(null)} disabled={isLoading}>
+                            Choose another file
+                        </Button>
+                        <Button
+                            type="button"
+                            onClick={handleCreate}
+                            disabled={isLoading || !itineraryName.trim()}
+                            className="bg-blue-500 hover:bg-blue-600 text-white"
+                        >
+                            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Create Itinerary
+                        </Button>
+                    </DialogFooter>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
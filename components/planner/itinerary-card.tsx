@@ -1,20 +1,106 @@
 // /components/planner/itinerary-card.tsx
 import Link from 'next/link';
-import { CalendarDaysIcon } from '@heroicons/react/24/outline'; // Or another relevant icon
+import { CalendarDaysIcon, PencilSquareIcon, DocumentDuplicateIcon, TrashIcon, ArrowRightStartOnRectangleIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline'; // Or another relevant icon
+import { formatTripDateRange, getTripEndDate } from '@/lib/date-utils';
+import { formatCostTotals } from '@/lib/itinerary-budget';
+import type { CostTotals } from '@/lib/types';
 
 interface ItineraryCardProps {
     id: number;
     name: string;
+    startDate?: string | null;
+    dayCount?: number;
+    costTotals?: CostTotals; // Estimated cost of the trip's stops
+    roleLabel?: string; // Shown on trips shared with the user, e.g. "Can edit"
+    onRename?: () => void;
+    onDuplicate?: () => void;
+    onExport?: () => void;
+    onDelete?: () => void;
+    onLeave?: () => void;
 }
 
-export default function ItineraryCard({ id, name }: ItineraryCardProps) {
+export default function ItineraryCard({ id, name, startDate = null, dayCount = 0, costTotals, roleLabel, onRename, onDuplicate, onExport, onDelete, onLeave }: ItineraryCardProps) {
+    // Action buttons sit on top of the link, so stop the click from navigating
+    const handleAction = (e: React.MouseEvent, action?: () => void) => {
+        e.preventDefault();
+        e.stopPropagation();
+        action?.();
+    };
+
+    const dayLabel = `${dayCount} ${dayCount === 1 ? 'day' : 'days'}`;
+    const dateLabel = startDate
+        ? formatTripDateRange(startDate, getTripEndDate(startDate, Math.max(dayCount, 1)))
+        : 'No dates set';
+    const costLabel = costTotals ? formatCostTotals(costTotals) : null;
+
     return (
-        <Link href={`/planner/${id}`} legacyBehavior>
-            <a className="flex flex-col items-center justify-center p-6 border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow aspect-video cursor-pointer bg-white h-full text-center">
-                <CalendarDaysIcon className="w-12 h-12 mb-3 text-blue-500" />
-                <span className="text-lg font-semibold text-gray-800 break-words">{name}</span>
-                {/* Optional: Add more info like date created or number of days */}
-            </a>
-        </Link>
+        <div className="relative group h-full">
+            <Link href={`/planner/${id}`} legacyBehavior>
+                <a className="flex flex-col items-center justify-center p-6 border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow aspect-video cursor-pointer bg-white h-full text-center">
+                    <CalendarDaysIcon className="w-12 h-12 mb-3 text-blue-500" />
+                    <span className="text-lg font-semibold text-gray-800 break-words">{name}</span>
+                    <span className="mt-1 text-sm text-gray-500">{dateLabel} · {dayLabel}</span>
+                    {costLabel && (
+                        <span className="text-sm text-gray-500" title="Estimated cost of the planned stops">
+                            Est. {costLabel}{costTotals!.unpricedCount > 0 && '+'}
+                        </span>
+                    )}
+                    {roleLabel && <span className="mt-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">{roleLabel}</span>}
+                </a>
+            </Link>
+            {/* Card Actions (visible on hover / focus) */}
+            <div className="absolute top-2 right-2 flex gap-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 sm:focus-within:opacity-100 transition-opacity">
+                {onRename && (
+                    <button
+                        onClick={(e) => handleAction(e, onRename)}
+                        className="p-1.5 rounded bg-white/90 shadow-sm hover:bg-gray-100"
+                        title="Rename itinerary"
+                        aria-label={`Rename ${name}`}
+                    >
+                        <PencilSquareIcon className="h-4 w-4 text-gray-600" />
+                    </button>
+                )}
+                {onDuplicate && (
+                    <button
+                        onClick={(e) => handleAction(e, onDuplicate)}
+                        className="p-1.5 rounded bg-white/90 shadow-sm hover:bg-gray-100"
+                        title="Duplicate itinerary"
+                        aria-label={`Duplicate ${name}`}
+                    >
+                        <DocumentDuplicateIcon className="h-4 w-4 text-gray-600" />
+                    </button>
+                )}
+                {onExport && (
+                    <button
+                        onClick={(e) => handleAction(e, onExport)}
+                        className="p-1.5 rounded bg-white/90 shadow-sm hover:bg-gray-100"
+                        title="Export itinerary"
+                        aria-label={`Export ${name}`}
+                    >
+                        <ArrowDownTrayIcon className="h-4 w-4 text-gray-600" />
+                    </button>
+                )}
+                {onDelete && (
+                    <button
+                        onClick={(e) => handleAction(e, onDelete)}
+                        className="p-1.5 rounded bg-white/90 shadow-sm hover:bg-red-50"
+                        title="Delete itinerary"
+                        aria-label={`Delete ${name}`}
+                    >
+                        <TrashIcon className="h-4 w-4 text-red-500" />
+                    </button>
+                )}
+                {onLeave && (
+                    <button
+                        onClick={(e) => handleAction(e, onLeave)}
+                        className="p-1.5 rounded bg-white/90 shadow-sm hover:bg-red-50"
+                        title="Leave itinerary"
+                        aria-label={`Leave ${name}`}
+                    >
+                        <ArrowRightStartOnRectangleIcon className="h-4 w-4 text-red-500" />
+                    </button>
+                )}
+            </div>
+        </div>
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,200 @@
+// /components/planner/itinerary-history-panel.tsx
+"use client";
+
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import type { ItineraryDay, ItinerarySnapshot } from "@/lib/types";
+import { summarizeItineraryChanges, describeItineraryChanges } from "@/lib/itinerary-history";
+import { SNAPSHOT_CONFIG } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { XMarkIcon, EyeIcon, EyeSlashIcon } from "@heroicons/react/24/outline";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ItineraryHistoryPanelProps {
+  itineraryId: number;
+  currentDays: ItineraryDay[];
+  isSaved: boolean; // Labelled versions are taken from the stored itinerary, so unsaved edits wouldn't be in them
+  previewSnapshotId: number | null;
+  onPreview: (snapshot: ItinerarySnapshot | null) => void;
+  onRestore: (snapshot: ItinerarySnapshot) => void;
+  onClose: () => void;
+}
+
+function formatSnapshotTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function snapshotTitle(snapshot: ItinerarySnapshot): string {
+  return snapshot.label ?? `Automatic save, ${formatSnapshotTime(snapshot.createdAt)}`;
+}
+
+// Version history of the itinerary: saved and automatic snapshots with what changed since, map preview and restore
+export default function ItineraryHistoryPanel({
+  itineraryId,
+  currentDays,
+  isSaved,
+  previewSnapshotId,
+  onPreview,
+  onRestore,
+  onClose,
+}: ItineraryHistoryPanelProps) {
+  const [snapshots, setSnapshots] = useState<ItinerarySnapshot[] | null>(null);
+  const [label, setLabel] = useState('');
+  const [isSavingVersion, setIsSavingVersion] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/itineraries/${itineraryId}/snapshots`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load the version history');
+      setSnapshots(data.snapshots);
+    } catch (err: any) {
+      setError(err.message);
+      setSnapshots(prev => prev ?? []);
+    }
+  }, [itineraryId]);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const saveVersion = useCallback(async (versionLabel: string) => {
+    const response = await fetch(`/api/itineraries/${itineraryId}/snapshots`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ label: versionLabel.slice(0, SNAPSHOT_CONFIG.labelMaxLength) }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to save this version');
+  }, [itineraryId]);
+
+  const handleSaveVersion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    setIsSavingVersion(true);
+    setError(null);
+    try {
+      await saveVersion(label.trim());
+      setLabel('');
+      await fetchSnapshots();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSavingVersion(false);
+    }
+  };
+
+  // The plan being replaced goes into the history first, so a restore can itself be undone from here
+  const handleRestore = async (snapshot: ItinerarySnapshot) => {
+    if (!window.confirm(`Restore "${snapshotTitle(snapshot)}"? Your current plan is kept in the history.`)) return;
+    setRestoringId(snapshot.id);
+    setError(null);
+    try {
+      await saveVersion(`Before restoring ${snapshot.label ? `"${snapshot.label}"` : `the version of ${formatSnapshotTime(snapshot.createdAt)}`}`);
+    } catch (err) {
+      console.error("Failed to save the current plan before restoring:", err);
+    } finally {
+      setRestoringId(null);
+    }
+    onRestore(snapshot);
+  };
+
+  const changeSummaries = useMemo(() => new Map((snapshots ?? []).map(snapshot => [
+    snapshot.id,
+    describeItineraryChanges(summarizeItineraryChanges(snapshot.days, currentDays)),
+  ])), [snapshots, currentDays]);
+
+  const previewedSnapshot = snapshots?.find(snapshot => snapshot.id === previewSnapshotId) ?? null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Version history</h3>
+        <Button size="icon" variant="ghost" onClick={onClose} className="h-8 w-8" aria-label="Close version history">
+          <XMarkIcon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <form onSubmit={handleSaveVersion} className="flex gap-2">
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Name this version, e.g. Before the Kyoto detour"
+          maxLength={SNAPSHOT_CONFIG.labelMaxLength}
+          disabled={isSavingVersion || !isSaved}
+          aria-label="Version name"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={isSavingVersion || !isSaved || !label.trim()} className="h-10">
+          {isSavingVersion && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </form>
+      {!isSaved && <p className="text-xs text-gray-500">Waiting for your latest changes to be saved...</p>}
+
+      {previewedSnapshot && (
+        <div className="rounded border border-blue-200 bg-blue-50 p-2 text-xs text-blue-900">
+          The map shows &ldquo;{snapshotTitle(previewedSnapshot)}&rdquo;.{' '}
+          <button onClick={() => onPreview(null)} className="underline hover:text-blue-700">Back to the current plan</button>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {snapshots === null ? (
+        <p className="flex items-center text-sm text-gray-500">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading history...
+        </p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No earlier versions yet. The plan is kept here automatically as you edit it (at most every {SNAPSHOT_CONFIG.autoIntervalMinutes} minutes),
+          and you can save a named version any time.
+        </p>
+      ) : (
+        <ul className="divide-y border rounded bg-white">
+          {snapshots.map(snapshot => {
+            const stopCount = snapshot.days.reduce((sum, day) => sum + day.locations.length, 0);
+            const isPreviewed = snapshot.id === previewSnapshotId;
+            return (
+              <li key={snapshot.id} className={cn("px-3 py-2 text-sm", isPreviewed && "bg-blue-50")}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className={cn("truncate", snapshot.label ? "font-medium" : "text-gray-700")}>{snapshotTitle(snapshot)}</p>
+                    <p className="text-xs text-gray-500">
+                      {snapshot.label && `${formatSnapshotTime(snapshot.createdAt)} · `}
+                      {snapshot.days.length} {snapshot.days.length === 1 ? 'day' : 'days'} · {stopCount} {stopCount === 1 ? 'stop' : 'stops'}
+                    </p>
+                    <p className="text-xs text-gray-500">Since then: {changeSummaries.get(snapshot.id)}</p>
+                  </div>
+                  <div className="flex flex-shrink-0 items-center gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => onPreview(isPreviewed ? null : snapshot)}
+                      className="h-8 w-8"
+                      title={isPreviewed ? "Stop previewing" : "Preview on the map"}
+                      aria-label={isPreviewed ? "Stop previewing" : "Preview on the map"}
+                    >
+                      {isPreviewed ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(snapshot)}
+                      disabled={restoringId !== null || !isSaved}
+                    >
+                      {restoringId === snapshot.id && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
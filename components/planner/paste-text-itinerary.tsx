@@ -0,0 +1,263 @@
+// /components/planner/paste-text-itinerary.tsx
+"use client";
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { ChevronDown, ChevronUp, Loader2, Plus, X } from 'lucide-react';
+import type { TextItineraryDraft, TextItineraryStop } from '@/lib/text-itinerary';
+import type { ImportItineraryRequest } from '@/lib/itinerary-import';
+import { IMPORT_CONFIG } from '@/lib/constants';
+
+interface PasteTextItineraryProps {
+    onCreated: (itineraryId: number) => void;
+}
+
+const TEXT_PLACEHOLDER = `e.g.
+Day 1: Meiji Shrine in the morning, then Takeshita Street and Shibuya Crossing at night.
+Day 2: Senso-ji, Ueno Park, dinner in Akihabara.`;
+
+// Paste trip notes, check and edit the days and places that were found, then create the itinerary
+export default function PasteTextItinerary({ onCreated }: PasteTextItineraryProps) {
+    const [text, setText] = useState('');
+    const [useAi, setUseAi] = useState(false);
+    const [draft, setDraft] = useState<TextItineraryDraft | null>(null);
+    const [itineraryName, setItineraryName] = useState('');
+    const [warning, setWarning] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFindPlaces = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/itineraries/import/text', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text, useAi }),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to read the text');
+
+            setDraft({ name: data.name, days: data.days.length > 0 ? data.days : [{ stops: [] }] });
+            setItineraryName(data.name ?? '');
+            setWarning(data.warning ?? null);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const updateDays = (update: (days: TextItineraryStop[][]) => TextItineraryStop[][]) => {
+        setDraft(prev => prev && { ...prev, days: update(prev.days.map(day => day.stops)).map(stops => ({ stops })) });
+    };
+
+    const moveStop = (dayIndex: number, stopIndex: number, offset: -1 | 1) => {
+        updateDays(days => days.map((stops, i) => {
+            if (i !== dayIndex) return stops;
+            const reordered = [...stops];
+            [reordered[stopIndex], reordered[stopIndex + offset]] = [reordered[stopIndex + offset], reordered[stopIndex]];
+            return reordered;
+        }));
+    };
+
+    // A place already on the target day isn't added twice
+    const moveStopToDay = (dayIndex: number, stopIndex: number, targetDayIndex: number) => {
+        updateDays(days => {
+            const stop = days[dayIndex][stopIndex];
+            return days.map((stops, i) => {
+                if (i === dayIndex) return stops.filter((_, j) => j !== stopIndex);
+                if (i === targetDayIndex && !stops.some(s => s.location.id === stop.location.id)) return [...stops, stop];
+                return stops;
+            });
+        });
+    };
+
+    const removeStop = (dayIndex: number, stopIndex: number) => {
+        updateDays(days => days.map((stops, i) => (i === dayIndex ? stops.filter((_, j) => j !== stopIndex) : stops)));
+    };
+
+    const stopCount = draft?.days.reduce((sum, day) => sum + day.stops.length, 0) ?? 0;
+
+    const handleCreate = async () => {
+        if (!draft || !itineraryName.trim()) return;
+        const body: ImportItineraryRequest = {
+            name: itineraryName.trim(),
+            startDate: null,
+            days: draft.days.map(day => ({ stops: day.stops.map(stop => ({ locationId: stop.location.id })) })),
+        };
+
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch('/api/itineraries/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to create itinerary');
+            onCreated(data.itineraryId);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const renderStop = (stop: TextItineraryStop, stopIndex: number, dayIndex: number, stops: TextItineraryStop[]) => (
+        <li key={stop.location.id} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm">
+            <div className="min-w-0">
+                <p className="truncate">{stop.location.name}</p>
+                {stop.mention && stop.mention !== stop.location.name && (
+                    <p className="truncate text-xs text-gray-500">from &ldquo;{stop.mention}&rdquo;</p>
+                )}
+            </div>
+            <div className="flex flex-shrink-0 items-center gap-1">
+                <button
+                    type="button"
+                    onClick={() => moveStop(dayIndex, stopIndex, -1)}
+                    disabled={isLoading || stopIndex === 0}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    aria-label={`Move ${stop.location.name} up`}
+                >
+                    <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                    type="button"
+                    onClick={() => moveStop(dayIndex, stopIndex, 1)}
+                    disabled={isLoading || stopIndex === stops.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    aria-label={`Move ${stop.location.name} down`}
+                >
+                    <ChevronDown className="h-4 w-4" />
+                </button>
+                {draft!.days.length > 1 && (
+                    <select
+                        value={dayIndex}
+                        onChange={(e) => moveStopToDay(dayIndex, stopIndex, Number(e.target.value))}
+                        disabled={isLoading}
+                        className="border rounded px-1 py-0.5 text-xs bg-white"
+                        aria-label={`Day for ${stop.location.name}`}
+                    >
+                        {draft!.days.map((_, i) => <option key={i} value={i}>Day {i + 1}</option>)}
+                    </select>
+                )}
+                <button
+                    type="button"
+                    onClick={() => removeStop(dayIndex, stopIndex)}
+                    disabled={isLoading}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    aria-label={`Remove ${stop.location.name}`}
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+        </li>
+    );
+
+    if (!draft) {
+        return (
+            <>
+                <div className="grid gap-2 py-2">
+                    <Textarea
+                        placeholder={TEXT_PLACEHOLDER}
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        maxLength={IMPORT_CONFIG.maxTextLength}
+                        className="min-h-[180px]"
+                        disabled={isLoading}
+                        aria-label="Trip notes"
+                    />
+                    <p className="text-xs text-gray-500">
+                        Start each day with a heading like &ldquo;Day 1&rdquo;. Place names are matched against the guide, typos included.
+                    </p>
+                    <label className="flex items-center gap-1 text-xs text-gray-700">
+                        <input type="checkbox" checked={useAi} onChange={(e) => setUseAi(e.target.checked)} disabled={isLoading} />
+                        Use AI to read the text (better with loosely written notes)
+                    </label>
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+                </div>
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="outline" disabled={isLoading}>
+                            Cancel
+                        </Button>
+                    </DialogClose>
+                    <Button
+                        type="button"
+                        onClick={handleFindPlaces}
+                        disabled={isLoading || !text.trim()}
+                        className="bg-purple-600 hover:bg-purple-700 text-white"
+                    >
+                        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Find Places
+                    </Button>
+                </DialogFooter>
+            </>
+        );
+    }
+
+    return (
+        <>
+            <Input
+                value={itineraryName}
+                onChange={(e) => setItineraryName(e.target.value)}
+                placeholder="Itinerary name"
+                disabled={isLoading}
+                aria-label="Itinerary name"
+            />
+            {warning && <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1">{warning}</p>}
+            <div className="max-h-80 overflow-y-auto border rounded">
+                {draft.days.map((day, dayIndex) => (
+                    <div key={dayIndex}>
+                        <div className="sticky top-0 flex items-center justify-between bg-gray-50 px-3 py-1 border-b">
+                            <h3 className="text-xs font-medium text-gray-600">Day {dayIndex + 1}</h3>
+                            {draft.days.length > 1 && (
+                                <button
+                                    type="button"
+                                    onClick={() => updateDays(days => days.filter((_, i) => i !== dayIndex))}
+                                    disabled={isLoading}
+                                    className="text-xs text-gray-500 hover:text-red-600"
+                                >
+                                    Remove day
+                                </button>
+                            )}
+                        </div>
+                        {day.stops.length > 0 ? (
+                            <ul className="divide-y">{day.stops.map((stop, stopIndex) => renderStop(stop, stopIndex, dayIndex, day.stops))}</ul>
+                        ) : (
+                            <p className="px-3 py-2 text-xs text-gray-400">No places found for this day</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                    {stopCount} {stopCount === 1 ? 'place' : 'places'} in {draft.days.length} {draft.days.length === 1 ? 'day' : 'days'}. Missing places can be added in the planner.
+                </p>
+                <Button type="button" variant="ghost" size="sm" onClick={() => updateDays(days => [...days, []])} disabled={isLoading}>
+                    <Plus className="mr-1 h-4 w-4" /> Add day
+                </Button>
+            </div>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={isLoading}>
+                    Edit text
+                </Button>
+                <Button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={isLoading || !itineraryName.trim()}
+                    className="bg-purple-600 hover:bg-purple-700 text-white"
+                >
+                    {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Create Itinerary
+                </Button>
+            </DialogFooter>
+        </>
+    );
+}
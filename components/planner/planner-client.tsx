@@ -1,30 +1,56 @@
 // /components/planner/planner-client.tsx
 "use client";
 
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect } from "react";
 import dynamic from "next/dynamic";
 import Link from "next/link";
-import type { LocationData, ItineraryDay } from "@/lib/types";
+import type { LocationData, ItineraryDay, ItineraryRole, ItinerarySnapshot } from "@/lib/types";
 import type { CategoryData } from "@/lib/supabase/categories";
 import { useAuth } from "@/hooks/use-auth";
 import { useFavorites } from "@/hooks/use-favorites";
-import { useItinerary } from "@/hooks/use-itinerary";
+import { useItinerary, type ItinerarySaveStatus } from "@/hooks/use-itinerary";
+import { useCustomPlaces } from "@/hooks/use-custom-places";
 import Image from "next/image";
 import LocationCardContent from "@/components/location-card-content";
-import { HeartIcon as HeartOutline, ExclamationTriangleIcon, XMarkIcon as CloseIcon, PlusIcon } from "@heroicons/react/24/outline";
+import { HeartIcon as HeartOutline, ExclamationTriangleIcon, XMarkIcon as CloseIcon, PlusIcon, CalendarDaysIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, ShareIcon, UserGroupIcon, ArrowDownTrayIcon, PrinterIcon, ClockIcon, BanknotesIcon } from "@heroicons/react/24/outline";
 import { HeartIcon as HeartSolid } from "@heroicons/react/24/solid";
 import { Button } from "@/components/ui/button";
-import DayItinerary from "@/components/planner/planner-day-itinerary";
+import PlannerDayList from "@/components/planner/planner-day-list";
+import TripDatesModal from "@/components/planner/trip-dates-modal";
+import SaveConflictModal from "@/components/planner/save-conflict-modal";
+import ShareItineraryModal from "@/components/planner/share-itinerary-modal";
+import ExportModal, { getItineraryExportOptions } from "@/components/planner/export-modal";
+import CollaboratorsModal from "@/components/planner/collaborators-modal";
+import ItineraryHistoryPanel from "@/components/planner/itinerary-history-panel";
+import { StopNoteMarkdown } from "@/components/planner/stop-note";
+import CustomPlaceModal, { EMPTY_CUSTOM_PLACE_FORM, type CustomPlaceFormValues } from "@/components/planner/custom-place-modal";
 import EmptyState from "@/components/empty-state";
 import type { PopupContentProps } from '@/components/map/map-view';
 import InteractiveMapLayout from '@/components/map/interactive-map-layout'; // Import the new layout
 import LocationListView from '@/components/location-list-view'; // Import the generic list view
 import { cn } from '@/lib/utils';
+import { formatTripDate, formatTripDateRange, getTripDayDate, getTripEndDate } from '@/lib/date-utils';
+import { SCHEDULE_CONFIG } from '@/lib/constants';
+import { minutesToTimeString } from '@/lib/itinerary-schedule';
+import { getDayColor } from '@/lib/day-colors';
+import { buildDayRoutes, buildLocationToDayMap, buildMapLegend } from '@/lib/itinerary-map';
+import { remapDayIds, type DayOperation } from '@/lib/itinerary-days';
+import { describeUnpricedStops, formatCostTotals, getTripCostTotals } from '@/lib/itinerary-budget';
+
+const SAVE_STATUS_LABELS: Record<ItinerarySaveStatus, string> = {
+  saved: 'Saved',
+  saving: 'Saving...',
+  offline: 'Offline, will retry',
+  error: 'Not saved',
+};
 
 interface PlannerClientProps {
   itineraryId: number;
   initialItineraryData: ItineraryDay[];
   itineraryName: string;
+  initialStartDate: string | null; // 'YYYY-MM-DD' trip start in Tokyo time, if set
+  initialVersion: number; // Content version the initial data was read at
+  role: ItineraryRole; // Owner or editor; viewers get the read-only view instead
   initialLocations: LocationData[]; // All available locations for the list/map
   categories: CategoryData[];
 }
@@ -33,44 +59,185 @@ export default function PlannerClient({
   itineraryId,
   initialItineraryData,
   itineraryName,
+  initialStartDate,
+  initialVersion,
+  role,
   initialLocations,
   categories
 }: PlannerClientProps) {
   // --- Hooks ---
-  const { isLoggedIn } = useAuth();
+  const { isLoggedIn, user } = useAuth();
   const { favorites: userFavorites, refreshFavorites: fetchFavorites, toggleFavorite, isFavorited, isLoading: isLoadingFavoriteMap } = useFavorites();
   const {
     days,
     addDay,
     removeDay,
+    insertDay,
+    splitDay,
+    mergeDays,
+    duplicateDay,
     addLocationToDay,
     removeLocationFromDay,
+    purgeLocation,
+    replaceDays,
+    reorderDay,
+    moveLocation,
+    updateStopSchedule,
+    updateStopNote,
+    updateStopCost,
+    startDate,
+    updateStartDate,
+    routePreview,
+    previewOptimizedOrder,
+    acceptRoutePreview,
+    discardRoutePreview,
+    saveConflict,
+    mergeSaveConflict,
+    reloadFromSaveConflict,
+    saveError,
+    discardUnsavedChanges,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
     isLoading: isItineraryLoading,
-    isSaving,
+    saveStatus,
     error: itineraryError
-  } = useItinerary(itineraryId, initialItineraryData);
+  } = useItinerary(itineraryId, initialItineraryData, initialStartDate, initialVersion);
+  const { places: customPlaces, createPlace, deletePlace } = useCustomPlaces();
 
   // --- State specific to Planner ---
   const [selectedDayIds, setSelectedDayIds] = useState<number[]>([]); // For filtering
   const [showDaySelectorModal, setShowDaySelectorModal] = useState<boolean>(false);
   const [locationToAdd, setLocationToAdd] = useState<LocationData | null>(null);
+  const [showTripDatesModal, setShowTripDatesModal] = useState<boolean>(false);
+  const [showShareModal, setShowShareModal] = useState<boolean>(false);
+  const [showCollaboratorsModal, setShowCollaboratorsModal] = useState<boolean>(false);
+  const [showExportModal, setShowExportModal] = useState<boolean>(false);
+  const [dayEndHour, setDayEndHour] = useState<number>(SCHEDULE_CONFIG.defaultDayEndHour);
+  const [showCustomPlaceModal, setShowCustomPlaceModal] = useState<boolean>(false);
+  const [customPlaceForm, setCustomPlaceForm] = useState<CustomPlaceFormValues>(EMPTY_CUSTOM_PLACE_FORM);
+  const [isPickingCustomPlace, setIsPickingCustomPlace] = useState<boolean>(false);
+  const [hoveredDayId, setHoveredDayId] = useState<number | null>(null); // Highlights the day's route on the map
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [historyPreview, setHistoryPreview] = useState<ItinerarySnapshot | null>(null); // Shown on the map instead of the current plan
+
+  // The day end hour is a personal preference, so it lives in localStorage rather than on the itinerary
+  useEffect(() => {
+    const storedHour = Number(localStorage.getItem(SCHEDULE_CONFIG.dayEndHourStorageKey));
+    if ((SCHEDULE_CONFIG.dayEndHourOptions as readonly number[]).includes(storedHour)) {
+      setDayEndHour(storedHour);
+    }
+  }, []);
+
+  // Ctrl/Cmd+Z undoes the last itinerary edit, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes it.
+  // Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.metaKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const handleDayEndHourChange = useCallback((hour: number) => {
+    setDayEndHour(hour);
+    localStorage.setItem(SCHEDULE_CONFIG.dayEndHourStorageKey, String(hour));
+  }, []);
 
   // --- Derived State ---
-  const locationToDayMap = useMemo(() => {
-    const map = new Map<string, number>();
-    days.forEach(day => {
-      day.locations.forEach(loc => {
-        map.set(loc.id, day.id);
-      });
-    });
-    return map;
-  }, [days]);
+  // The map and its day filter show a version from the history while it's being previewed
+  const mapDays = historyPreview?.days ?? days;
+
+  // Catalog locations plus the user's own places (including any already used in this itinerary or the previewed version)
+  const plannerLocations = useMemo(() => {
+    const customById = new Map(customPlaces.map(place => [place.id, place]));
+    [...days, ...mapDays].forEach(day => day.locations.forEach(loc => {
+      if (loc.isCustom && !customById.has(loc.id)) customById.set(loc.id, loc);
+    }));
+    return customById.size > 0 ? [...initialLocations, ...Array.from(customById.values())] : initialLocations;
+  }, [initialLocations, customPlaces, days, mapDays]);
+
+  const locationToDayMap = useMemo(() => buildLocationToDayMap(mapDays), [mapDays]);
+  const dayRoutes = useMemo(() => buildDayRoutes(mapDays), [mapDays]);
+  const mapLegend = useMemo(() => (
+    buildMapLegend(mapDays, locationToDayMap, plannerLocations, { customPlaceLabel: 'My place', unplannedLabel: 'Not in plan' })
+  ), [mapDays, locationToDayMap, plannerLocations]);
+
+  const tripDateRange = useMemo(() => (
+    startDate ? formatTripDateRange(startDate, getTripEndDate(startDate, Math.max(days.length, 1))) : null
+  ), [startDate, days.length]);
+
+  const tripCostTotals = useMemo(() => getTripCostTotals(days), [days]);
 
   // --- Handlers specific to Planner ---
   const handleDayFilterToggle = useCallback((dayId: number) => {
     setSelectedDayIds(prev => prev.includes(dayId) ? prev.filter(id => id !== dayId) : [...prev, dayId]);
   }, []);
 
+  // --- Day operations ---
+  // Days are renumbered when one is inserted, split, merged, duplicated or removed; the day filter follows them
+  const remapDayFilter = useCallback((op: DayOperation) => {
+    setSelectedDayIds(prev => remapDayIds(prev, op));
+  }, []);
+
+  const handleInsertDay = useCallback((dayId: number) => {
+    insertDay(dayId);
+    remapDayFilter({ type: 'insert', dayId });
+  }, [insertDay, remapDayFilter]);
+
+  const handleSplitDay = useCallback((dayId: number, atIndex: number) => {
+    splitDay(dayId, atIndex);
+    remapDayFilter({ type: 'split', dayId });
+  }, [splitDay, remapDayFilter]);
+
+  const handleMergeDays = useCallback((dayId: number) => {
+    mergeDays(dayId);
+    remapDayFilter({ type: 'merge', dayId });
+  }, [mergeDays, remapDayFilter]);
+
+  const handleDuplicateDay = useCallback((dayId: number) => {
+    duplicateDay(dayId);
+    remapDayFilter({ type: 'duplicate', dayId });
+  }, [duplicateDay, remapDayFilter]);
+
+  const handleRemoveDay = useCallback((dayId: number) => {
+    removeDay(dayId);
+    remapDayFilter({ type: 'remove', dayId });
+  }, [removeDay, remapDayFilter]);
+
+  // Undo, redo and changes from other tabs can also drop days; forget filters for days that are gone
+  useEffect(() => {
+    setSelectedDayIds(prev => prev.some(id => id > mapDays.length) ? prev.filter(id => id <= mapDays.length) : prev);
+  }, [mapDays.length]);
+
+  // --- Version history handlers ---
+  // Day numbers differ between versions, so a day filter doesn't carry over
+  const handleHistoryPreview = useCallback((snapshot: ItinerarySnapshot | null) => {
+    setHistoryPreview(snapshot);
+    setSelectedDayIds([]);
+  }, []);
+
+  const handleCloseHistory = useCallback(() => {
+    setShowHistory(false);
+    handleHistoryPreview(null);
+  }, [handleHistoryPreview]);
+
+  const handleRestoreSnapshot = useCallback((snapshot: ItinerarySnapshot) => {
+    replaceDays(snapshot.days);
+    handleCloseHistory();
+  }, [replaceDays, handleCloseHistory]);
+
   const handleShowAddToDayModal = useCallback((location: LocationData) => {
     setLocationToAdd(location);
     setShowDaySelectorModal(true);
@@ -88,6 +255,52 @@ export default function PlannerClient({
     handleHideAddToDayModal();
   }, [locationToAdd, addLocationToDay, handleHideAddToDayModal]);
 
+  // --- Custom place handlers ---
+  const handleOpenCustomPlaceModal = useCallback(() => {
+    setCustomPlaceForm(EMPTY_CUSTOM_PLACE_FORM);
+    setShowCustomPlaceModal(true);
+  }, []);
+
+  // Hide the modal while the user clicks on the map; the form values are kept in state
+  const handleStartPickingCustomPlace = useCallback(() => {
+    setShowCustomPlaceModal(false);
+    setIsPickingCustomPlace(true);
+  }, []);
+
+  const handleCustomPlacePicked = useCallback((coordinates: [number, number]) => {
+    setCustomPlaceForm(prev => ({ ...prev, coordinates }));
+    setIsPickingCustomPlace(false);
+    setShowCustomPlaceModal(true);
+  }, []);
+
+  const handleCancelPickingCustomPlace = useCallback(() => {
+    setIsPickingCustomPlace(false);
+    setShowCustomPlaceModal(true);
+  }, []);
+
+  const handleSaveCustomPlace = useCallback(async (values: CustomPlaceFormValues) => {
+    const place = await createPlace({
+      name: values.name.trim(),
+      coordinates: values.coordinates!,
+      address: values.address.trim() || undefined,
+      notes: values.notes.trim() || undefined,
+    });
+    if (values.dayId !== null) {
+      addLocationToDay(values.dayId, place);
+    }
+    setShowCustomPlaceModal(false);
+    setCustomPlaceForm(EMPTY_CUSTOM_PLACE_FORM);
+  }, [createPlace, addLocationToDay]);
+
+  const handleDeleteCustomPlace = useCallback(async (location: LocationData) => {
+    if (!window.confirm(`Delete "${location.name}"? It will also be removed from every itinerary that uses it.`)) return;
+    const deleted = await deletePlace(location.id);
+    if (deleted) {
+      // The database already dropped its stops; keep local state (and undo history) in sync so the next save doesn't re-add them
+      purgeLocation(location.id);
+    }
+  }, [deletePlace, purgeLocation]);
+
   // --- Rendering Logic ---
 
   const renderPlannerPopupContent = useCallback(({ location, onClosePopup,
@@ -120,6 +333,50 @@ export default function PlannerClient({
         <span>Add to itinerary</span>
       </Button>
     );
+    // Notes live on the itinerary stops, not on the map's location data
+    const stopNotes = days
+      .map(day => ({ dayId: day.id, note: day.locations.find(loc => loc.id === location.id)?.note }))
+      .filter((stop): stop is { dayId: number; note: string } => !!stop.note);
+    const plannedStops = locationToDayMap.get(location.id) ?? [];
+    const renderFooter = () => (
+      <>
+        {plannedStops.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-1">
+            {plannedStops.map(({ dayId, stopNumber }) => (
+              <span key={dayId} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getDayColor(dayId) }} />
+                Day {dayId} · stop {stopNumber}
+              </span>
+            ))}
+          </div>
+        )}
+        {stopNotes.length > 0 && (
+          <div className="mb-2 max-h-32 overflow-y-auto rounded bg-yellow-50 p-2 space-y-1">
+            {stopNotes.map(({ dayId, note }) => (
+              <div key={dayId}>
+                {days.length > 1 && <p className="text-xs font-medium text-gray-500">Day {dayId}</p>}
+                <StopNoteMarkdown note={note} className="text-xs" />
+              </div>
+            ))}
+          </div>
+        )}
+        {renderAddButton()}
+        {/* Only the place's creator can delete it; other members' places just appear in the shared plan */}
+        {location.isCustom && customPlaces.some(place => place.id === location.id) && (
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onClosePopup();
+              handleDeleteCustomPlace(location);
+            }}
+            className="mt-2 w-full text-center text-xs text-red-500 hover:text-red-600"
+          >
+            Delete this place
+          </button>
+        )}
+      </>
+    );
     const thisLocationIsFavorited = popupIsFavoritedCheck(location.id);
     const thisLocationIsLoadingFavorite = !!popupIsLoadingFavoriteMap[location.id];
     return (
@@ -131,14 +388,14 @@ export default function PlannerClient({
           onToggleFavorite={popupToggleFavorite}
           isLoadingFavorite={thisLocationIsLoadingFavorite}
           renderHeaderActions={renderCloseButton}
-          renderFooterActions={renderAddButton}
+          renderFooterActions={renderFooter}
           imageSizes="340px"
-          linkHref={`/location/${location.id}`}
+          linkHref={location.isCustom ? undefined : `/location/${location.id}`}
           linkTarget="_blank"
         />
       </div>
     );
-  }, [handleShowAddToDayModal]);
+  }, [days, locationToDayMap, customPlaces, handleShowAddToDayModal, handleDeleteCustomPlace]);
 
   // Define the action button for the planner list view cards
   const renderPlannerCardActions = useCallback((location: LocationData) => (
@@ -175,7 +432,7 @@ export default function PlannerClient({
       // Pass planner-specific action renderer
       renderCardActions={renderPlannerCardActions}
       // Pass link props
-      getCardHref={(loc) => `/location/${loc.id}`}
+      getCardHref={(loc) => loc.isCustom ? undefined : `/location/${loc.id}`}
       cardLinkTarget="_blank"
       listClassName="bg-gray-50"
     />
@@ -185,35 +442,186 @@ export default function PlannerClient({
   const renderPlannerPlanView = useCallback(() => (
      <>
       <div className="p-3 bg-white border-b flex justify-between items-center sticky top-0 z-10">
-        <h2 className="text-lg font-medium truncate pr-2">{itineraryName} {isSaving ? <span className="text-sm text-gray-500">(Saving...)</span> : ''}</h2>
-        <Button
-          size="sm"
-          onClick={addDay}
-          className="flex-shrink-0 bg-blue-500 hover:bg-blue-600 text-white"
-        >
-          Add Day
-        </Button>
+        <div className="min-w-0 pr-2">
+          <h2 className="text-lg font-medium truncate">
+            {itineraryName}{' '}
+            <span
+              className={cn("text-sm font-normal", saveStatus === 'offline' ? "text-amber-600" : saveStatus === 'error' ? "text-red-600" : "text-gray-400")}
+              title={
+                saveStatus === 'offline' ? "Your changes are kept on this device and will be saved when the connection is back"
+                  : saveStatus === 'error' ? `${saveError ?? "The changes couldn't be saved"}. They are kept on this device until you discard them.`
+                  : undefined
+              }
+            >
+              {SAVE_STATUS_LABELS[saveStatus]}
+            </span>
+            {saveStatus === 'error' && (
+              <button onClick={discardUnsavedChanges} className="ml-2 text-sm font-normal text-blue-600 hover:text-blue-700">
+                Discard changes
+              </button>
+            )}
+          </h2>
+          <div className="flex items-center gap-3 text-sm text-gray-500">
+            <button
+              onClick={() => setShowTripDatesModal(true)}
+              className="flex items-center gap-1 min-w-0 hover:text-blue-600"
+              title="Set trip dates"
+            >
+              <CalendarDaysIcon className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">{tripDateRange ?? "Set trip dates"}</span>
+            </button>
+            {formatCostTotals(tripCostTotals) && (
+              <span
+                className="flex items-center gap-1 flex-shrink-0"
+                title={describeUnpricedStops(tripCostTotals) ?? "Estimated cost of all stops"}
+              >
+                <BanknotesIcon className="h-4 w-4" />
+                {formatCostTotals(tripCostTotals)}{tripCostTotals.unpricedCount > 0 && "+"}
+              </span>
+            )}
+            <label className="flex items-center gap-1 flex-shrink-0" title="Days with stops after this time are flagged">
+              <span>Day ends</span>
+              <select
+                value={dayEndHour}
+                onChange={(e) => handleDayEndHourChange(Number(e.target.value))}
+                className="border rounded px-1 py-0.5 text-xs bg-white"
+              >
+                {SCHEDULE_CONFIG.dayEndHourOptions.map(hour => (
+                  <option key={hour} value={hour}>{minutesToTimeString(hour * 60)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+        <div className="flex flex-shrink-0 gap-2">
+          <div className="flex">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={undo}
+              disabled={!canUndo}
+              className="h-8 w-8"
+              title="Undo (Ctrl+Z)"
+              aria-label="Undo"
+            >
+              <ArrowUturnLeftIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={redo}
+              disabled={!canRedo}
+              className="h-8 w-8"
+              title="Redo (Ctrl+Shift+Z)"
+              aria-label="Redo"
+            >
+              <ArrowUturnRightIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => (showHistory ? handleCloseHistory() : setShowHistory(true))}
+              className={cn("h-8 w-8", showHistory && "bg-gray-100")}
+              title="Version history"
+              aria-label="Version history"
+              aria-pressed={showHistory}
+            >
+              <ClockIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setShowCollaboratorsModal(true)}
+              className="h-8 w-8"
+              title={role === 'owner' ? "Invite people to plan together" : "People on this trip"}
+              aria-label="People"
+            >
+              <UserGroupIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setShowExportModal(true)}
+              className="h-8 w-8"
+              title="Download for calendars and map apps"
+              aria-label="Export"
+            >
+              <ArrowDownTrayIcon className="h-4 w-4" />
+            </Button>
+            <Button asChild size="icon" variant="ghost" className="h-8 w-8" title="Printable booklet" aria-label="Print">
+              <Link href={`/planner/${itineraryId}/print`} target="_blank">
+                <PrinterIcon className="h-4 w-4" />
+              </Link>
+            </Button>
+            {role === 'owner' && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setShowShareModal(true)}
+                className="h-8 w-8"
+                title="Share a read-only link"
+                aria-label="Share"
+              >
+                <ShareIcon className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleOpenCustomPlaceModal}
+            title="Add a place that isn't in the guide"
+          >
+            Add Place
+          </Button>
+          <Button
+            size="sm"
+            onClick={addDay}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            Add Day
+          </Button>
+        </div>
       </div>
       <div className="flex-1 overflow-y-auto p-4">
-        {days.length === 0 ? (
+        {showHistory ? (
+          <ItineraryHistoryPanel
+            itineraryId={itineraryId}
+            currentDays={days}
+            isSaved={saveStatus === 'saved'}
+            previewSnapshotId={historyPreview?.id ?? null}
+            onPreview={handleHistoryPreview}
+            onRestore={handleRestoreSnapshot}
+            onClose={handleCloseHistory}
+          />
+        ) : days.length === 0 ? (
           <EmptyState message="No days planned yet" description="Add a day to start planning." />
         ) : (
-          <div className="space-y-6">
-            {days.map((day) => (
-              <DayItinerary
-                key={day.id}
-                day={day}
-                isSelected={false} // Plan column doesn't need selection highlight
-                onSelect={() => {}} // No action needed on select here
-                onRemove={() => removeDay(day.id)}
-                onRemoveLocation={(locationId) => removeLocationFromDay(day.id, locationId)}
-              />
-            ))}
-          </div>
+          <PlannerDayList
+            days={days}
+            startDate={startDate}
+            onRemoveDay={handleRemoveDay}
+            onInsertDay={handleInsertDay}
+            onSplitDay={handleSplitDay}
+            onMergeDays={handleMergeDays}
+            onDuplicateDay={handleDuplicateDay}
+            onRemoveLocation={removeLocationFromDay}
+            onReorderDay={reorderDay}
+            onMoveLocation={moveLocation}
+            onUpdateStopSchedule={updateStopSchedule}
+            onUpdateStopNote={updateStopNote}
+            onUpdateStopCost={updateStopCost}
+            routePreview={routePreview}
+            onPreviewOptimizedOrder={previewOptimizedOrder}
+            onAcceptRoutePreview={acceptRoutePreview}
+            onDiscardRoutePreview={discardRoutePreview}
+            onDayHover={setHoveredDayId}
+            dayEndHour={dayEndHour}
+          />
         )}
       </div>
     </>
-  ), [itineraryName, isSaving, days, addDay, removeDay, removeLocationFromDay]); // Include all dependencies
+  ), [itineraryName, itineraryId, saveStatus, saveError, discardUnsavedChanges, tripDateRange, canUndo, canRedo, undo, redo, role, showHistory, historyPreview, handleHistoryPreview, handleCloseHistory, handleRestoreSnapshot, dayEndHour, handleDayEndHourChange, handleOpenCustomPlaceModal, days, startDate, addDay, handleRemoveDay, handleInsertDay, handleSplitDay, handleMergeDays, handleDuplicateDay, removeLocationFromDay, reorderDay, moveLocation, updateStopSchedule, updateStopNote, updateStopCost, tripCostTotals, routePreview, previewOptimizedOrder, acceptRoutePreview, discardRoutePreview]); // Include all dependencies
 
   // --- Main Render ---
   if (isItineraryLoading) {
@@ -234,6 +642,47 @@ export default function PlannerClient({
   return (
     <div className="h-full flex flex-col">
       {/* --- Modals --- */}
+      <TripDatesModal
+        isOpen={showTripDatesModal}
+        onOpenChange={setShowTripDatesModal}
+        startDate={startDate}
+        dayCount={days.length}
+        onSave={updateStartDate}
+      />
+      <ShareItineraryModal
+        isOpen={showShareModal}
+        onOpenChange={setShowShareModal}
+        itineraryId={itineraryId}
+      />
+      <CollaboratorsModal
+        isOpen={showCollaboratorsModal}
+        onOpenChange={setShowCollaboratorsModal}
+        itineraryId={itineraryId}
+        role={role}
+        currentUserId={user?.id ?? null}
+      />
+      <ExportModal
+        isOpen={showExportModal}
+        onOpenChange={setShowExportModal}
+        title="Export itinerary"
+        description="Downloads use the last saved version. Map files have one layer per day, in stop order."
+        options={getItineraryExportOptions(itineraryId, !!startDate)}
+      />
+      <SaveConflictModal
+        isOpen={!!saveConflict}
+        canMerge={saveConflict?.canMerge ?? false}
+        onMerge={mergeSaveConflict}
+        onReload={reloadFromSaveConflict}
+      />
+      <CustomPlaceModal
+        isOpen={showCustomPlaceModal}
+        onOpenChange={setShowCustomPlaceModal}
+        values={customPlaceForm}
+        onChange={setCustomPlaceForm}
+        days={days}
+        onPickOnMap={handleStartPickingCustomPlace}
+        onSave={handleSaveCustomPlace}
+      />
       {showDaySelectorModal && locationToAdd && (
          <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-lg p-6 max-w-sm w-full z-50">
@@ -245,7 +694,10 @@ export default function PlannerClient({
                   onClick={() => handleAddLocationToSelectedDay(day.id)}
                   className="w-full text-left p-3 hover:bg-gray-100 rounded flex justify-between items-center border border-transparent hover:border-gray-200"
                 >
-                  <span>Day {day.id}</span>
+                  <span>
+                    Day {day.id}
+                    {startDate && <span className="ml-2 text-gray-500 text-sm">{formatTripDate(getTripDayDate(startDate, day.id))}</span>}
+                  </span>
                   <span className="text-gray-500 text-sm">{day.locations.length} locations</span>
                 </button>
               )) : <p className="text-sm text-gray-500 p-3">No days available. Add a day first.</p>}
@@ -260,7 +712,7 @@ export default function PlannerClient({
 
       {/* --- Main Layout --- */}
       <InteractiveMapLayout
-        initialLocations={initialLocations} // Pass all available locations
+        initialLocations={plannerLocations} // Pass all available locations, including the user's own places
         categories={categories}
         showSearchControls={true} // Show controls above map on desktop
         showAiSearch={true}
@@ -274,14 +726,21 @@ export default function PlannerClient({
         }}
         filterOptions={{
           showDayFilter: true,
-          days: days, // Pass current days from useItinerary
+          days: mapDays, // Current days from useItinerary, or the version being previewed
           selectedDayIds: selectedDayIds, // Pass selected day IDs for filtering
           onDayToggle: handleDayFilterToggle, // Pass the handler
+          startDate: startDate, // Lets the day filter show calendar dates
         }}
         renderPopupContent={renderPlannerPopupContent}
         renderListView={renderPlannerListView}
         renderPlanView={renderPlannerPlanView}
         locationToDayMap={locationToDayMap} // Pass the map for marker styling
+        dayRoutes={dayRoutes}
+        highlightedDayId={hoveredDayId}
+        mapLegend={mapLegend}
+        mapPickHint={isPickingCustomPlace ? "Click the map where your place is" : null}
+        onMapPick={handleCustomPlacePicked}
+        onCancelMapPick={handleCancelPickingCustomPlace}
       />
     </div>
   );
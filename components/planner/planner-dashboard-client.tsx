@@ -6,27 +6,47 @@ import { useRouter } from 'next/navigation';
 import AddItineraryCard from './add-itinerary-card';
 import ItineraryCard from './itinerary-card';
 import AiItineraryModal from './ai-itinerary-modal'; // Import the AI modal
+import ExportModal, { getFavoritesExportOptions, getItineraryExportOptions } from './export-modal';
+import ImportItineraryModal from './import-itinerary-modal';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { Wand2 } from 'lucide-react'; // Icon for AI button
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '@/hooks/use-auth';
+import { ITINERARY_ROLE_LABELS } from '@/lib/itinerary-roles';
+import type { ItinerarySummary, PendingItineraryInvitation } from '@/lib/types';
 
-interface ItineraryInfo {
-    id: number;
-    name: string;
+type ItineraryAction = 'rename' | 'duplicate' | 'delete' | 'leave';
+
+interface PendingItineraryAction {
+    type: ItineraryAction;
+    itinerary: ItinerarySummary;
 }
 
 interface PlannerDashboardClientProps {
-    initialItineraries: ItineraryInfo[];
+    initialItineraries: ItinerarySummary[]; // Owned and shared with the user
+    initialInvitations: PendingItineraryInvitation[];
 }
 
-export default function PlannerDashboardClient({ initialItineraries }: PlannerDashboardClientProps) {
-    const [itineraries, setItineraries] = useState<ItineraryInfo[]>(initialItineraries);
+export default function PlannerDashboardClient({ initialItineraries, initialInvitations }: PlannerDashboardClientProps) {
+    const { user } = useAuth();
+    const [itineraries, setItineraries] = useState<ItinerarySummary[]>(initialItineraries);
+    const [invitations, setInvitations] = useState<PendingItineraryInvitation[]>(initialInvitations);
+    const [respondingToken, setRespondingToken] = useState<string | null>(null); // Invitation being accepted/declined
+    const [invitationError, setInvitationError] = useState<string | null>(null);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false); // For manual creation
     const [isAiModalOpen, setIsAiModalOpen] = useState(false);   // For AI generation
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false); // For importing a file
     const [newItineraryName, setNewItineraryName] = useState('');
     const [isLoading, setIsLoading] = useState(false); // Loading state for manual creation modal
     const [error, setError] = useState<string | null>(null); // Error state for manual creation modal
+    const [pendingAction, setPendingAction] = useState<PendingItineraryAction | null>(null); // Rename/duplicate/delete confirmation
+    const [actionName, setActionName] = useState(''); // Name input for rename/duplicate
+    const [isActionLoading, setIsActionLoading] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [exportItinerary, setExportItinerary] = useState<ItinerarySummary | null>(null);
+    const [isFavoritesExportOpen, setIsFavoritesExportOpen] = useState(false);
     const router = useRouter();
 
     // Function to fetch the latest list of itineraries
@@ -37,7 +57,7 @@ export default function PlannerDashboardClient({ initialItineraries }: PlannerDa
             if (!response.ok) {
                 throw new Error('Failed to fetch itineraries');
             }
-            const data: ItineraryInfo[] = await response.json();
+            const data: ItinerarySummary[] = await response.json();
             // Update state only if data is different
             if (JSON.stringify(data) !== JSON.stringify(itineraries)) {
                  console.log("Itinerary list updated.");
@@ -102,9 +122,151 @@ export default function PlannerDashboardClient({ initialItineraries }: PlannerDa
         setIsAiModalOpen(true);
     };
 
+    // Accept (join the itinerary and open it) or decline an email invitation
+    const handleRespondToInvitation = async (invitation: PendingItineraryInvitation, accept: boolean) => {
+        setRespondingToken(invitation.token);
+        setInvitationError(null);
+        try {
+            const response = await fetch(`/api/invitations/${encodeURIComponent(invitation.token)}`, { method: accept ? 'POST' : 'DELETE' });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to ${accept ? 'accept' : 'decline'} invitation (status ${response.status})`);
+            }
+            if (accept) {
+                router.push(`/planner/${result.itineraryId}`);
+                return;
+            }
+            setInvitations(prev => prev.filter(inv => inv.token !== invitation.token));
+        } catch (err: any) {
+            console.error("Error responding to invitation:", err);
+            setInvitationError(err.message || "An unexpected error occurred.");
+        }
+        setRespondingToken(null);
+    };
+
+    // Handler for opening a rename/duplicate/delete/leave confirmation dialog
+    const handleOpenAction = (type: ItineraryAction, itinerary: ItinerarySummary) => {
+        setActionName(type === 'duplicate' ? `${itinerary.name} (copy)` : itinerary.name);
+        setActionError(null);
+        setPendingAction({ type, itinerary });
+    };
+
+    const handleActionModalChange = (open: boolean) => {
+        if (!open && !isActionLoading) {
+            setPendingAction(null);
+        }
+    };
+
+    // Handler for confirming the pending rename/duplicate/delete
+    const handleConfirmAction = async () => {
+        if (!pendingAction) return;
+        const { type, itinerary } = pendingAction;
+
+        if ((type === 'rename' || type === 'duplicate') && !actionName.trim()) {
+            setActionError("Please enter a name for your itinerary.");
+            return;
+        }
+        setIsActionLoading(true);
+        setActionError(null);
+
+        try {
+            let response: Response;
+            if (type === 'rename') {
+                response = await fetch(`/api/itineraries/${itinerary.id}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ name: actionName.trim() }),
+                });
+            } else if (type === 'duplicate') {
+                response = await fetch(`/api/itineraries/${itinerary.id}/duplicate`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ name: actionName.trim() }),
+                });
+            } else if (type === 'leave') {
+                response = await fetch(`/api/itineraries/${itinerary.id}/members/${user?.id}`, { method: 'DELETE' });
+            } else {
+                response = await fetch(`/api/itineraries/${itinerary.id}`, { method: 'DELETE' });
+            }
+
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || `Failed to ${type} itinerary (status ${response.status})`);
+            }
+
+            // Update the list locally so the dashboard reflects the change immediately
+            if (type === 'rename') {
+                setItineraries(prev => prev.map(it => it.id === itinerary.id ? { ...it, name: result.name } : it));
+            } else if (type === 'duplicate') {
+                setItineraries(prev => [...prev, { ...itinerary, id: result.id, name: result.name, role: 'owner' }]);
+            } else {
+                // Deleted or left
+                setItineraries(prev => prev.filter(it => it.id !== itinerary.id));
+            }
+            setPendingAction(null);
+            router.refresh(); // Keep the server-rendered list in sync
+
+        } catch (err: any) {
+            console.error(`Error performing ${type} on itinerary ${itinerary.id}:`, err);
+            setActionError(err.message || "An unexpected error occurred.");
+        } finally {
+            setIsActionLoading(false);
+        }
+    };
+
+    const actionTitles: Record<ItineraryAction, string> = {
+        rename: 'Rename Itinerary',
+        duplicate: 'Duplicate Itinerary',
+        delete: 'Delete Itinerary',
+        leave: 'Leave Itinerary',
+    };
+
+    const ownItineraries = itineraries.filter(itinerary => itinerary.role === 'owner');
+    const sharedItineraries = itineraries.filter(itinerary => itinerary.role !== 'owner');
+
     return (
         <div>
-            <h1 className="text-3xl font-bold mb-6">Your Itineraries</h1>
+            {/* Email invitations waiting for an answer */}
+            {invitations.length > 0 && (
+                <div className="mb-8 space-y-2">
+                    {invitations.map(invitation => (
+                        <div key={invitation.token} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3">
+                            <span className="text-sm">
+                                You&apos;ve been invited to <span className="font-medium">&ldquo;{invitation.itineraryName}&rdquo;</span>
+                                <span className="text-gray-500"> ({ITINERARY_ROLE_LABELS[invitation.role].toLowerCase()})</span>
+                            </span>
+                            <div className="flex gap-2">
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleRespondToInvitation(invitation, false)}
+                                    disabled={respondingToken !== null}
+                                >
+                                    Decline
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    onClick={() => handleRespondToInvitation(invitation, true)}
+                                    disabled={respondingToken !== null}
+                                    className="bg-blue-500 hover:bg-blue-600 text-white"
+                                >
+                                    {respondingToken === invitation.token ? "Joining..." : "Join"}
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                    {invitationError && <p className="text-red-500 text-sm">{invitationError}</p>}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+                <h1 className="text-3xl font-bold">Your Itineraries</h1>
+                <Button variant="outline" size="sm" onClick={() => setIsFavoritesExportOpen(true)}>
+                    <ArrowDownTrayIcon className="mr-2 h-4 w-4" />
+                    Export favorites
+                </Button>
+            </div>
             {/* Grid Layout */}
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
                 {/* Add New Card (Manual) */}
@@ -119,12 +281,55 @@ export default function PlannerDashboardClient({ initialItineraries }: PlannerDa
                     <span className="text-lg font-medium text-center">Generate with AI</span>
                 </button>
 
+                {/* Import from File Card */}
+                <button
+                    onClick={() => setIsImportModalOpen(true)}
+                    className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-emerald-300 rounded-lg text-emerald-600 hover:border-emerald-500 hover:text-emerald-700 transition-colors aspect-video cursor-pointer h-full bg-emerald-50/50 hover:bg-emerald-100/70"
+                >
+                    <ArrowUpTrayIcon className="w-12 h-12 mb-2" />
+                    <span className="text-lg font-medium text-center">Import from File</span>
+                </button>
+
                 {/* Existing Itinerary Cards - Render based on the 'itineraries' state */}
-                {itineraries.map((itinerary) => (
-                    <ItineraryCard key={itinerary.id} id={itinerary.id} name={itinerary.name} />
+                {ownItineraries.map((itinerary) => (
+                    <ItineraryCard
+                        key={itinerary.id}
+                        id={itinerary.id}
+                        name={itinerary.name}
+                        startDate={itinerary.startDate}
+                        dayCount={itinerary.dayCount}
+costTotals={itinerary.costTotals}
+                        onRename={() => handleOpenAction('rename', itinerary)}
+                        onDuplicate={() => handleOpenAction('duplicate', itinerary)}
+                        onExport={() => setExportItinerary(itinerary)}
+                        onDelete={() => handleOpenAction('delete', itinerary)}
+                    />
                 ))}
             </div>
 
+            {/* Trips other people shared with the user */}
+            {sharedItineraries.length > 0 && (
+                <>
+                    <h2 className="text-2xl font-bold mt-10 mb-6">Shared with You</h2>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                        {sharedItineraries.map((itinerary) => (
+                            <ItineraryCard
+                                key={itinerary.id}
+                                id={itinerary.id}
+                                name={itinerary.name}
+                                startDate={itinerary.startDate}
+                                dayCount={itinerary.dayCount}
+costTotals={itinerary.costTotals}
+                                roleLabel={ITINERARY_ROLE_LABELS[itinerary.role]}
+                                onDuplicate={() => handleOpenAction('duplicate', itinerary)}
+                                onExport={() => setExportItinerary(itinerary)}
+                                onLeave={() => handleOpenAction('leave', itinerary)}
+                            />
+                        ))}
+                    </div>
+                </>
+            )}
+
             {/* Manual Create New Itinerary Modal */}
             <Dialog open={isAddModalOpen} onOpenChange={setIsAddModalOpen}>
                 <DialogContent className="sm:max-w-[425px]">
@@ -158,9 +363,73 @@ export default function PlannerDashboardClient({ initialItineraries }: PlannerDa
                 </DialogContent>
             </Dialog>
 
+            {/* Rename / Duplicate / Delete Confirmation Modal */}
+            <Dialog open={!!pendingAction} onOpenChange={handleActionModalChange}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>{pendingAction ? actionTitles[pendingAction.type] : ''}</DialogTitle>
+                        <DialogDescription>
+                            {pendingAction?.type === 'rename' && <>Choose a new name for &ldquo;{pendingAction.itinerary.name}&rdquo;.</>}
+                            {pendingAction?.type === 'duplicate' && <>Create a copy of &ldquo;{pendingAction.itinerary.name}&rdquo; with all its days and locations.</>}
+                            {pendingAction?.type === 'delete' && <>Delete &ldquo;{pendingAction.itinerary.name}&rdquo; and all its days? This cannot be undone.</>}
+                            {pendingAction?.type === 'leave' && <>Leave &ldquo;{pendingAction.itinerary.name}&rdquo;? You&apos;ll need a new invitation to see it again.</>}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-2">
+                        {pendingAction && (pendingAction.type === 'rename' || pendingAction.type === 'duplicate') && (
+                            <Input
+                                id="actionName"
+                                value={actionName}
+                                onChange={(e) => setActionName(e.target.value)}
+                                disabled={isActionLoading}
+                                className="col-span-3"
+                            />
+                        )}
+                        {actionError && <p className="text-red-500 text-sm col-span-3">{actionError}</p>}
+                    </div>
+                    <DialogFooter>
+                        <DialogClose asChild>
+                            <Button type="button" variant="outline" disabled={isActionLoading}>
+                                Cancel
+                            </Button>
+                        </DialogClose>
+                        <Button
+                            type="button"
+                            variant={pendingAction?.type === 'delete' || pendingAction?.type === 'leave' ? 'destructive' : 'default'}
+                            onClick={handleConfirmAction}
+                            disabled={isActionLoading || ((pendingAction?.type === 'rename' || pendingAction?.type === 'duplicate') && !actionName.trim())}
+                        >
+                            {pendingAction?.type === 'rename' && (isActionLoading ? "Renaming..." : "Rename")}
+                            {pendingAction?.type === 'duplicate' && (isActionLoading ? "Duplicating..." : "Duplicate")}
+                            {pendingAction?.type === 'delete' && (isActionLoading ? "Deleting..." : "Delete")}
+                            {pendingAction?.type === 'leave' && (isActionLoading ? "Leaving..." : "Leave")}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
             {/* AI Generate Itinerary Modal */}
             <AiItineraryModal isOpen={isAiModalOpen} onOpenChange={setIsAiModalOpen} />
 
+            {/* Import Itinerary Modal */}
+            <ImportItineraryModal isOpen={isImportModalOpen} onOpenChange={setIsImportModalOpen} />
+
+            {/* Downloads for calendars and map apps */}
+            <ExportModal
+                isOpen={exportItinerary !== null}
+                onOpenChange={(open) => !open && setExportItinerary(null)}
+                title={`Export "${exportItinerary?.name ?? ''}"`}
+                description="Map files have one layer per day, in stop order."
+                options={exportItinerary ? getItineraryExportOptions(exportItinerary.id, !!exportItinerary.startDate) : []}
+            />
+            <ExportModal
+                isOpen={isFavoritesExportOpen}
+                onOpenChange={setIsFavoritesExportOpen}
+                title="Export favorites"
+                description="Your favorite places as a file for offline map apps."
+                options={getFavoritesExportOptions()}
+            />
+
         </div>
     );
 }
\ No newline at end of file
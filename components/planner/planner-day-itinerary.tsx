@@ -1,30 +1,270 @@
 "use client"
 
 import Image from "next/image"
-import { useState } from "react"
+import { Fragment, useMemo, useState } from "react"
+import { useDroppable } from "@dnd-kit/core"
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable"
+import { CSS } from "@dnd-kit/utilities"
 import type { LocationData } from "@/lib/types"
 import { cn } from "@/lib/utils"
-import { XMarkIcon, ChevronDownIcon, ChevronUpIcon, TrashIcon } from "@heroicons/react/24/outline"
+import { formatTripDate } from "@/lib/date-utils"
+import { SCHEDULE_CONFIG } from "@/lib/constants"
+import { buildDaySchedule, formatDuration, minutesToTimeString, type ScheduledStop } from "@/lib/itinerary-schedule"
+import { describeUnpricedStops, formatCostTotals, formatStopCost, getStopCurrency, isValidCostAmount, sumStopCosts } from "@/lib/itinerary-budget"
+import DayTimeline from "@/components/planner/planner-day-timeline"
+import StopNoteEditor from "@/components/planner/stop-note"
+import RoutePreviewPanel from "@/components/planner/route-preview-panel"
+import type { DayRoutePreview } from "@/hooks/use-itinerary"
+import type { OptimizeRouteOptions } from "@/lib/route-optimizer"
+import { estimatePathLegs, formatDistance, type TravelEstimate } from "@/lib/geo"
+import { Footprints, Scissors, TrainFront } from "lucide-react"
+import { XMarkIcon, ChevronDownIcon, ChevronUpIcon, TrashIcon, Bars3Icon, ExclamationTriangleIcon } from "@heroicons/react/24/outline"
+
+// Sortable ids have to be unique across all days, so stops are keyed by day and location
+export const getStopSortableId = (dayId: number, locationId: string) => `stop:${dayId}:${locationId}`
+export const getDayDroppableId = (dayId: number) => `day:${dayId}`
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240]
+
+type StopSchedule = Partial<Pick<LocationData, "startTime" | "durationMinutes">>
 
 interface DayItineraryProps {
   day: {
     id: number
     locations: LocationData[]
   }
+  date?: string | null // Calendar date of this day ('YYYY-MM-DD'), when the trip has a start date
+  color?: string // Day colour, matching its route on the map
+  onHoverChange?: (isHovered: boolean) => void
   isSelected: boolean
   onSelect: () => void
   onRemove: () => void
   onRemoveLocation: (locationId: string) => void
+  onInsertDayBefore?: () => void
+  onInsertDayAfter?: () => void
+  onDuplicate?: () => void
+  onMergeWithNext?: () => void // Only given when there is a next day
+  onSplitAt?: (index: number) => void // Stops from index on move to a new day after this one
+  dayEndHour?: number // Stops ending after this hour are flagged
+  onUpdateStopSchedule?: (locationId: string, schedule: StopSchedule) => void
+  onUpdateStopNote?: (locationId: string, note: string) => void
+  onUpdateStopCost?: (locationId: string, costOverride: number | undefined) => void // Undefined clears the override
+  routePreview?: DayRoutePreview | null // Proposed stop order for this day, if one is being previewed
+  onPreviewOptimizedOrder?: (options: OptimizeRouteOptions) => void
+  onAcceptRoutePreview?: () => void
+  onDiscardRoutePreview?: () => void
+}
+
+interface SortableStopProps {
+  dayId: number
+  location: LocationData
+  scheduledStop?: ScheduledStop
+  overlappingNames: string[]
+  dayEndHour: number
+  onRemoveLocation: (locationId: string) => void
+  onUpdateSchedule?: (schedule: StopSchedule) => void
+  onUpdateNote?: (note: string) => void
+  onUpdateCost?: (costOverride: number | undefined) => void
+}
+
+// Override of a stop's cost, saved on blur or Enter. Left empty, the location's typical estimate is used.
+function StopCostInput({ location, onSave }: { location: LocationData; onSave: (costOverride: number | undefined) => void }) {
+  const estimate = formatStopCost({ ...location, costOverride: undefined })
+
+  const commit = (input: HTMLInputElement) => {
+    const value = input.value.trim()
+    const amount = value === "" ? undefined : Number(value)
+    if (amount !== undefined && !isValidCostAmount(amount)) {
+      input.value = location.costOverride === undefined ? "" : String(location.costOverride)
+      return
+    }
+    if (amount !== location.costOverride) onSave(amount)
+  }
+
+  return (
+    <label className="flex items-center gap-1 text-xs text-gray-500" title={estimate ? `Typical cost: ${estimate}` : "No typical cost known"}>
+      {getStopCurrency(location)}
+      <input
+        key={location.costOverride ?? ""} // Reset when the override changes elsewhere (undo, another editor)
+        type="number"
+        min={0}
+        step="any"
+        inputMode="decimal"
+        defaultValue={location.costOverride ?? ""}
+        placeholder={estimate ?? "Cost"}
+        onBlur={(e) => commit(e.currentTarget)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur()
+        }}
+        className="w-20 border rounded px-1 py-0.5 bg-white text-gray-900"
+        aria-label={`Cost for ${location.name}`}
+      />
+    </label>
+  )
+}
+
+// Distance and travel time estimates for the leg between two consecutive stops
+function TravelLegRow({ leg }: { leg: TravelEstimate }) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-3 pl-8 text-xs",
+        leg.walkWarning === "too-far" ? "text-red-600" : leg.walkWarning === "long" ? "text-amber-600" : "text-gray-500"
+      )}
+    >
+      <span>{formatDistance(leg.distanceKm)}</span>
+      <span className="flex items-center gap-1" title="Estimated walking time">
+        <Footprints className="h-3.5 w-3.5" />
+        {formatDuration(Math.max(1, leg.walkingMinutes))}
+      </span>
+      <span className="flex items-center gap-1 text-gray-500" title="Estimated transit time">
+        <TrainFront className="h-3.5 w-3.5" />
+        {formatDuration(leg.transitMinutes)}
+      </span>
+      {leg.walkWarning === "long" && <span>Long walk</span>}
+      {leg.walkWarning === "too-far" && <span>Too far to walk</span>}
+    </div>
+  )
+}
+
+function SortableStop({
+  dayId,
+  location,
+  scheduledStop,
+  overlappingNames,
+  dayEndHour,
+  onRemoveLocation,
+  onUpdateSchedule,
+  onUpdateNote,
+  onUpdateCost
+}: SortableStopProps) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({
+    id: getStopSortableId(dayId, location.id),
+    data: { dayId, locationId: location.id },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(
+        "flex items-start space-x-3 p-2 border rounded bg-white hover:bg-gray-50",
+        isDragging && "opacity-50"
+      )}
+    >
+      <button
+        ref={setActivatorNodeRef}
+        {...attributes}
+        {...listeners}
+        className="p-1 -ml-1 rounded cursor-grab active:cursor-grabbing touch-none hover:bg-gray-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+        title="Drag to reorder"
+        aria-label={`Reorder ${location.name}`}
+      >
+        <Bars3Icon className="h-4 w-4 text-gray-400" />
+      </button>
+      <div className="relative w-16 h-16 flex-shrink-0">
+        <Image
+          src={location.images[0] || "/placeholder.svg"}
+          alt={location.name}
+          fill
+          className="object-cover rounded"
+        />
+      </div>
+      <div className="flex-1 min-w-0">
+        <h4 className="font-medium truncate">{location.name}</h4>
+        <p className="text-sm text-gray-500 truncate">
+          {location.category}
+          {!onUpdateCost && formatStopCost(location) && <> · {formatStopCost(location)}</>}
+        </p>
+        {onUpdateSchedule && (
+          <div className="flex items-center gap-2 mt-1">
+            <input
+              type="time"
+              value={location.startTime ?? ""}
+              onChange={(e) => onUpdateSchedule({ startTime: e.target.value || undefined })}
+              className="text-xs border rounded px-1 py-0.5 bg-white"
+              aria-label={`Start time for ${location.name}`}
+            />
+            <select
+              value={location.durationMinutes ?? ""}
+              onChange={(e) => onUpdateSchedule({ durationMinutes: e.target.value ? Number(e.target.value) : undefined })}
+              className="text-xs border rounded px-1 py-0.5 bg-white"
+              aria-label={`Duration for ${location.name}`}
+            >
+              <option value="">Duration</option>
+              {location.durationMinutes && !DURATION_OPTIONS.includes(location.durationMinutes) && (
+                <option value={location.durationMinutes}>{formatDuration(location.durationMinutes)}</option>
+              )}
+              {DURATION_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+              ))}
+            </select>
+            {onUpdateCost && <StopCostInput location={location} onSave={onUpdateCost} />}
+          </div>
+        )}
+        {scheduledStop && overlappingNames.length > 0 && (
+          <p className="text-xs text-red-600 truncate mt-0.5">Overlaps with {overlappingNames.join(", ")}</p>
+        )}
+        {scheduledStop?.isPastDayEnd && (
+          <p className="text-xs text-amber-600 mt-0.5">
+            Ends at {minutesToTimeString(scheduledStop.endMinutes)}, after {minutesToTimeString(dayEndHour * 60)}
+          </p>
+        )}
+        {onUpdateNote && <StopNoteEditor note={location.note} locationName={location.name} onSave={onUpdateNote} />}
+      </div>
+      <button
+        onClick={() => onRemoveLocation(location.id)}
+        className="p-1 hover:bg-gray-200 rounded"
+        title="Remove from day"
+      >
+        <XMarkIcon className="h-5 w-5 text-gray-500" />
+      </button>
+    </div>
+  )
 }
 
-export default function DayItinerary({ 
-  day, 
-  isSelected, 
-  onSelect, 
+export default function DayItinerary({
+  day,
+  date = null,
+  color,
+  onHoverChange,
+  isSelected,
+  onSelect,
   onRemove,
-  onRemoveLocation
+  onRemoveLocation,
+  onInsertDayBefore,
+  onInsertDayAfter,
+  onDuplicate,
+  onMergeWithNext,
+  onSplitAt,
+  dayEndHour = SCHEDULE_CONFIG.defaultDayEndHour,
+  onUpdateStopSchedule,
+  onUpdateStopNote,
+  onUpdateStopCost,
+  routePreview = null,
+  onPreviewOptimizedOrder,
+  onAcceptRoutePreview,
+  onDiscardRoutePreview
 }: DayItineraryProps) {
   const [isExpanded, setIsExpanded] = useState(true)
+  const schedule = useMemo(() => buildDaySchedule(day.locations, dayEndHour), [day.locations, dayEndHour])
+  const namesById = useMemo(() => new Map(day.locations.map((location) => [location.id, location.name])), [day.locations])
+  const legs = useMemo(() => estimatePathLegs(day.locations.map((location) => location.coordinates)), [day.locations])
+  const totalDistanceKm = legs.reduce((sum, leg) => sum + leg.distanceKm, 0)
+  const totalWalkingMinutes = legs.reduce((sum, leg) => sum + leg.walkingMinutes, 0)
+  const totalTransitMinutes = legs.reduce((sum, leg) => sum + leg.transitMinutes, 0)
+  const costTotals = useMemo(() => sumStopCosts(day.locations), [day.locations])
+  const costLabel = formatCostTotals(costTotals)
+  const canOptimise = !!onPreviewOptimizedOrder && day.locations.length >= 3
+  const scheduleWarnings = [
+    schedule.hasOverlaps && "Some stops overlap",
+    schedule.runsPastDayEnd && `Runs past ${minutesToTimeString(dayEndHour * 60)}`,
+  ].filter(Boolean).join(" · ")
+  // The whole day card is also a drop target so stops can be moved into empty or collapsed days
+  const { setNodeRef: setDroppableRef, isOver } = useDroppable({
+    id: getDayDroppableId(day.id),
+    data: { dayId: day.id },
+  })
 
   const toggleExpanded = () => {
     setIsExpanded(!isExpanded)
@@ -34,21 +274,38 @@ export default function DayItinerary({
   }
 
   return (
-    <div className={cn(
+    <div
+      ref={setDroppableRef}
+      onMouseEnter={() => onHoverChange?.(true)}
+      onMouseLeave={() => onHoverChange?.(false)}
+      className={cn(
       "mb-4 border rounded-lg overflow-hidden",
-      isSelected ? "ring-2 ring-blue-500" : ""
+      isSelected ? "ring-2 ring-blue-500" : "",
+      isOver ? "border-blue-400" : ""
     )}>
-      <div 
+      <div
         className="flex items-center justify-between p-3 bg-gray-50 cursor-pointer"
         onClick={toggleExpanded}
       >
         <div className="flex items-center">
+          {color && <span className="mr-2 h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: color }} aria-hidden="true" />}
           <h3 className="font-medium">Day {day.id}</h3>
+          {date && <span className="ml-2 text-sm text-gray-700">{formatTripDate(date)}</span>}
           <span className="ml-2 text-sm text-gray-500">{day.locations.length} activities</span>
+          {costLabel && (
+            <span className="ml-2 text-sm text-gray-500" title={describeUnpricedStops(costTotals) ?? "Estimated cost of the day's stops"}>
+              · {costLabel}{costTotals.unpricedCount > 0 && "+"}
+            </span>
+          )}
+          {scheduleWarnings && (
+            <span className="ml-2 flex items-center text-xs text-amber-600" title={scheduleWarnings}>
+              <ExclamationTriangleIcon className="h-4 w-4" />
+            </span>
+          )}
         </div>
         <div className="flex items-center space-x-2">
           {day.id > 1 && (
-            <button 
+            <button
               onClick={(e) => {
                 e.stopPropagation()
                 onRemove()
@@ -69,43 +326,111 @@ export default function DayItinerary({
 
       {isExpanded && (
         <div className="p-3">
-          {day.locations.length > 0 ? (
-            <div className="space-y-3">
-              {day.locations.map((location) => (
-                <div 
-                  key={location.id} 
-                  className="flex items-center space-x-3 p-2 border rounded hover:bg-gray-50"
+          <DayTimeline locations={day.locations} schedule={schedule} dayEndHour={dayEndHour} />
+          {scheduleWarnings && <p className="mb-3 text-xs text-amber-600">{scheduleWarnings}</p>}
+          {routePreview && onPreviewOptimizedOrder && onAcceptRoutePreview && onDiscardRoutePreview ? (
+            <RoutePreviewPanel
+              preview={routePreview}
+              locations={day.locations}
+              onChangeOptions={onPreviewOptimizedOrder}
+              onAccept={onAcceptRoutePreview}
+              onDiscard={onDiscardRoutePreview}
+            />
+          ) : (legs.length > 0 || canOptimise) && (
+            <div className="mb-3 flex items-center justify-between gap-2">
+              <p className="text-xs text-gray-500">
+                {legs.length > 0 && (
+                  <>
+                    {formatDistance(totalDistanceKm)} total · ~{formatDuration(Math.max(1, totalWalkingMinutes))} walking
+                    {" "}/ ~{formatDuration(totalTransitMinutes)} by transit
+                  </>
+                )}
+              </p>
+              {canOptimise && (
+                <button
+                  onClick={() => onPreviewOptimizedOrder!({})}
+                  className="flex-shrink-0 text-xs font-medium text-blue-600 hover:text-blue-700"
+                  title="Reorder stops to minimise travel distance"
                 >
-                  <div className="relative w-16 h-16 flex-shrink-0">
-                    <Image
-                      src={location.images[0] || "/placeholder.svg"}
-                      alt={location.name}
-                      fill
-                      className="object-cover rounded"
-                    />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <h4 className="font-medium truncate">{location.name}</h4>
-                    <p className="text-sm text-gray-500 truncate">{location.category}</p>
-                  </div>
-                  <button 
-                    onClick={() => onRemoveLocation(location.id)}
-                    className="p-1 hover:bg-gray-200 rounded"
-                    title="Remove from day"
-                  >
-                    <XMarkIcon className="h-5 w-5 text-gray-500" />
-                  </button>
-                </div>
-              ))}
+                  Optimise order
+                </button>
+              )}
             </div>
-          ) : (
-            <div className="text-center py-4 text-gray-500">
-              <p>No activities added yet</p>
-              <p className="text-sm">Add locations from the map or list</p>
+          )}
+          <SortableContext
+            items={day.locations.map((location) => getStopSortableId(day.id, location.id))}
+            strategy={verticalListSortingStrategy}
+          >
+            {day.locations.length > 0 ? (
+              <div className="space-y-3">
+                {day.locations.map((location, index) => (
+                  <Fragment key={location.id}>
+                    {index > 0 && (legs[index - 1] || onSplitAt) && (
+                      <div className="flex items-center justify-between gap-2">
+                        {legs[index - 1] ? <TravelLegRow leg={legs[index - 1]} /> : <span />}
+                        {onSplitAt && (
+                          <button
+                            onClick={() => onSplitAt(index)}
+                            className="flex flex-shrink-0 items-center gap-1 text-xs text-gray-400 hover:text-blue-600"
+                            title={`Move ${location.name} and the stops after it to a new day`}
+                          >
+                            <Scissors className="h-3.5 w-3.5" />
+                            Split day here
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    <SortableStop
+                      dayId={day.id}
+                      location={location}
+                      scheduledStop={schedule.stopsById.get(location.id)}
+                      overlappingNames={(schedule.stopsById.get(location.id)?.overlapsWith ?? []).map((id) => namesById.get(id) ?? id)}
+                      dayEndHour={dayEndHour}
+                      onRemoveLocation={onRemoveLocation}
+                      onUpdateSchedule={onUpdateStopSchedule && ((stopSchedule) => onUpdateStopSchedule(location.id, stopSchedule))}
+                      onUpdateNote={onUpdateStopNote && ((note) => onUpdateStopNote(location.id, note))}
+                      onUpdateCost={onUpdateStopCost && ((costOverride) => onUpdateStopCost(location.id, costOverride))}
+                    />
+                  </Fragment>
+                ))}
+              </div>
+            ) : (
+              <div className={cn("text-center py-4 text-gray-500 rounded", isOver && "bg-blue-50")}>
+                <p>No activities added yet</p>
+                <p className="text-sm">Add locations from the map or list, or drag a stop here</p>
+              </div>
+            )}
+          </SortableContext>
+          {(onInsertDayBefore || onInsertDayAfter || onDuplicate || onMergeWithNext) && (
+            <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 border-t pt-2 text-xs font-medium">
+              {onInsertDayBefore && (
+                <button onClick={onInsertDayBefore} className="text-blue-600 hover:text-blue-700">
+                  Insert day before
+                </button>
+              )}
+              {onInsertDayAfter && (
+                <button onClick={onInsertDayAfter} className="text-blue-600 hover:text-blue-700">
+                  Insert day after
+                </button>
+              )}
+              {onDuplicate && (
+                <button onClick={onDuplicate} className="text-blue-600 hover:text-blue-700" title="Copy this day's stops to a new day after it">
+                  Duplicate day
+                </button>
+              )}
+              {onMergeWithNext && (
+                <button
+                  onClick={onMergeWithNext}
+                  className="text-blue-600 hover:text-blue-700"
+                  title={`Move the stops of Day ${day.id + 1} to the end of this day`}
+                >
+                  Merge with Day {day.id + 1}
+                </button>
+              )}
             </div>
           )}
         </div>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,182 @@
+// /components/planner/planner-day-list.tsx
+"use client";
+
+import { useState, useCallback } from 'react';
+import {
+    DndContext,
+    DragOverlay,
+    KeyboardSensor,
+    PointerSensor,
+    TouchSensor,
+    closestCenter,
+    pointerWithin,
+    useSensor,
+    useSensors,
+    type CollisionDetection,
+    type DragEndEvent,
+    type DragStartEvent,
+} from '@dnd-kit/core';
+import { arrayMove, sortableKeyboardCoordinates } from '@dnd-kit/sortable';
+import type { ItineraryDay, LocationData } from '@/lib/types';
+import DayItinerary from '@/components/planner/planner-day-itinerary';
+import { getTripDayDate } from '@/lib/date-utils';
+import { getDayColor } from '@/lib/day-colors';
+import type { DayRoutePreview } from '@/hooks/use-itinerary';
+import type { OptimizeRouteOptions } from '@/lib/route-optimizer';
+
+interface PlannerDayListProps {
+    days: ItineraryDay[];
+    startDate?: string | null; // Trip start, used to show each day's calendar date
+    onRemoveDay: (dayId: number) => void;
+    onInsertDay?: (dayId: number) => void; // The new day gets this number
+    onSplitDay?: (dayId: number, atIndex: number) => void;
+    onMergeDays?: (dayId: number) => void; // Merges the next day into this one
+    onDuplicateDay?: (dayId: number) => void;
+    onRemoveLocation: (dayId: number, locationId: string) => void;
+    onReorderDay: (dayId: number, orderedLocationIds: string[]) => void;
+    onMoveLocation: (fromDayId: number, toDayId: number, locationId: string, toIndex: number) => void;
+    onUpdateStopSchedule?: (dayId: number, locationId: string, schedule: Partial<Pick<LocationData, 'startTime' | 'durationMinutes'>>) => void;
+    onUpdateStopNote?: (dayId: number, locationId: string, note: string) => void;
+    onUpdateStopCost?: (dayId: number, locationId: string, costOverride: number | undefined) => void;
+    dayEndHour?: number;
+    routePreview?: DayRoutePreview | null;
+    onPreviewOptimizedOrder?: (dayId: number, options: OptimizeRouteOptions) => void;
+    onAcceptRoutePreview?: () => void;
+    onDiscardRoutePreview?: () => void;
+    onDayHover?: (dayId: number | null) => void; // Used to highlight the day's route on the map
+}
+
+interface DragItemData {
+    dayId: number;
+    locationId?: string;
+}
+
+// Prefer stops under the pointer, then the day card under the pointer. Keyboard drags
+// have no pointer, so fall back to the closest droppable.
+const stopFirstCollisionDetection: CollisionDetection = (args) => {
+    const pointerCollisions = pointerWithin(args);
+    if (pointerCollisions.length > 0) {
+        const stopCollisions = pointerCollisions.filter(collision => String(collision.id).startsWith('stop:'));
+        return stopCollisions.length > 0 ? stopCollisions : pointerCollisions;
+    }
+    return closestCenter(args);
+};
+
+/**
+ * Renders the itinerary days inside a single drag-and-drop context so stops can be
+ * reordered within a day or moved to another day with pointer, touch or keyboard.
+ */
+export default function PlannerDayList({
+    days,
+    startDate = null,
+    onRemoveDay,
+    onInsertDay,
+    onSplitDay,
+    onMergeDays,
+    onDuplicateDay,
+    onRemoveLocation,
+    onReorderDay,
+    onMoveLocation,
+    onUpdateStopSchedule,
+    onUpdateStopNote,
+    onUpdateStopCost,
+    dayEndHour,
+    routePreview = null,
+    onPreviewOptimizedOrder,
+    onAcceptRoutePreview,
+    onDiscardRoutePreview,
+    onDayHover,
+}: PlannerDayListProps) {
+    const [activeLocation, setActiveLocation] = useState<LocationData | null>(null);
+
+    const sensors = useSensors(
+        // Small distance so clicks on the handle don't start a drag
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        // Press-and-hold on touch devices so the plan column can still scroll
+        useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    const handleDragStart = useCallback((event: DragStartEvent) => {
+        const data = event.active.data.current as DragItemData | undefined;
+        const day = days.find(d => d.id === data?.dayId);
+        setActiveLocation(day?.locations.find(loc => loc.id === data?.locationId) ?? null);
+    }, [days]);
+
+    const handleDragEnd = useCallback((event: DragEndEvent) => {
+        setActiveLocation(null);
+        const { active, over } = event;
+        if (!over) return;
+
+        const activeData = active.data.current as DragItemData | undefined;
+        const overData = over.data.current as DragItemData | undefined;
+        if (!activeData?.locationId || !overData) return;
+
+        const fromDay = days.find(d => d.id === activeData.dayId);
+        const toDay = days.find(d => d.id === overData.dayId);
+        if (!fromDay || !toDay) return;
+
+        const fromIndex = fromDay.locations.findIndex(loc => loc.id === activeData.locationId);
+        // Dropping on a stop inserts at its position; dropping on the day card appends
+        const overIndex = overData.locationId
+            ? toDay.locations.findIndex(loc => loc.id === overData.locationId)
+            : -1;
+
+        if (fromDay.id === toDay.id) {
+            const toIndex = overIndex === -1 ? fromDay.locations.length - 1 : overIndex;
+            if (fromIndex === toIndex) return;
+            const reorderedIds = arrayMove(fromDay.locations.map(loc => loc.id), fromIndex, toIndex);
+            onReorderDay(fromDay.id, reorderedIds);
+        } else {
+            const toIndex = overIndex === -1 ? toDay.locations.length : overIndex;
+            onMoveLocation(fromDay.id, toDay.id, activeData.locationId, toIndex);
+        }
+    }, [days, onReorderDay, onMoveLocation]);
+
+    return (
+        <DndContext
+            sensors={sensors}
+            collisionDetection={stopFirstCollisionDetection}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+            onDragCancel={() => setActiveLocation(null)}
+        >
+            <div className="space-y-6">
+                {days.map((day, index) => (
+                    <DayItinerary
+                        key={day.id}
+                        day={day}
+                        date={startDate ? getTripDayDate(startDate, day.id) : null}
+                        color={getDayColor(day.id)}
+                        onHoverChange={onDayHover && ((isHovered) => onDayHover(isHovered ? day.id : null))}
+                        isSelected={false} // Plan column doesn't need selection highlight
+                        onSelect={() => {}} // No action needed on select here
+                        onRemove={() => onRemoveDay(day.id)}
+                        onRemoveLocation={(locationId) => onRemoveLocation(day.id, locationId)}
+                        onInsertDayBefore={onInsertDay && (() => onInsertDay(day.id))}
+                        onInsertDayAfter={onInsertDay && (() => onInsertDay(day.id + 1))}
+                        onDuplicate={onDuplicateDay && (() => onDuplicateDay(day.id))}
+                        onMergeWithNext={onMergeDays && index < days.length - 1 ? () => onMergeDays(day.id) : undefined}
+                        onSplitAt={onSplitDay && ((atIndex) => onSplitDay(day.id, atIndex))}
+                        dayEndHour={dayEndHour}
+                        onUpdateStopSchedule={onUpdateStopSchedule && ((locationId, schedule) => onUpdateStopSchedule(day.id, locationId, schedule))}
+                        onUpdateStopNote={onUpdateStopNote && ((locationId, note) => onUpdateStopNote(day.id, locationId, note))}
+                        onUpdateStopCost={onUpdateStopCost && ((locationId, costOverride) => onUpdateStopCost(day.id, locationId, costOverride))}
+                        routePreview={routePreview?.dayId === day.id ? routePreview : null}
+                        onPreviewOptimizedOrder={onPreviewOptimizedOrder && ((options) => onPreviewOptimizedOrder(day.id, options))}
+                        onAcceptRoutePreview={onAcceptRoutePreview}
+                        onDiscardRoutePreview={onDiscardRoutePreview}
+                    />
+                ))}
+            </div>
+            <DragOverlay>
+                {activeLocation && (
+                    <div className="p-3 border rounded bg-white shadow-lg">
+                        <h4 className="font-medium truncate">{activeLocation.name}</h4>
+                        <p className="text-sm text-gray-500 truncate">{activeLocation.category}</p>
+                    </div>
+                )}
+            </DragOverlay>
+        </DndContext>
+    );
+}
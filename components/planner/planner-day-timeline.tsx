@@ -0,0 +1,61 @@
+"use client"
+
+import type { LocationData } from "@/lib/types"
+import { SCHEDULE_CONFIG } from "@/lib/constants"
+import { cn } from "@/lib/utils"
+import { formatDuration, minutesToTimeString, type DaySchedule } from "@/lib/itinerary-schedule"
+
+interface DayTimelineProps {
+  locations: LocationData[]
+  schedule: DaySchedule
+  dayEndHour: number
+}
+
+// Horizontal bar of the day's timed stops. Overlapping stops are red, stops running past
+// the day's end hour are amber, and the time after the end hour is shaded.
+export default function DayTimeline({ locations, schedule, dayEndHour }: DayTimelineProps) {
+  if (schedule.stops.length === 0) return null
+
+  const earliestStart = Math.min(...schedule.stops.map((stop) => stop.startMinutes))
+  const rangeStart = Math.min(SCHEDULE_CONFIG.timelineStartHour, Math.floor(earliestStart / 60)) * 60
+  const rangeEnd = Math.max(dayEndHour, Math.ceil((schedule.latestEndMinutes ?? 0) / 60)) * 60
+  const rangeLength = Math.max(rangeEnd - rangeStart, 60)
+  const toPercent = (minutes: number) => ((minutes - rangeStart) / rangeLength) * 100
+  const namesById = new Map(locations.map((location) => [location.id, location.name]))
+
+  return (
+    <div className="mb-3">
+      <div className="relative h-6 rounded bg-gray-100 overflow-hidden">
+        {rangeEnd > dayEndHour * 60 && (
+          <div
+            className="absolute inset-y-0 right-0 bg-amber-100"
+            style={{ left: `${toPercent(dayEndHour * 60)}%` }}
+            title={`After ${minutesToTimeString(dayEndHour * 60)}`}
+          />
+        )}
+        {schedule.stops.map((stop) => {
+          const duration = stop.endMinutes - stop.startMinutes
+          const label = `${namesById.get(stop.locationId) ?? ""} · ${minutesToTimeString(stop.startMinutes)}${duration > 0 ? ` (${formatDuration(duration)})` : ""}`
+          return (
+            <div
+              key={stop.locationId}
+              className={cn(
+                "absolute inset-y-1 rounded-sm opacity-80",
+                stop.overlapsWith.length > 0 ? "bg-red-500" : stop.isPastDayEnd ? "bg-amber-500" : "bg-blue-500"
+              )}
+              style={{
+                left: `${toPercent(stop.startMinutes)}%`,
+                width: `max(${(duration / rangeLength) * 100}%, 3px)`,
+              }}
+              title={label}
+            />
+          )
+        })}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-0.5">
+        <span>{minutesToTimeString(rangeStart)}</span>
+        <span>{minutesToTimeString(rangeEnd)}</span>
+      </div>
+    </div>
+  )
+}
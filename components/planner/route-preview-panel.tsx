@@ -0,0 +1,67 @@
+"use client"
+
+import type { LocationData } from "@/lib/types"
+import type { DayRoutePreview } from "@/hooks/use-itinerary"
+import type { OptimizeRouteOptions } from "@/lib/route-optimizer"
+import { formatDistance } from "@/lib/geo"
+import { Button } from "@/components/ui/button"
+
+interface RoutePreviewPanelProps {
+  preview: DayRoutePreview
+  locations: LocationData[]
+  onChangeOptions: (options: OptimizeRouteOptions) => void
+  onAccept: () => void
+  onDiscard: () => void
+}
+
+// Shows a proposed stop order for a day with the distance saved, so the user can accept or discard it
+export default function RoutePreviewPanel({ preview, locations, onChangeOptions, onAccept, onDiscard }: RoutePreviewPanelProps) {
+  const locationsById = new Map(locations.map((location) => [location.id, location]))
+  const orderedLocations = preview.locationIds
+    .map((id) => locationsById.get(id))
+    .filter((location): location is LocationData => !!location)
+  const savedKm = preview.currentDistanceKm - preview.optimizedDistanceKm
+  const isUnchanged = preview.locationIds.every((id, index) => locations[index]?.id === id)
+
+  return (
+    <div className="mb-3 rounded border border-blue-200 bg-blue-50 p-3 text-sm">
+      <p className="font-medium text-blue-900">Optimised order</p>
+      <p className="text-xs text-blue-800 mt-0.5">
+        {isUnchanged
+          ? "This is already the shortest order we can find."
+          : `${formatDistance(preview.currentDistanceKm)} → ${formatDistance(preview.optimizedDistanceKm)} (saves ${formatDistance(savedKm)}, straight-line)`}
+      </p>
+      <div className="flex gap-4 mt-2 text-xs text-gray-700">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={!!preview.options.fixFirst}
+            onChange={(e) => onChangeOptions({ ...preview.options, fixFirst: e.target.checked })}
+          />
+          Keep first stop
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={!!preview.options.fixLast}
+            onChange={(e) => onChangeOptions({ ...preview.options, fixLast: e.target.checked })}
+          />
+          Keep last stop
+        </label>
+      </div>
+      <ol className="mt-2 list-decimal list-inside space-y-0.5 text-gray-800">
+        {orderedLocations.map((location) => (
+          <li key={location.id} className="truncate">{location.name}</li>
+        ))}
+      </ol>
+      <div className="flex justify-end gap-2 mt-3">
+        <Button type="button" size="sm" variant="outline" onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button type="button" size="sm" onClick={onAccept} disabled={isUnchanged} className="bg-blue-500 hover:bg-blue-600 text-white">
+          Use this order
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+// /components/planner/save-conflict-modal.tsx
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+
+interface SaveConflictModalProps {
+    isOpen: boolean;
+    canMerge: boolean;
+    onMerge: () => void;
+    onReload: () => void;
+}
+
+// Shown when a save was rejected because the itinerary was saved in another tab or on another device.
+// There's no way to dismiss it without choosing, since saving stays paused until then.
+export default function SaveConflictModal({ isOpen, canMerge, onMerge, onReload }: SaveConflictModalProps) {
+    return (
+        <Dialog open={isOpen}>
+            <DialogContent
+                className="sm:max-w-[420px] [&>button]:hidden"
+                onEscapeKeyDown={(e) => e.preventDefault()}
+                onPointerDownOutside={(e) => e.preventDefault()}
+            >
+                <DialogHeader>
+                    <DialogTitle>Itinerary changed elsewhere</DialogTitle>
+                    <DialogDescription>
+                        This itinerary was saved from another tab or device since you opened it. Your latest changes haven&apos;t been saved.
+                    </DialogDescription>
+                </DialogHeader>
+                {canMerge ? (
+                    <ul className="list-disc pl-5 text-sm text-gray-600 space-y-1">
+                        <li><span className="font-medium text-gray-800">Merge</span> adds your changes on top of the newer version.</li>
+                        <li><span className="font-medium text-gray-800">Reload</span> discards your changes and shows the newer version.</li>
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-600">
+                        Days were added, removed or rearranged, so the two versions can&apos;t be merged. <span className="font-medium text-gray-800">Reload</span> discards your changes and shows the newer version.
+                    </p>
+                )}
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button type="button" variant="outline" onClick={onReload}>
+                        Reload
+                    </Button>
+                    {canMerge && (
+                        <Button type="button" onClick={onMerge} className="bg-blue-500 hover:bg-blue-600 text-white">
+                            Merge my changes
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
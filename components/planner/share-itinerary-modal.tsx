@@ -0,0 +1,108 @@
+// /components/planner/share-itinerary-modal.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+
+interface ShareItineraryModalProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    itineraryId: number;
+}
+
+// Create, copy or revoke the public read-only link for an itinerary
+export default function ShareItineraryModal({ isOpen, onOpenChange, itineraryId }: ShareItineraryModalProps) {
+    const [shareToken, setShareToken] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isCopied, setIsCopied] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const shareUrl = shareToken ? `${window.location.origin}/share/${shareToken}` : null;
+
+    // Load the current link each time the modal opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setError(null);
+        setIsCopied(false);
+        setIsLoading(true);
+        fetch(`/api/itineraries/${itineraryId}/share`)
+            .then(async response => {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || 'Failed to load share link');
+                setShareToken(data.shareToken);
+            })
+            .catch(err => setError(err.message))
+            .finally(() => setIsLoading(false));
+    }, [isOpen, itineraryId]);
+
+    const updateShareLink = useCallback(async (method: 'POST' | 'DELETE') => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/itineraries/${itineraryId}/share`, { method });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to update share link');
+            setShareToken(method === 'POST' ? data.shareToken : null);
+            setIsCopied(false);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [itineraryId]);
+
+    const handleCopy = async () => {
+        if (!shareUrl) return;
+        try {
+            await navigator.clipboard.writeText(shareUrl);
+            setIsCopied(true);
+        } catch {
+            setError("Couldn't copy the link. Select it and copy it manually.");
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[460px]">
+                <DialogHeader>
+                    <DialogTitle>Share Itinerary</DialogTitle>
+                    <DialogDescription>
+                        Anyone with the link can view this trip, including your stop notes. They can&apos;t change anything.
+                    </DialogDescription>
+                </DialogHeader>
+                {shareUrl ? (
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            readOnly
+                            value={shareUrl}
+                            onFocus={(e) => e.target.select()}
+                            className="flex-1 min-w-0 border rounded px-2 py-1.5 text-sm bg-gray-50"
+                            aria-label="Share link"
+                        />
+                        <Button type="button" variant="outline" onClick={handleCopy} disabled={isLoading}>
+                            {isCopied ? 'Copied' : 'Copy'}
+                        </Button>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'This itinerary is not shared.'}</p>
+                )}
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+                <DialogFooter className="gap-2 sm:gap-0">
+                    {shareUrl ? (
+                        <Button type="button" variant="ghost" onClick={() => updateShareLink('DELETE')} disabled={isLoading} className="text-red-600 hover:text-red-700 sm:mr-auto">
+                            Stop sharing
+                        </Button>
+                    ) : (
+                        <Button type="button" onClick={() => updateShareLink('POST')} disabled={isLoading} className="bg-blue-500 hover:bg-blue-600 text-white">
+                            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Create link
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
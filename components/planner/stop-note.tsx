@@ -0,0 +1,92 @@
+"use client"
+
+import { useState } from "react"
+import ReactMarkdown from "react-markdown"
+import remarkGfm from "remark-gfm"
+import { PencilSquareIcon } from "@heroicons/react/24/outline"
+import { STOP_NOTE_MAX_LENGTH } from "@/lib/constants"
+import { cn } from "@/lib/utils"
+
+// Read-only markdown rendering of a stop note (used in the day list and the map popup)
+export function StopNoteMarkdown({ note, className }: { note: string; className?: string }) {
+  return (
+    <div className={cn("prose prose-sm max-w-none text-gray-700 break-words prose-p:my-1 prose-ul:my-1 prose-ol:my-1", className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]}>{note}</ReactMarkdown>
+    </div>
+  )
+}
+
+interface StopNoteEditorProps {
+  note?: string
+  locationName: string
+  onSave: (note: string) => void
+}
+
+// Inline note editor: shows the note (or an "Add note" link) and switches to a textarea on click
+export default function StopNoteEditor({ note, locationName, onSave }: StopNoteEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState("")
+
+  const startEditing = () => {
+    setDraft(note ?? "")
+    setIsEditing(true)
+  }
+
+  const save = () => {
+    if (draft.trim() !== (note ?? "")) {
+      onSave(draft)
+    }
+    setIsEditing(false)
+  }
+
+  if (isEditing) {
+    return (
+      <div className="mt-1">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setIsEditing(false)
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) save()
+          }}
+          maxLength={STOP_NOTE_MAX_LENGTH}
+          rows={3}
+          autoFocus
+          placeholder="e.g. Buy tickets at the east gate (markdown supported)"
+          className="w-full text-sm border rounded p-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label={`Note for ${locationName}`}
+        />
+        <div className="flex justify-end gap-2 mt-1">
+          <button onClick={() => setIsEditing(false)} className="text-xs text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+          <button onClick={save} className="text-xs font-medium text-blue-600 hover:text-blue-700">
+            Save note
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!note) {
+    return (
+      <button onClick={startEditing} className="mt-1 text-xs text-gray-400 hover:text-blue-600">
+        + Add note
+      </button>
+    )
+  }
+
+  return (
+    <div className="group/note mt-1 flex items-start gap-1 rounded bg-yellow-50 px-1.5 py-1">
+      <StopNoteMarkdown note={note} className="flex-1 min-w-0 text-xs" />
+      <button
+        onClick={startEditing}
+        className="p-0.5 rounded hover:bg-yellow-100"
+        title="Edit note"
+        aria-label={`Edit note for ${locationName}`}
+      >
+        <PencilSquareIcon className="h-3.5 w-3.5 text-gray-500" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+// /components/planner/trip-dates-modal.tsx
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import {
+    dateStringToPickerDate,
+    formatTripDateRange,
+    getTodayInTokyo,
+    getTripEndDate,
+    pickerDateToDateString,
+} from '@/lib/date-utils';
+
+interface TripDatesModalProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    startDate: string | null;
+    dayCount: number;
+    onSave: (startDate: string | null) => Promise<boolean>;
+}
+
+export default function TripDatesModal({ isOpen, onOpenChange, startDate, dayCount, onSave }: TripDatesModalProps) {
+    const [selectedDate, setSelectedDate] = useState<string | null>(startDate);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the saved date each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedDate(startDate);
+            setError(null);
+        }
+    }, [isOpen, startDate]);
+
+    const endDate = getTripEndDate(selectedDate, Math.max(dayCount, 1));
+
+    const handleSave = async (dateToSave: string | null) => {
+        setIsSaving(true);
+        setError(null);
+        const success = await onSave(dateToSave);
+        setIsSaving(false);
+        if (success) {
+            onOpenChange(false);
+        } else {
+            setError("Failed to save trip dates. Please try again.");
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+            <DialogContent className="sm:max-w-[360px]">
+                <DialogHeader>
+                    <DialogTitle>Trip Dates</DialogTitle>
+                    <DialogDescription>
+                        Pick the first day of your trip. The end date follows from the number of days planned.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-col items-center">
+                    <Calendar
+                        mode="single"
+                        selected={selectedDate ? dateStringToPickerDate(selectedDate) : undefined}
+                        onSelect={(date) => setSelectedDate(date ? pickerDateToDateString(date) : null)}
+                        defaultMonth={dateStringToPickerDate(selectedDate ?? getTodayInTokyo())}
+                        disabled={isSaving}
+                    />
+                    <p className="text-sm text-gray-600 h-5">
+                        {selectedDate ? formatTripDateRange(selectedDate, endDate) : "No dates set"}
+                    </p>
+                    <p className="text-xs text-gray-400">All dates are in Tokyo time (JST).</p>
+                    {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+                </div>
+                <DialogFooter className="gap-2 sm:gap-0">
+                    {startDate && (
+                        <Button type="button" variant="ghost" onClick={() => handleSave(null)} disabled={isSaving} className="sm:mr-auto">
+                            Clear dates
+                        </Button>
+                    )}
+                    <DialogClose asChild>
+                        <Button type="button" variant="outline" disabled={isSaving}>
+                            Cancel
+                        </Button>
+                    </DialogClose>
+                    <Button type="button" onClick={() => handleSave(selectedDate)} disabled={isSaving || !selectedDate || selectedDate === startDate}>
+                        {isSaving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Saving...</> : "Save"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,122 @@
+// /components/print/print-itinerary.tsx
+import Image from "next/image";
+import type { ItineraryDay, LocationData } from "@/lib/types";
+import { StopNoteMarkdown } from "@/components/planner/stop-note";
+import StaticDayMap from "@/components/print/static-day-map";
+import { formatTripDate, formatTripDateRange, getTripDayDate, getTripEndDate } from "@/lib/date-utils";
+import { formatDuration } from "@/lib/itinerary-schedule";
+import { getDayColor } from "@/lib/day-colors";
+import { formatCostTotals, formatStopCost, getTripCostTotals, sumStopCosts } from "@/lib/itinerary-budget";
+
+// Sized to fit the printable width of both A4 and Letter with 12mm margins
+const DAY_MAP_WIDTH = 680;
+const DAY_MAP_HEIGHT = 300;
+
+interface PrintStopProps {
+  location: LocationData;
+  stopNumber: number;
+  color: string;
+  qrCodeSvg?: string; // Links to the location page; custom places have none
+}
+
+function PrintStop({ location, stopNumber, color, qrCodeSvg }: PrintStopProps) {
+  const timing = [location.startTime, location.durationMinutes && formatDuration(location.durationMinutes)].filter(Boolean).join(" · ");
+  const description = location.isCustom ? location.address : location.description;
+
+  return (
+    <li className="flex items-start gap-3 border-b py-3 break-inside-avoid">
+      <span
+        className="mt-0.5 flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full text-xs font-semibold text-white"
+        style={{ backgroundColor: color }}
+      >
+        {stopNumber}
+      </span>
+      {location.images[0] && (
+        <div className="relative h-20 w-24 flex-shrink-0">
+          <Image src={location.images[0]} alt={location.name} fill sizes="96px" className="rounded object-cover" />
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <h3 className="font-semibold leading-tight">{location.name}</h3>
+        <p className="text-xs text-gray-500">
+          {[location.category, timing, formatStopCost(location)].filter(Boolean).join(" · ")}
+        </p>
+        {description && <p className="mt-1 text-sm text-gray-700">{description}</p>}
+        {location.note && (
+          <div className="mt-1 rounded border-l-4 border-yellow-300 bg-yellow-50 px-2 py-1">
+            <StopNoteMarkdown note={location.note} className="text-xs" />
+          </div>
+        )}
+      </div>
+      {qrCodeSvg && (
+        <div className="w-20 flex-shrink-0 text-center">
+          <div className="h-20 w-20 [&>svg]:h-full [&>svg]:w-full" dangerouslySetInnerHTML={{ __html: qrCodeSvg }} />
+          <p className="mt-0.5 text-[9px] text-gray-500">Scan for details</p>
+        </div>
+      )}
+    </li>
+  );
+}
+
+interface PrintItineraryProps {
+  name: string;
+  startDate: string | null;
+  days: ItineraryDay[];
+  qrCodes: Record<string, string>; // Location id -> QR code SVG
+}
+
+// The itinerary as a booklet: trip title, then each day on its own page with a map and its stops
+export default function PrintItinerary({ name, startDate, days, qrCodes }: PrintItineraryProps) {
+  const tripDateRange = startDate ? formatTripDateRange(startDate, getTripEndDate(startDate, Math.max(days.length, 1))) : null;
+  const tripCostTotal = formatCostTotals(getTripCostTotals(days));
+
+  return (
+    <div className="print-booklet">
+      <header className="mb-4">
+        <h1 className="text-2xl font-bold">{name}</h1>
+        <p className="text-sm text-gray-500">
+          {[tripDateRange, `${days.length} ${days.length === 1 ? "day" : "days"}`, tripCostTotal && `est. ${tripCostTotal}`].filter(Boolean).join(" · ")}
+        </p>
+      </header>
+
+      {days.length === 0 && <p className="py-8 text-center text-gray-500">This itinerary doesn&apos;t have any days yet.</p>}
+
+      {days.map((day, index) => {
+        const color = getDayColor(day.id);
+        const date = getTripDayDate(startDate, day.id);
+        const dayCostTotal = formatCostTotals(sumStopCosts(day.locations));
+        return (
+          <section key={day.id} className={index > 0 ? "break-before-page pt-2" : undefined}>
+            <h2 className="mb-2 flex items-baseline gap-2 text-xl font-semibold">
+              <span className="h-3 w-3 self-center rounded-full" style={{ backgroundColor: color }} aria-hidden="true" />
+              Day {day.id}
+              {date && <span className="text-base font-normal text-gray-600">{formatTripDate(date)}</span>}
+              <span className="text-sm font-normal text-gray-500">
+                {day.locations.length} {day.locations.length === 1 ? "stop" : "stops"}
+                {dayCostTotal && ` · est. ${dayCostTotal}`}
+              </span>
+            </h2>
+            {day.locations.length > 0 ? (
+              <>
+                <StaticDayMap locations={day.locations} color={color} width={DAY_MAP_WIDTH} height={DAY_MAP_HEIGHT} />
+                <ol className="mt-2">
+                  {day.locations.map((location, stopIndex) => (
+                    <PrintStop
+                      key={`${location.id}-${stopIndex}`}
+                      location={location}
+                      stopNumber={stopIndex + 1}
+                      color={color}
+                      qrCodeSvg={qrCodes[location.id]}
+                    />
+                  ))}
+                </ol>
+              </>
+            ) : (
+              <p className="py-4 text-gray-500">No activities planned</p>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
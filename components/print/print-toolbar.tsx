@@ -0,0 +1,25 @@
+// /components/print/print-toolbar.tsx
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftIcon, PrinterIcon } from "@heroicons/react/24/outline";
+
+// Screen-only controls above the booklet; hidden when printing
+export default function PrintToolbar({ backHref }: { backHref: string }) {
+  return (
+    <div className="mb-6 flex items-center justify-between gap-2 rounded-lg border bg-gray-50 p-3 print:hidden">
+      <Link href={backHref} className="flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600">
+        <ArrowLeftIcon className="h-4 w-4" />
+        Back to planner
+      </Link>
+      <div className="flex items-center gap-3">
+        <span className="hidden text-xs text-gray-500 sm:inline">Choose &ldquo;Save as PDF&rdquo; as the printer to keep a copy offline.</span>
+        <Button size="sm" onClick={() => window.print()} className="bg-blue-500 hover:bg-blue-600 text-white">
+          <PrinterIcon className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// /components/print/static-day-map.tsx
+import Image from "next/image";
+import type { LocationData } from "@/lib/types";
+import { MAP_CONFIG } from "@/lib/constants";
+import { buildStaticMap } from "@/lib/static-map";
+
+interface StaticDayMapProps {
+  locations: LocationData[]; // In stop order
+  color: string;
+  width: number;
+  height: number;
+}
+
+const MARKER_RADIUS = 11;
+
+// Non-interactive map of a day's stops: tiles as plain images with the route and numbered markers on top
+export default function StaticDayMap({ locations, color, width, height }: StaticDayMapProps) {
+  const map = buildStaticMap(locations.map(location => location.coordinates), { width, height, padding: MARKER_RADIUS * 2 });
+
+  return (
+    <div className="relative overflow-hidden rounded border bg-gray-100" style={{ width, height }}>
+      {map.tiles.map(tile => (
+        <Image
+          key={`${tile.left}:${tile.top}`}
+          src={tile.url}
+          alt=""
+          width={256}
+          height={256}
+          unoptimized
+          className="absolute max-w-none"
+          style={{ left: tile.left, top: tile.top }}
+        />
+      ))}
+      <svg className="absolute inset-0" width={width} height={height} aria-hidden="true">
+        {map.points.length > 1 && (
+          <polyline
+            points={map.points.map(point => `${point.x},${point.y}`).join(" ")}
+            fill="none"
+            stroke={color}
+            strokeWidth={3}
+            strokeOpacity={0.8}
+            strokeLinejoin="round"
+          />
+        )}
+        {map.points.map((point, index) => (
+          <g key={index}>
+            <circle cx={point.x} cy={point.y} r={MARKER_RADIUS} fill={color} stroke="white" strokeWidth={2} />
+            <text x={point.x} y={point.y} dy="0.35em" textAnchor="middle" fontSize={11} fontWeight={600} fill="white">
+              {index + 1}
+            </text>
+          </g>
+        ))}
+      </svg>
+      {/* Tile attribution is required by the OpenStreetMap tile usage policy */}
+      <span
+        className="absolute bottom-0 right-0 bg-white/80 px-1 text-[9px] text-gray-600"
+        dangerouslySetInnerHTML={{ __html: MAP_CONFIG.attribution }}
+      />
+    </div>
+  );
+}
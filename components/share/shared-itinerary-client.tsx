@@ -0,0 +1,268 @@
+// /components/share/shared-itinerary-client.tsx
+"use client";
+
+import React, { useState, useMemo, useCallback } from "react";
+import Image from "next/image";
+import type { LocationData, ItineraryDay, SharedItinerary } from "@/lib/types";
+import type { CategoryData } from "@/lib/supabase/categories";
+import LocationCardContent from "@/components/location-card-content";
+import { XMarkIcon as CloseIcon, ChevronDownIcon, ChevronUpIcon } from "@heroicons/react/24/outline";
+import { StopNoteMarkdown } from "@/components/planner/stop-note";
+import EmptyState from "@/components/empty-state";
+import type { PopupContentProps } from '@/components/map/map-view';
+import InteractiveMapLayout from '@/components/map/interactive-map-layout';
+import LocationListView from '@/components/location-list-view';
+import { formatTripDate, formatTripDateRange, getTripDayDate, getTripEndDate } from '@/lib/date-utils';
+import { formatDuration } from '@/lib/itinerary-schedule';
+import { getDayColor } from '@/lib/day-colors';
+import { buildDayRoutes, buildLocationToDayMap, buildMapLegend } from '@/lib/itinerary-map';
+
+// Favourites aren't available on a shared itinerary
+const noop = async () => {};
+
+interface SharedDayProps {
+  day: ItineraryDay;
+  startDate: string | null;
+  onHoverChange: (isHovered: boolean) => void;
+}
+
+function SharedDay({ day, startDate, onHoverChange }: SharedDayProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const date = getTripDayDate(startDate, day.id);
+
+  return (
+    <div
+      className="mb-4 border rounded-lg overflow-hidden"
+      onMouseEnter={() => onHoverChange(true)}
+      onMouseLeave={() => onHoverChange(false)}
+    >
+      <button
+        className="w-full flex items-center justify-between p-3 bg-gray-50 text-left"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center">
+          <span className="mr-2 h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: getDayColor(day.id) }} aria-hidden="true" />
+          <h3 className="font-medium">Day {day.id}</h3>
+          {date && <span className="ml-2 text-sm text-gray-700">{formatTripDate(date)}</span>}
+          <span className="ml-2 text-sm text-gray-500">{day.locations.length} activities</span>
+        </div>
+        {isExpanded ? (
+          <ChevronUpIcon className="h-5 w-5 text-gray-500" />
+        ) : (
+          <ChevronDownIcon className="h-5 w-5 text-gray-500" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="p-3">
+          {day.locations.length > 0 ? (
+            <ol className="space-y-3">
+              {day.locations.map((location, index) => (
+                <li key={location.id} className="flex items-start space-x-3 p-2 border rounded bg-white">
+                  <span className="mt-1 w-5 flex-shrink-0 text-center text-sm font-medium text-gray-500">{index + 1}</span>
+                  <div className="relative w-16 h-16 flex-shrink-0">
+                    <Image
+                      src={location.images[0] || "/placeholder.svg"}
+                      alt={location.name}
+                      fill
+                      className="object-cover rounded"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    {location.isCustom ? (
+                      <h4 className="font-medium truncate">{location.name}</h4>
+                    ) : (
+                      <a href={`/location/${location.id}`} target="_blank" className="block font-medium truncate hover:text-blue-600">
+                        {location.name}
+                      </a>
+                    )}
+                    <p className="text-sm text-gray-500 truncate">{location.category}</p>
+                    {(location.startTime || location.durationMinutes) && (
+                      <p className="text-xs text-gray-600 mt-1">
+                        {[location.startTime, location.durationMinutes && formatDuration(location.durationMinutes)].filter(Boolean).join(" · ")}
+                      </p>
+                    )}
+                    {location.note && (
+                      <div className="mt-1 rounded bg-yellow-50 p-2">
+                        <StopNoteMarkdown note={location.note} className="text-xs" />
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-center py-4 text-gray-500">No activities planned</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SharedItineraryClientProps {
+  itinerary: SharedItinerary;
+  categories: CategoryData[];
+}
+
+// Read-only version of the planner for itineraries opened through a share link
+export default function SharedItineraryClient({ itinerary, categories }: SharedItineraryClientProps) {
+  const { name, startDate, days } = itinerary;
+  const [selectedDayIds, setSelectedDayIds] = useState<number[]>([]);
+  const [hoveredDayId, setHoveredDayId] = useState<number | null>(null);
+
+  // Only the places in the itinerary are shown, each once
+  const sharedLocations = useMemo(() => {
+    const byId = new Map<string, LocationData>();
+    days.forEach(day => day.locations.forEach(loc => {
+      if (!byId.has(loc.id)) byId.set(loc.id, loc);
+    }));
+    return Array.from(byId.values());
+  }, [days]);
+
+  const locationToDayMap = useMemo(() => buildLocationToDayMap(days), [days]);
+  const dayRoutes = useMemo(() => buildDayRoutes(days), [days]);
+  const mapLegend = useMemo(() => buildMapLegend(days, locationToDayMap, sharedLocations), [days, locationToDayMap, sharedLocations]);
+
+  const tripDateRange = useMemo(() => (
+    startDate ? formatTripDateRange(startDate, getTripEndDate(startDate, Math.max(days.length, 1))) : null
+  ), [startDate, days.length]);
+
+  const handleDayFilterToggle = useCallback((dayId: number) => {
+    setSelectedDayIds(prev => prev.includes(dayId) ? prev.filter(id => id !== dayId) : [...prev, dayId]);
+  }, []);
+
+  const renderSharedPopupContent = useCallback(({ location, onClosePopup }: PopupContentProps) => {
+    const renderCloseButton = () => (
+      <div
+        className="flex h-8 w-8 cursor-pointer items-center justify-center rounded-full bg-white shadow-md transition-colors hover:bg-gray-100"
+        onClick={(e) => { e.preventDefault(); e.stopPropagation(); onClosePopup(); }}
+        title="Close" aria-label="Close popup"
+      >
+        <CloseIcon className="w-5 h-5 text-gray-700" />
+      </div>
+    );
+    const stopNotes = days
+      .map(day => ({ dayId: day.id, note: day.locations.find(loc => loc.id === location.id)?.note }))
+      .filter((stop): stop is { dayId: number; note: string } => !!stop.note);
+    const plannedStops = locationToDayMap.get(location.id) ?? [];
+    const renderFooter = () => (
+      <>
+        {plannedStops.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-1">
+            {plannedStops.map(({ dayId, stopNumber }) => (
+              <span key={dayId} className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getDayColor(dayId) }} />
+                Day {dayId} · stop {stopNumber}
+              </span>
+            ))}
+          </div>
+        )}
+        {stopNotes.length > 0 && (
+          <div className="max-h-32 overflow-y-auto rounded bg-yellow-50 p-2 space-y-1">
+            {stopNotes.map(({ dayId, note }) => (
+              <div key={dayId}>
+                {days.length > 1 && <p className="text-xs font-medium text-gray-500">Day {dayId}</p>}
+                <StopNoteMarkdown note={note} className="text-xs" />
+              </div>
+            ))}
+          </div>
+        )}
+      </>
+    );
+    return (
+      <div className="w-[340px]">
+        <LocationCardContent
+          location={location}
+          isLoggedIn={false}
+          isFavorited={false}
+          onToggleFavorite={noop}
+          isLoadingFavorite={false}
+          renderHeaderActions={renderCloseButton}
+          renderFooterActions={renderFooter}
+          imageSizes="340px"
+          linkHref={location.isCustom ? undefined : `/location/${location.id}`}
+          linkTarget="_blank"
+        />
+      </div>
+    );
+  }, [days, locationToDayMap]);
+
+  const renderSharedListView = useCallback(({ locations, hoveredLocation, onLocationHover }: {
+    locations: LocationData[];
+    hoveredLocation: LocationData | null;
+    onLocationHover: (location: LocationData | null) => void;
+  }) => (
+    <LocationListView
+      locations={locations}
+      onLocationHover={onLocationHover}
+      hoveredLocation={hoveredLocation}
+      columns={1}
+      isLoggedIn={false}
+      userFavorites={[]}
+      isLoadingFavorite={{}}
+      onToggleFavorite={noop}
+      getCardHref={(loc) => loc.isCustom ? undefined : `/location/${loc.id}`}
+      cardLinkTarget="_blank"
+      listClassName="bg-gray-50"
+    />
+  ), []);
+
+  const renderSharedPlanView = useCallback(() => (
+    <>
+      <div className="p-3 bg-white border-b sticky top-0 z-10">
+        <h2 className="text-lg font-medium truncate">{name}</h2>
+        <p className="text-sm text-gray-500 truncate">
+          {tripDateRange ?? `${days.length} ${days.length === 1 ? 'day' : 'days'}`} · Shared itinerary (view only)
+        </p>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        {days.length === 0 ? (
+          <EmptyState message="Nothing planned yet" description="This itinerary doesn't have any days yet." />
+        ) : (
+          days.map(day => (
+            <SharedDay
+              key={day.id}
+              day={day}
+              startDate={startDate}
+              onHoverChange={(isHovered) => setHoveredDayId(isHovered ? day.id : null)}
+            />
+          ))
+        )}
+      </div>
+    </>
+  ), [name, tripDateRange, days, startDate]);
+
+  return (
+    <div className="h-full flex flex-col">
+      <InteractiveMapLayout
+        initialLocations={sharedLocations}
+        categories={categories}
+        showSearchControls={false}
+        showAiSearch={false}
+        showFilterControls={true}
+        mobileNavViews={['plan', 'map', 'list']}
+        desktopLayoutConfig={{
+          showPlanColumn: true,
+          planWidth: 'w-[30%]',
+          listWidth: 'w-[30%]',
+          mapWidth: 'w-[40%]',
+        }}
+        filterOptions={{
+          showDayFilter: true,
+          days: days,
+          selectedDayIds: selectedDayIds,
+          onDayToggle: handleDayFilterToggle,
+          startDate: startDate,
+        }}
+        renderPopupContent={renderSharedPopupContent}
+        renderListView={renderSharedListView}
+        renderPlanView={renderSharedPlanView}
+        locationToDayMap={locationToDayMap}
+        dayRoutes={dayRoutes}
+        highlightedDayId={hoveredDayId}
+        mapLegend={mapLegend}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+// /hooks/use-custom-places.ts
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import type { LocationData } from '@/lib/types';
+import { parseCustomPlaceId } from '@/lib/custom-places';
+
+export interface NewCustomPlace {
+    name: string;
+    coordinates: [number, number];
+    address?: string;
+    notes?: string;
+}
+
+/**
+ * Hook to load and manage the current user's custom places (hotel, booked restaurant, ...).
+ * Places are returned as LocationData so they can be used like catalog locations in the planner.
+ */
+export function useCustomPlaces() {
+    const { isLoggedIn, isInitialized } = useAuth();
+    const [places, setPlaces] = useState<LocationData[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const fetchPlaces = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/places');
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to fetch places');
+            }
+            const data = await response.json();
+            setPlaces(data.places || []);
+        } catch (err) {
+            console.error('[useCustomPlaces] Error fetching places:', err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isInitialized) return;
+        if (isLoggedIn) {
+            fetchPlaces();
+        } else {
+            setPlaces([]);
+        }
+    }, [isInitialized, isLoggedIn, fetchPlaces]);
+
+    // Create a place; resolves to the new place, or throws with the server's error message
+    const createPlace = useCallback(async (newPlace: NewCustomPlace): Promise<LocationData> => {
+        const response = await fetch('/api/places', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                name: newPlace.name,
+                latitude: newPlace.coordinates[0],
+                longitude: newPlace.coordinates[1],
+                address: newPlace.address,
+                notes: newPlace.notes,
+            }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            throw new Error(result.error || `Failed to create place (status ${response.status})`);
+        }
+        setPlaces(prev => [...prev, result]);
+        return result;
+    }, []);
+
+    // Delete a place by its LocationData id ("custom-<n>")
+    const deletePlace = useCallback(async (locationId: string): Promise<boolean> => {
+        const placeId = parseCustomPlaceId(locationId);
+        if (placeId === null) return false;
+        try {
+            const response = await fetch(`/api/places/${placeId}`, { method: 'DELETE' });
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to delete place');
+            }
+            setPlaces(prev => prev.filter(place => place.id !== locationId));
+            return true;
+        } catch (err) {
+            console.error('[useCustomPlaces] Error deleting place:', err);
+            return false;
+        }
+    }, []);
+
+    return {
+        places,
+        isLoading,
+        createPlace,
+        deletePlace,
+        refreshPlaces: fetchPlaces,
+    };
+}
@@ -2,35 +2,140 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/hooks/use-auth'; // Corrected import path if needed
 import type { LocationData, ItineraryDay } from '@/lib/types';
+import { optimizeRouteOrder, getRouteDistanceKm, type OptimizeRouteOptions } from '@/lib/route-optimizer';
+import { mergeItineraryDays } from '@/lib/itinerary-merge';
+import { diffItineraryDays } from '@/lib/itinerary-operations';
+import { insertItineraryDay, splitItineraryDay, mergeItineraryDayWithNext, duplicateItineraryDay } from '@/lib/itinerary-days';
 
 // Debounce delay for saving changes (1.5 seconds)
 const SAVE_DELAY_MS = 1500;
+// Number of edits that can be undone
+const MAX_HISTORY_LENGTH = 50;
+// Failed saves are retried after 2s, 4s, 8s, ... up to a minute apart
+const SAVE_RETRY_BASE_DELAY_MS = 2000;
+const SAVE_RETRY_MAX_DELAY_MS = 60000;
+// localStorage key prefix (plus itinerary ID) for edits not yet confirmed by the server
+const DRAFT_STORAGE_KEY_PREFIX = 'itinerary-draft-';
+// BroadcastChannel name prefix (plus itinerary ID) for keeping tabs of this browser in sync
+const SYNC_CHANNEL_PREFIX = 'itinerary-sync-';
+
+// 'saving' covers edits waiting for the debounce as well as the request itself
+export type ItinerarySaveStatus = 'saved' | 'saving' | 'offline' | 'error'; // 'error': the server refused the edits
+
+// Unsynced edits kept in localStorage, with the server state they were made on top of
+interface ItineraryDraft {
+    days: ItineraryDay[];
+    baseDays: ItineraryDay[];
+    baseVersion: number;
+}
+
+// Sent to other tabs with the same itinerary open once the server has confirmed a change
+type ItinerarySyncMessage =
+    | { type: 'saved'; version: number; days: ItineraryDay[] }
+    | { type: 'startDate'; startDate: string | null };
+
+// A save the server refused for good (bad data, no access); retrying won't help
+class SaveRejectedError extends Error {}
+
+// A proposed stop order for one day, shown to the user before it's applied
+export interface DayRoutePreview {
+    dayId: number;
+    options: OptimizeRouteOptions;
+    locationIds: string[]; // Proposed order
+    currentDistanceKm: number;
+    optimizedDistanceKm: number;
+}
+
+// The server's copy of the itinerary after a save was rejected because it changed elsewhere
+export interface ItinerarySaveConflict {
+    days: ItineraryDay[];
+    startDate: string | null;
+    version: number;
+    canMerge: boolean; // False when either side added, removed or rearranged days; only reloading is offered then
+}
 
 /**
  * Hook to manage the state and persistence of a specific itinerary.
  * @param itineraryId - The ID of the itinerary to manage.
  * @param initialDays - Initial itinerary data (days and locations) passed from server component.
+ * @param initialStartDate - Initial trip start date ('YYYY-MM-DD' in Tokyo time), if set.
+ * @param initialVersion - Content version of the initial data; saves based on an older version are rejected.
  */
 export function useItinerary(
     itineraryId: number | null,
-    initialDays: ItineraryDay[] = []
+    initialDays: ItineraryDay[] = [],
+    initialStartDate: string | null = null,
+    initialVersion: number = 1
 ) {
     // State
     const [days, setDays] = useState<ItineraryDay[]>(initialDays);
+    const [startDate, setStartDate] = useState<string | null>(initialStartDate);
     // Loading is true only if no initial data is provided AND we haven't fetched yet OR auth is still loading.
     const [isLoading, setIsLoading] = useState(() => !initialDays || initialDays.length === 0);
-    const [isSaving, setIsSaving] = useState(false);
+    const [saveStatus, setSaveStatus] = useState<ItinerarySaveStatus>('saved');
+    const [saveError, setSaveError] = useState<string | null>(null); // Why the last save was refused
     const [error, setError] = useState<string | null>(null);
+    const [routePreview, setRoutePreview] = useState<DayRoutePreview | null>(null);
+    const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+    const [saveConflict, setSaveConflict] = useState<ItinerarySaveConflict | null>(null);
 
     // References
     const isItineraryDataInitialized = useRef(!!initialDays && initialDays.length > 0); // Renamed for clarity
     const saveTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const retryAttemptRef = useRef(0);
+    const isSaveInFlightRef = useRef(false);
+    const isDraftCheckedRef = useRef(false);
+    const syncChannelRef = useRef<BroadcastChannel | null>(null);
     const hasPendingChanges = useRef(false);
+    // Latest days, updated synchronously so back-to-back edits and undo/redo build on each other
+    const daysRef = useRef<ItineraryDay[]>(initialDays);
+    const undoStackRef = useRef<ItineraryDay[][]>([]);
+    const redoStackRef = useRef<ItineraryDay[][]>([]);
+    // Version and days as last loaded from / saved to the server (the base for merging after a conflict)
+    const versionRef = useRef(initialVersion);
+    const lastSavedDaysRef = useRef<ItineraryDay[]>(initialDays);
 
     // Auth state
     // Destructure isInitialized from useAuth and rename it to avoid conflict
     const { user, isLoggedIn, isLoading: isAuthLoading, isInitialized: isAuthInitialized } = useAuth();
 
+    const postSyncMessage = useCallback((message: ItinerarySyncMessage) => {
+        syncChannelRef.current?.postMessage(message);
+    }, []);
+
+    // --- Draft Restore ---
+    // Pick up edits left unsynced by an earlier visit (closed tab, reload while offline, ...).
+    // They are saved against the version they were based on, so a newer server copy leads to the usual conflict choice.
+    const restoreDraft = useCallback((idToRestore: number) => {
+        if (isDraftCheckedRef.current) return;
+        isDraftCheckedRef.current = true;
+
+        const storageKey = `${DRAFT_STORAGE_KEY_PREFIX}${idToRestore}`;
+        let draft: ItineraryDraft | null = null;
+        try {
+            draft = JSON.parse(localStorage.getItem(storageKey) || 'null');
+        } catch {
+            draft = null;
+        }
+        if (!draft || !Array.isArray(draft.days) || !Array.isArray(draft.baseDays) || !Number.isInteger(draft.baseVersion)) {
+            localStorage.removeItem(storageKey);
+            return;
+        }
+        if (JSON.stringify(draft.days) === JSON.stringify(daysRef.current)) {
+            localStorage.removeItem(storageKey); // Nothing left to sync
+            return;
+        }
+
+        console.log(`[useItinerary] Restoring unsaved changes for itinerary ${idToRestore} (based on version ${draft.baseVersion})`);
+        lastSavedDaysRef.current = draft.baseDays;
+        versionRef.current = draft.baseVersion;
+        daysRef.current = draft.days;
+        hasPendingChanges.current = true;
+        setDays(draft.days);
+        setSaveStatus('saving');
+    }, []);
+
     // --- Fetching Logic (Primarily for fallback/refresh) ---
     const fetchItinerary = useCallback(async (idToFetch: number, showLoadingIndicator = true) => {
         // This check might be redundant now due to the useEffect logic, but keep for safety
@@ -62,7 +167,16 @@ export function useItinerary(
             console.log(`[useItinerary] Successfully loaded itinerary: ${itineraryData.id}`);
 
             setDays(itineraryData.days || []); // Update state with fetched data
+            daysRef.current = itineraryData.days || [];
+            lastSavedDaysRef.current = itineraryData.days || [];
+            versionRef.current = itineraryData.version;
+            // Edits made before this load no longer apply
+            undoStackRef.current = [];
+            redoStackRef.current = [];
+            setHistoryState({ canUndo: false, canRedo: false });
+            setStartDate(itineraryData.startDate ?? null);
             isItineraryDataInitialized.current = true; // Mark as initialized with fetched data
+            restoreDraft(idToFetch);
 
         } catch (err: any) {
             console.error('[useItinerary] Error loading itinerary:', err);
@@ -71,7 +185,7 @@ export function useItinerary(
         } finally {
             setIsLoading(false);
         }
-    }, [isLoggedIn]); // Keep isLoggedIn dependency
+    }, [isLoggedIn, restoreDraft]); // Keep isLoggedIn dependency
 
     // --- Initialization Effect (REVISED) ---
     useEffect(() => {
@@ -100,6 +214,7 @@ export function useItinerary(
                 console.log(`[useItinerary Init] Auth ready, already initialized for ${itineraryId}.`);
                 setIsLoading(false); // Ensure loading is false if we used initial data
                 setError(null); // Clear any potential previous errors
+                restoreDraft(itineraryId);
             }
         } else if (!isLoggedIn && itineraryId) {
             // Logged out, but trying to access a specific itinerary page
@@ -119,24 +234,105 @@ export function useItinerary(
         }
 
     // Added isAuthInitialized to dependencies
-    }, [isLoggedIn, isAuthLoading, isAuthInitialized, itineraryId, fetchItinerary]);
+    }, [isLoggedIn, isAuthLoading, isAuthInitialized, itineraryId, fetchItinerary, restoreDraft]);
 
 
     // --- Modification Functions ---
 
-    // Helper to update state and mark pending changes
-    const modifyDays = useCallback((modificationFn: (currentDays: ItineraryDay[]) => ItineraryDay[]) => {
-        setDays(currentDays => {
-            const newDays = modificationFn(currentDays);
-            // Simple JSON comparison to check if days actually changed
-            if (JSON.stringify(newDays) !== JSON.stringify(currentDays)) {
-                hasPendingChanges.current = true;
-                console.log('[useItinerary] Changes detected, marking pending.');
-            }
-            return newDays;
-        });
+    // Replace the days without touching the history; the save effect picks up the change
+    const applyDays = useCallback((newDays: ItineraryDay[]) => {
+        daysRef.current = newDays;
+        hasPendingChanges.current = true;
+        setDays(newDays);
+        setSaveStatus(status => status === 'offline' ? status : 'saving');
+        setHistoryState({ canUndo: undoStackRef.current.length > 0, canRedo: redoStackRef.current.length > 0 });
     }, []);
 
+    // Helper to update state, record the previous days for undo and mark pending changes
+    const modifyDays = useCallback((modificationFn: (currentDays: ItineraryDay[]) => ItineraryDay[]) => {
+        const currentDays = daysRef.current;
+        const newDays = modificationFn(currentDays);
+        // Simple JSON comparison to check if days actually changed
+        if (JSON.stringify(newDays) === JSON.stringify(currentDays)) return;
+        console.log('[useItinerary] Changes detected, marking pending.');
+        undoStackRef.current = [...undoStackRef.current, currentDays].slice(-MAX_HISTORY_LENGTH);
+        redoStackRef.current = []; // A new edit replaces anything that was undone
+        applyDays(newDays);
+    }, [applyDays]);
+
+    // Step back to the days before the last edit. Saved like any other change.
+    const undo = useCallback(() => {
+        const previousDays = undoStackRef.current[undoStackRef.current.length - 1];
+        if (!previousDays) return;
+        console.log('[useItinerary] Undoing last change');
+        undoStackRef.current = undoStackRef.current.slice(0, -1);
+        redoStackRef.current = [...redoStackRef.current, daysRef.current];
+        applyDays(previousDays);
+    }, [applyDays]);
+
+    // Re-apply the last undone edit
+    const redo = useCallback(() => {
+        const nextDays = redoStackRef.current[redoStackRef.current.length - 1];
+        if (!nextDays) return;
+        console.log('[useItinerary] Redoing change');
+        redoStackRef.current = redoStackRef.current.slice(0, -1);
+        undoStackRef.current = [...undoStackRef.current, daysRef.current].slice(-MAX_HISTORY_LENGTH);
+        applyDays(nextDays);
+    }, [applyDays]);
+
+    // After a save conflict: replay local changes on top of the server's version and save the result
+    const mergeSaveConflict = useCallback(() => {
+        if (!saveConflict) return;
+        const mergedDays = mergeItineraryDays(lastSavedDaysRef.current, daysRef.current, saveConflict.days);
+        if (!mergedDays) return;
+        console.log(`[useItinerary] Merging local changes onto server version ${saveConflict.version}`);
+        versionRef.current = saveConflict.version;
+        lastSavedDaysRef.current = saveConflict.days;
+        setStartDate(saveConflict.startDate);
+        modifyDays(() => mergedDays); // Undoable like any other edit
+        hasPendingChanges.current = JSON.stringify(mergedDays) !== JSON.stringify(saveConflict.days);
+        if (!hasPendingChanges.current) {
+            // Nothing of ours left to add; the server already has the merged result
+            localStorage.removeItem(`${DRAFT_STORAGE_KEY_PREFIX}${itineraryId}`);
+            setSaveStatus('saved');
+        }
+        setSaveConflict(null);
+    }, [saveConflict, modifyDays, itineraryId]);
+
+    // After a save conflict: drop local changes and show the server's version
+    const reloadFromSaveConflict = useCallback(() => {
+        if (!saveConflict) return;
+        console.log(`[useItinerary] Discarding local changes, reloading server version ${saveConflict.version}`);
+        versionRef.current = saveConflict.version;
+        lastSavedDaysRef.current = saveConflict.days;
+        daysRef.current = saveConflict.days;
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        setHistoryState({ canUndo: false, canRedo: false });
+        setDays(saveConflict.days);
+        setStartDate(saveConflict.startDate);
+        hasPendingChanges.current = false;
+        localStorage.removeItem(`${DRAFT_STORAGE_KEY_PREFIX}${itineraryId}`);
+        setSaveStatus('saved');
+        setSaveConflict(null);
+    }, [saveConflict, itineraryId]);
+
+    // Drop edits the server refused to save and go back to the last saved version
+    const discardUnsavedChanges = useCallback(() => {
+        console.log('[useItinerary] Discarding unsaved changes');
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+        daysRef.current = lastSavedDaysRef.current;
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        setHistoryState({ canUndo: false, canRedo: false });
+        setDays(lastSavedDaysRef.current);
+        hasPendingChanges.current = false;
+        localStorage.removeItem(`${DRAFT_STORAGE_KEY_PREFIX}${itineraryId}`);
+        setSaveStatus('saved');
+        setSaveError(null);
+    }, [itineraryId]);
+
     // Add a new day
     const addDay = useCallback(() => {
         console.log('[useItinerary] Adding new day');
@@ -162,6 +358,30 @@ export function useItinerary(
         });
     }, [modifyDays]);
 
+    // Insert an empty day so it becomes day dayId; it and the later days move up by one
+    const insertDay = useCallback((dayId: number) => {
+        console.log(`[useItinerary] Inserting day at ${dayId}`);
+        modifyDays((currentDays) => insertItineraryDay(currentDays, dayId));
+    }, [modifyDays]);
+
+    // Move the stops of a day from atIndex on into a new day right after it
+    const splitDay = useCallback((dayId: number, atIndex: number) => {
+        console.log(`[useItinerary] Splitting day ${dayId} at stop ${atIndex}`);
+        modifyDays((currentDays) => splitItineraryDay(currentDays, dayId, atIndex));
+    }, [modifyDays]);
+
+    // Merge the day after dayId into it; later days are renumbered down
+    const mergeDays = useCallback((dayId: number) => {
+        console.log(`[useItinerary] Merging day ${dayId + 1} into day ${dayId}`);
+        modifyDays((currentDays) => mergeItineraryDayWithNext(currentDays, dayId));
+    }, [modifyDays]);
+
+    // Copy a day to right after it
+    const duplicateDay = useCallback((dayId: number) => {
+        console.log(`[useItinerary] Duplicating day ${dayId}`);
+        modifyDays((currentDays) => duplicateItineraryDay(currentDays, dayId));
+    }, [modifyDays]);
+
     // Add a location to a specific day
     const addLocationToDay = useCallback((dayId: number, location: LocationData) => {
         console.log(`[useItinerary] Adding location ${location.id} to day ${dayId}`);
@@ -189,84 +409,456 @@ export function useItinerary(
     }, [modifyDays]);
 
 
-    // --- Saving Logic ---
+    // Remove a location that no longer exists (e.g. a deleted custom place) from every day
+    // and from the undo/redo history, so neither a save nor an undo can bring it back
+    const purgeLocation = useCallback((locationId: string) => {
+        console.log(`[useItinerary] Purging location ${locationId} from all days and history`);
+        const withoutLocation = (snapshot: ItineraryDay[]) => snapshot.map(day => (
+            day.locations.some(loc => loc.id === locationId)
+                ? { ...day, locations: day.locations.filter(loc => loc.id !== locationId) }
+                : day
+        ));
+        undoStackRef.current = undoStackRef.current.map(withoutLocation);
+        redoStackRef.current = redoStackRef.current.map(withoutLocation);
+        const newDays = withoutLocation(daysRef.current);
+        if (JSON.stringify(newDays) !== JSON.stringify(daysRef.current)) {
+            applyDays(newDays);
+        }
+    }, [applyDays]);
+
+
+    // Replace the whole plan, e.g. with a version from the history. Undoable and saved like any other edit.
+    const replaceDays = useCallback((newDays: ItineraryDay[]) => {
+        modifyDays(() => newDays);
+    }, [modifyDays]);
+
+
+    // Reorder the locations within a day (orderedLocationIds must be a permutation of the day's locations)
+    const reorderDay = useCallback((dayId: number, orderedLocationIds: string[]) => {
+        console.log(`[useItinerary] Reordering day ${dayId}`);
+        modifyDays((currentDays) => {
+            return currentDays.map(day => {
+                if (day.id !== dayId) return day;
+                const locationsById = new Map(day.locations.map(loc => [loc.id, loc]));
+                const reordered = orderedLocationIds
+                    .map(id => locationsById.get(id))
+                    .filter((loc): loc is LocationData => !!loc);
+                // Ignore stale or partial orderings rather than dropping locations
+                if (reordered.length !== day.locations.length) {
+                    console.warn(`[useItinerary] Ignoring reorder for day ${dayId}: order does not match current locations.`);
+                    return day;
+                }
+                return { ...day, locations: reordered };
+            });
+        });
+    }, [modifyDays]);
+
+    // Move a location to a position within the same day or another day
+    const moveLocation = useCallback((fromDayId: number, toDayId: number, locationId: string, toIndex: number) => {
+        console.log(`[useItinerary] Moving location ${locationId} from day ${fromDayId} to day ${toDayId} at index ${toIndex}`);
+        modifyDays((currentDays) => {
+            const fromDay = currentDays.find(day => day.id === fromDayId);
+            const toDay = currentDays.find(day => day.id === toDayId);
+            const location = fromDay?.locations.find(loc => loc.id === locationId);
+            if (!fromDay || !toDay || !location) return currentDays;
+            // A location can only appear once per day (UNIQUE(day_id, location_id))
+            if (fromDayId !== toDayId && toDay.locations.some(loc => loc.id === locationId)) {
+                console.warn(`[useItinerary] Location ${locationId} is already in day ${toDayId}.`);
+                return currentDays;
+            }
+
+            return currentDays.map(day => {
+                let locations = day.locations;
+                if (day.id === fromDayId) {
+                    locations = locations.filter(loc => loc.id !== locationId);
+                }
+                if (day.id === toDayId) {
+                    const insertAt = Math.max(0, Math.min(toIndex, locations.length));
+                    locations = [...locations.slice(0, insertAt), location, ...locations.slice(insertAt)];
+                }
+                return locations === day.locations ? day : { ...day, locations };
+            });
+        });
+    }, [modifyDays]);
+
+
+    // Work out the shortest stop order for a day and hold it as a preview (nothing changes until accepted)
+    const previewOptimizedOrder = useCallback((dayId: number, options: OptimizeRouteOptions = {}) => {
+        const day = days.find(d => d.id === dayId);
+        if (!day) return;
+        const optimized = optimizeRouteOrder(day.locations, options);
+        setRoutePreview({
+            dayId,
+            options,
+            locationIds: optimized.map(loc => loc.id),
+            currentDistanceKm: getRouteDistanceKm(day.locations),
+            optimizedDistanceKm: getRouteDistanceKm(optimized),
+        });
+    }, [days]);
+
+    // Apply the previewed order. reorderDay ignores it if the day's stops changed in the meantime.
+    const acceptRoutePreview = useCallback(() => {
+        if (!routePreview) return;
+        console.log(`[useItinerary] Applying optimised order for day ${routePreview.dayId}`);
+        reorderDay(routePreview.dayId, routePreview.locationIds);
+        setRoutePreview(null);
+    }, [routePreview, reorderDay]);
+
+    const discardRoutePreview = useCallback(() => {
+        setRoutePreview(null);
+    }, []);
+
+    // Drop the preview once stops are added to or removed from its day
     useEffect(() => {
-        // Conditions to prevent saving
-        // Ensure auth is initialized AND user is logged in AND itinerary data is initialized
-        if (!itineraryId || !isAuthInitialized || !isLoggedIn || isAuthLoading || !isItineraryDataInitialized.current) {
-             console.log(`[useItinerary Save Effect] Skipping save check. Conditions: itineraryId=${itineraryId}, isAuthInitialized=${isAuthInitialized}, isLoggedIn=${isLoggedIn}, isAuthLoading=${isAuthLoading}, isItineraryDataInitialized=${isItineraryDataInitialized.current}`);
+        if (!routePreview) return;
+        const day = days.find(d => d.id === routePreview.dayId);
+        const currentIds = (day?.locations.map(loc => loc.id) ?? []).sort().join(',');
+        if (currentIds !== [...routePreview.locationIds].sort().join(',')) {
+            setRoutePreview(null);
+        }
+    }, [days, routePreview]);
+
+    // Set or clear a stop's start time ('HH:MM') and/or duration. Undefined clears the field.
+    const updateStopSchedule = useCallback((
+        dayId: number,
+        locationId: string,
+        schedule: Partial<Pick<LocationData, 'startTime' | 'durationMinutes'>>
+    ) => {
+        console.log(`[useItinerary] Updating schedule for location ${locationId} on day ${dayId}`, schedule);
+        modifyDays((currentDays) => {
+            return currentDays.map(day => {
+                if (day.id !== dayId) return day;
+                return {
+                    ...day,
+                    locations: day.locations.map(loc => loc.id === locationId ? { ...loc, ...schedule } : loc),
+                };
+            });
+        });
+    }, [modifyDays]);
+
+
+    // Set or clear (empty string) a stop's personal note
+    const updateStopNote = useCallback((dayId: number, locationId: string, note: string) => {
+        console.log(`[useItinerary] Updating note for location ${locationId} on day ${dayId}`);
+        const trimmedNote = note.trim();
+        modifyDays((currentDays) => {
+            return currentDays.map(day => {
+                if (day.id !== dayId) return day;
+                return {
+                    ...day,
+                    locations: day.locations.map(loc => loc.id === locationId ? { ...loc, note: trimmedNote || undefined } : loc),
+                };
+            });
+        });
+    }, [modifyDays]);
+
+    // Undefined clears the override so the location's typical estimate is used again
+    const updateStopCost = useCallback((dayId: number, locationId: string, costOverride: number | undefined) => {
+        console.log(`[useItinerary] Updating cost for location ${locationId} on day ${dayId}`);
+        modifyDays((currentDays) => {
+            return currentDays.map(day => {
+                if (day.id !== dayId) return day;
+                return {
+                    ...day,
+                    locations: day.locations.map(loc => loc.id === locationId ? { ...loc, costOverride } : loc),
+                };
+            });
+        });
+    }, [modifyDays]);
+
+
+    // Update the trip start date. Saved immediately (not debounced) since it isn't part of the days payload.
+    const updateStartDate = useCallback(async (newStartDate: string | null) => {
+        if (!itineraryId) return false;
+        console.log(`[useItinerary] Updating start date to ${newStartDate}`);
+        const previousStartDate = startDate;
+        setStartDate(newStartDate); // Optimistic update
+
+        try {
+            const response = await fetch(`/api/itineraries/${itineraryId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ startDate: newStartDate }),
+            });
+
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to update start date');
+            }
+            postSyncMessage({ type: 'startDate', startDate: newStartDate });
+            return true;
+        } catch (err: any) {
+            console.error('[useItinerary] Error updating start date:', err);
+            setStartDate(previousStartDate); // Revert optimistic update
+            return false;
+        }
+    }, [itineraryId, startDate, postSyncMessage]);
+
+
+    // --- Saving Logic ---
+
+    // Keep unsynced edits in localStorage until the server confirms them, so a reload or a
+    // closed tab doesn't lose them. The draft records the version its edits are based on.
+    const writeDraft = useCallback(() => {
+        if (!itineraryId) return;
+        const draft: ItineraryDraft = { days: daysRef.current, baseDays: lastSavedDaysRef.current, baseVersion: versionRef.current };
+        try {
+            localStorage.setItem(`${DRAFT_STORAGE_KEY_PREFIX}${itineraryId}`, JSON.stringify(draft));
+        } catch (err) {
+            console.warn('[useItinerary] Could not store local draft:', err);
+        }
+    }, [itineraryId]);
+
+    const clearDraft = useCallback(() => {
+        if (!itineraryId) return;
+        localStorage.removeItem(`${DRAFT_STORAGE_KEY_PREFIX}${itineraryId}`);
+    }, [itineraryId]);
+
+    // Send the edits made since the last save as operations (falling back to the full days if they
+    // don't apply on the server). Network and server errors are retried with backoff.
+    const saveNow = useCallback(async () => {
+        saveTimerRef.current = null;
+        retryTimerRef.current = null;
+        // Re-check conditions before making the API call (belt-and-suspenders)
+        if (!itineraryId || !isLoggedIn) {
+            console.log('[useItinerary Save] Skipping save: Conditions not met after debounce.');
             return;
         }
+        // One request at a time; edits made meanwhile are sent when it finishes
+        if (isSaveInFlightRef.current || !hasPendingChanges.current) return;
+
+        console.log('[useItinerary Save] Saving changes to itinerary ID:', itineraryId);
+        isSaveInFlightRef.current = true;
+        const currentDaysState = daysRef.current; // Capture current state for the save operation
+        hasPendingChanges.current = false; // Reset flag before async call
 
-        if (hasPendingChanges.current) {
-            console.log('[useItinerary Save Effect] Pending changes detected. Setting save timer.');
-            if (saveTimerRef.current) {
-                clearTimeout(saveTimerRef.current);
+        try {
+            const operations = diffItineraryDays(lastSavedDaysRef.current, currentDaysState);
+            if (operations.length === 0) {
+                // Edits cancelled each other out (e.g. undone); the server already has this
+                console.log('[useItinerary Save] No changes since the last save.');
+                clearDraft();
+                setSaveStatus('saved');
+                return;
             }
 
-            saveTimerRef.current = setTimeout(async () => {
-                // Re-check conditions before making the API call (belt-and-suspenders)
-                if (!itineraryId || !isLoggedIn) {
-                    console.log('[useItinerary Save] Skipping save: Conditions not met after debounce.');
-                    setIsSaving(false);
-                    hasPendingChanges.current = false; // Reset flag even if skipped
-                    return;
-                }
+            let response = await fetch(`/api/itineraries/${itineraryId}/operations`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ operations, version: versionRef.current }),
+            });
 
-                console.log('[useItinerary Save] Debounce complete, saving changes to itinerary ID:', itineraryId);
-                setIsSaving(true);
-                setError(null);
-                const currentDaysState = days; // Capture current state for the save operation
-                hasPendingChanges.current = false; // Reset flag before async call
-
-                try {
-                    const response = await fetch(`/api/itineraries/${itineraryId}`, {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ days: currentDaysState }), // Send the captured state
-                    });
-
-                    if (!response.ok) {
-                        const errorData = await response.json();
-                        throw new Error(errorData.error || 'Failed to save itinerary');
-                    }
-
-                    console.log('[useItinerary Save] Successfully saved itinerary changes.');
-                    // Optional: Update localStorage cache if needed
-
-                } catch (err: any) {
-                    console.error('[useItinerary Save] Error saving itinerary:', err);
-                    setError(`Failed to save: ${err.message}. Changes might be lost.`);
-                    // Consider re-marking as pending on error? Or potentially revert state?
-                    // For now, just show error. User might need to refresh.
-                    // hasPendingChanges.current = true;
-                } finally {
-                    setIsSaving(false);
-                }
-            }, SAVE_DELAY_MS);
+            if (response.status === 422) {
+                console.warn('[useItinerary Save] Operations did not apply, sending the full itinerary instead.');
+                response = await fetch(`/api/itineraries/${itineraryId}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ days: currentDaysState, version: versionRef.current }), // Send the captured state
+                });
+            }
+
+            // Saved elsewhere since we loaded: hold further saves until the user merges or reloads
+            if (response.status === 409) {
+                const { current } = await response.json();
+                if (!current) throw new SaveRejectedError('Itinerary no longer exists');
+                console.warn(`[useItinerary Save] Conflict: server is at version ${current.version}`);
+                hasPendingChanges.current = true;
+                setSaveConflict({
+                    days: current.days,
+                    startDate: current.startDate ?? null,
+                    version: current.version,
+                    canMerge: mergeItineraryDays(lastSavedDaysRef.current, daysRef.current, current.days) !== null,
+                });
+                return;
+            }
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                const message = errorData.error || 'Failed to save itinerary';
+                // Bad data or lost access won't get better by retrying
+                throw [400, 403, 404].includes(response.status) ? new SaveRejectedError(message) : new Error(message);
+            }
+
+            const { version: newVersion } = await response.json();
+            versionRef.current = newVersion;
+            lastSavedDaysRef.current = currentDaysState;
+            retryAttemptRef.current = 0;
+            console.log('[useItinerary Save] Successfully saved itinerary changes.');
+            postSyncMessage({ type: 'saved', version: newVersion, days: currentDaysState });
+
+            if (hasPendingChanges.current) {
+                writeDraft(); // Rebase the draft on the new version
+                saveTimerRef.current = setTimeout(saveNow, SAVE_DELAY_MS);
+            } else {
+                clearDraft();
+                setSaveStatus('saved');
+            }
+            setSaveError(null);
+
+        } catch (err: any) {
+            if (err instanceof SaveRejectedError) {
+                // Keep the edits (and their draft) so nothing is lost; the next edit tries again,
+                // and discardUnsavedChanges goes back to the saved version
+                console.error('[useItinerary Save] Save rejected:', err);
+                writeDraft();
+                setSaveStatus('error');
+                setSaveError(err.message);
+                return;
+            }
+            // Offline or server trouble: keep the edits pending and try again later
+            hasPendingChanges.current = true;
+            const delay = Math.min(SAVE_RETRY_BASE_DELAY_MS * 2 ** retryAttemptRef.current, SAVE_RETRY_MAX_DELAY_MS);
+            retryAttemptRef.current += 1;
+            console.warn(`[useItinerary Save] Save failed (${err.message}), retrying in ${delay}ms`);
+            setSaveStatus('offline');
+            retryTimerRef.current = setTimeout(saveNow, delay);
+        } finally {
+            isSaveInFlightRef.current = false;
+        }
+    }, [itineraryId, isLoggedIn, writeDraft, clearDraft, postSyncMessage]);
+
+    // Another tab saved a newer version: take it over, replaying any of our own unsaved edits on top.
+    // If those can't be merged, the user chooses like after a rejected save. While one of our saves is in
+    // flight (or a conflict is open) the version check on the server decides instead.
+    const handleSyncMessage = useCallback((message: ItinerarySyncMessage) => {
+        if (message.type === 'startDate') {
+            setStartDate(message.startDate);
+            return;
+        }
+        if (message.version <= versionRef.current || isSaveInFlightRef.current || saveConflict) return;
+
+        const mergedDays = hasPendingChanges.current
+            ? mergeItineraryDays(lastSavedDaysRef.current, daysRef.current, message.days)
+            : message.days;
+        if (!mergedDays) {
+            console.warn(`[useItinerary Sync] Can't merge local changes onto version ${message.version}`);
+            if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+            if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+            saveTimerRef.current = null;
+            retryTimerRef.current = null;
+            setSaveConflict({ days: message.days, startDate, version: message.version, canMerge: false });
+            return;
         }
 
-        // Cleanup timer on unmount or dependency change
+        console.log(`[useItinerary Sync] Another tab saved version ${message.version}`);
+        versionRef.current = message.version;
+        lastSavedDaysRef.current = message.days;
+        // Undo history was recorded against the old version, so it no longer applies
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        setHistoryState({ canUndo: false, canRedo: false });
+
+        daysRef.current = mergedDays;
+        setDays(mergedDays);
+        hasPendingChanges.current = JSON.stringify(mergedDays) !== JSON.stringify(message.days);
+        if (!hasPendingChanges.current) {
+            if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+            saveTimerRef.current = null;
+            clearDraft();
+            setSaveStatus('saved');
+        }
+    }, [saveConflict, startDate, clearDraft]);
+
+    useEffect(() => {
+        if (!itineraryId || typeof BroadcastChannel === 'undefined') return;
+        const channel = new BroadcastChannel(`${SYNC_CHANNEL_PREFIX}${itineraryId}`);
+        channel.onmessage = (e: MessageEvent<ItinerarySyncMessage>) => handleSyncMessage(e.data);
+        syncChannelRef.current = channel;
         return () => {
-            if (saveTimerRef.current) {
-                clearTimeout(saveTimerRef.current);
-            }
+            channel.close();
+            syncChannelRef.current = null;
         };
+    }, [itineraryId, handleSyncMessage]);
+
+    // Retry straight away when the browser reports the connection is back
+    useEffect(() => {
+        const handleOnline = () => {
+            if (!retryTimerRef.current) return;
+            clearTimeout(retryTimerRef.current);
+            retryAttemptRef.current = 0;
+            saveNow();
+        };
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [saveNow]);
+
+    // Stop pending timers when leaving the page; the draft keeps the edits
+    useEffect(() => () => {
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    }, []);
+
+    // Warn before closing or reloading the tab while edits haven't reached the server
+    useEffect(() => {
+        if (saveStatus === 'saved') return;
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+            e.returnValue = '';
+        };
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [saveStatus]);
+
+    useEffect(() => {
+        // Conditions to prevent saving
+        // Ensure auth is initialized AND user is logged in AND itinerary data is initialized
+        if (!itineraryId || !isAuthInitialized || !isLoggedIn || isAuthLoading || !isItineraryDataInitialized.current || saveConflict) {
+             console.log(`[useItinerary Save Effect] Skipping save check. Conditions: itineraryId=${itineraryId}, isAuthInitialized=${isAuthInitialized}, isLoggedIn=${isLoggedIn}, isAuthLoading=${isAuthLoading}, isItineraryDataInitialized=${isItineraryDataInitialized.current}`);
+            return;
+        }
+
+        if (!hasPendingChanges.current) return;
+
+        writeDraft();
+        // A scheduled retry will pick up these edits too
+        if (retryTimerRef.current) return;
+
+        console.log('[useItinerary Save Effect] Pending changes detected. Setting save timer.');
+        if (saveTimerRef.current) {
+            clearTimeout(saveTimerRef.current);
+        }
+        saveTimerRef.current = setTimeout(saveNow, SAVE_DELAY_MS);
     // Depend on 'days' stringified to trigger save accurately when content changes
-    }, [JSON.stringify(days), itineraryId, isLoggedIn, isAuthInitialized, isAuthLoading]);
+    }, [JSON.stringify(days), itineraryId, isLoggedIn, isAuthInitialized, isAuthLoading, saveConflict, writeDraft, saveNow]);
 
 
     // --- Return Values ---
     return {
         days,
+        startDate,
         // Combine loading states: true if auth is loading OR itinerary data isn't initialized yet
         isLoading: isAuthLoading || isLoading,
-        isSaving,
+        saveStatus,
+        saveError,
+        discardUnsavedChanges,
         error,
+        routePreview,
+        saveConflict,
+        mergeSaveConflict,
+        reloadFromSaveConflict,
+        canUndo: historyState.canUndo,
+        canRedo: historyState.canRedo,
+        undo,
+        redo,
         addDay,
         removeDay,
+        insertDay,
+        splitDay,
+        mergeDays,
+        duplicateDay,
         addLocationToDay,
         removeLocationFromDay,
+        purgeLocation,
+        replaceDays,
+        reorderDay,
+        moveLocation,
+        updateStopSchedule,
+        updateStopNote,
+        updateStopCost,
+        updateStartDate,
+        previewOptimizedOrder,
+        acceptRoutePreview,
+        discardRoutePreview,
         // fetchItinerary // Expose if manual refresh is needed
     };
 }
\ No newline at end of file
@@ -14,7 +14,75 @@ export const MARKER_CONFIG = {
   anchorRatioY: 1.0, // Ratio for vertical anchor point (higher = pin appears higher above the coordinate)
   defaultColor: '#3b82f6', // Default blue color (Tailwind blue-500)
   defaultHighlightColor: '#1D4ED8', // Darker blue (Tailwind blue-700)
-  plannerColor: '#f97316', // Orange color (Tailwind orange-500)
-  plannerHighlightColor: '#ea580c', // Darker orange (Tailwind orange-700)
+  multiDayBadgeColor: '#111827', // "+N" badge on places planned on several days (Tailwind gray-900)
+  customPlaceColor: '#8b5cf6', // Purple for the user's own places (Tailwind violet-500)
+  customPlaceHighlightColor: '#6d28d9', // Darker purple (Tailwind violet-700)
   textColor: '#ffffff', // Color for text/circle inside the pin
 };
+
+// Trip dates are always calendar days in Tokyo, whatever the browser's timezone
+export const TRIP_TIME_ZONE = 'Asia/Tokyo';
+
+// Day timeline configuration for stop start times and durations
+export const SCHEDULE_CONFIG = {
+  defaultDayEndHour: 22, // Days with stops ending after this hour (local Tokyo time) are flagged
+  dayEndHourOptions: [18, 19, 20, 21, 22, 23, 24],
+  timelineStartHour: 8, // Timeline starts here unless a stop starts earlier
+  durationStepMinutes: 15,
+  dayEndHourStorageKey: 'planner-day-end-hour',
+} as const;
+
+// Longest personal note allowed on an itinerary stop
+export const STOP_NOTE_MAX_LENGTH = 2000;
+
+// User-owned custom places (hotel, booked restaurant, ...)
+export const CUSTOM_PLACE_CONFIG = {
+  idPrefix: 'custom-', // Client-side LocationData ids are "custom-<user_places.id>"
+  category: 'My place',
+  nameMaxLength: 100,
+  addressMaxLength: 200,
+  notesMaxLength: 2000,
+} as const;
+
+// Offline travel time estimates between stops (straight-line distance with rough detour factors)
+export const TRAVEL_ESTIMATE_CONFIG = {
+  walkingSpeedKmh: 4.5,
+  walkingDetourFactor: 1.3, // Streets are longer than the straight line
+  transitSpeedKmh: 25, // Average door-to-door speed on trains/metro once aboard
+  transitDetourFactor: 1.2,
+  transitOverheadMinutes: 10, // Walking to/from stations, waiting and transfers
+  longWalkKm: 2, // Legs longer than this are flagged as a long walk
+  maxWalkKm: 4, // Legs longer than this are flagged as unrealistic to walk
+} as const;
+
+// Colours for itinerary days (routes and stop markers on the planner map); repeats after the last colour
+export const DAY_COLOR_PALETTE = [
+  '#f97316', // orange-500
+  '#2563eb', // blue-600
+  '#16a34a', // green-600
+  '#db2777', // pink-600
+  '#9333ea', // purple-600
+  '#0d9488', // teal-600
+  '#ca8a04', // yellow-600
+  '#dc2626', // red-600
+] as const;
+
+// Importing itineraries from JSON, CSV, KML and GeoJSON files
+export const IMPORT_CONFIG = {
+  maxFileBytes: 2 * 1024 * 1024,
+  maxRows: 500,
+  matchRadiusKm: 0.15, // An imported point this close to a catalog location is taken to be that location
+  maxTextLength: 20000, // Pasted trip text, in characters
+} as const;
+
+// Version history of itineraries (see create_itinerary_snapshot in supabase-schema.sql)
+export const SNAPSHOT_CONFIG = {
+  autoIntervalMinutes: 30, // At most one automatic snapshot per itinerary in this time, taken before a save
+  labelMaxLength: 80,
+} as const;
+
+// Trip budget: typical cost estimates per location and per-stop overrides
+export const BUDGET_CONFIG = {
+  defaultCurrency: 'JPY', // Currency of custom places and locations without one of their own
+  maxCostAmount: 10000000, // Largest per-stop override accepted
+} as const;
@@ -0,0 +1,38 @@
+// lib/custom-places.ts
+import { CUSTOM_PLACE_CONFIG } from "@/lib/constants";
+import type { LocationData } from "@/lib/types";
+
+// Row shape of public.user_places
+export interface CustomPlaceRow {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  notes: string | null;
+}
+
+export function toCustomPlaceLocationId(placeId: number): string {
+  return `${CUSTOM_PLACE_CONFIG.idPrefix}${placeId}`;
+}
+
+// Returns the user_places id for a custom place LocationData id, or null for catalog locations
+export function parseCustomPlaceId(locationId: string): number | null {
+  if (!locationId.startsWith(CUSTOM_PLACE_CONFIG.idPrefix)) return null;
+  const placeId = Number(locationId.slice(CUSTOM_PLACE_CONFIG.idPrefix.length));
+  return Number.isInteger(placeId) && placeId > 0 ? placeId : null;
+}
+
+// Custom places are shaped like catalog locations so the planner can treat them the same way
+export function customPlaceToLocationData(place: CustomPlaceRow): LocationData {
+  return {
+    id: toCustomPlaceLocationId(place.id),
+    name: place.name,
+    description: place.notes ?? '',
+    category: CUSTOM_PLACE_CONFIG.category,
+    coordinates: [place.latitude, place.longitude],
+    images: [],
+    isCustom: true,
+    address: place.address ?? undefined,
+  };
+}
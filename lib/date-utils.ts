@@ -0,0 +1,73 @@
+// lib/date-utils.ts
+import { TRIP_TIME_ZONE } from "@/lib/constants";
+
+// Trip dates are stored and passed around as plain 'YYYY-MM-DD' strings (Postgres DATE).
+// All formatting goes through Intl with the Tokyo timezone so a trip never shifts by a
+// day for travellers whose browser is set to another timezone.
+
+const DATE_STRING_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_STRING_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// Midnight in Tokyo for the given calendar day
+function toTokyoDate(dateString: string): Date {
+  return new Date(`${dateString}T00:00:00+09:00`);
+}
+
+// Today's calendar date in Tokyo
+export function getTodayInTokyo(): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: TRIP_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+}
+
+export function addDaysToDateString(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().slice(0, 10);
+}
+
+// Calendar date of a day in the trip (dayNumber starts at 1)
+export function getTripDayDate(startDate: string, dayNumber: number): string;
+export function getTripDayDate(startDate: string | null | undefined, dayNumber: number): string | null;
+export function getTripDayDate(startDate: string | null | undefined, dayNumber: number): string | null {
+  if (!startDate) return null;
+  return addDaysToDateString(startDate, dayNumber - 1);
+}
+
+// Last day of the trip, derived from the start date and the number of days
+export function getTripEndDate(startDate: string | null | undefined, dayCount: number): string | null {
+  if (!startDate || dayCount < 1) return null;
+  return addDaysToDateString(startDate, dayCount - 1);
+}
+
+// e.g. "Mon, Apr 7"
+export function formatTripDate(dateString: string, options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' }): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone: TRIP_TIME_ZONE, ...options }).format(toTokyoDate(dateString));
+}
+
+// e.g. "Apr 7 – Apr 10, 2025" (or a single date for one-day trips)
+export function formatTripDateRange(startDate: string, endDate: string | null): string {
+  const withYear: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  if (!endDate || endDate === startDate) {
+    return formatTripDate(startDate, withYear);
+  }
+  return `${formatTripDate(startDate, { month: 'short', day: 'numeric' })} – ${formatTripDate(endDate, withYear)}`;
+}
+
+// The calendar hands back a local-midnight Date for the clicked day; keep that calendar day
+export function pickerDateToDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Inverse of pickerDateToDateString, for showing a stored date as selected in the calendar
+export function dateStringToPickerDate(dateString: string): Date {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
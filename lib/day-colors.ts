@@ -0,0 +1,7 @@
+import { DAY_COLOR_PALETTE } from "@/lib/constants"
+
+// Colour for a day number (1-based), cycling through the palette for long trips
+export function getDayColor(dayNumber: number): string {
+  const index = ((dayNumber - 1) % DAY_COLOR_PALETTE.length + DAY_COLOR_PALETTE.length) % DAY_COLOR_PALETTE.length
+  return DAY_COLOR_PALETTE[index]
+}
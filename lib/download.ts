@@ -0,0 +1,14 @@
+// lib/download.ts
+
+// Content-Disposition value for a file download. Non-ASCII names (e.g. Japanese itinerary names)
+// get an ASCII fallback plus the full UTF-8 name in filename* (RFC 6266).
+export function getAttachmentDisposition(filename: string): string {
+  const asciiName = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// File-system friendly base name for an export, e.g. "Spring in Tokyo" -> "Spring-in-Tokyo"
+export function toDownloadBaseName(name: string, fallback = 'itinerary'): string {
+  const baseName = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-');
+  return baseName || fallback;
+}
@@ -0,0 +1,58 @@
+// lib/geo.ts
+// Offline geo helpers for itinerary stops. Everything here works from coordinates alone,
+// without calling a routing service.
+import { TRAVEL_ESTIMATE_CONFIG } from '@/lib/constants';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two [lat, lng] points, in kilometres
+export function haversineDistanceKm(from: [number, number], to: [number, number]): number {
+  const dLat = toRadians(to[0] - from[0]);
+  const dLng = toRadians(to[1] - from[1]);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from[0])) * Math.cos(toRadians(to[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Total straight-line distance when visiting the points in order
+export function getPathDistanceKm(points: [number, number][]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineDistanceKm(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// e.g. "850 m", "3.2 km", "12 km"
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) return `${Math.round(distanceKm * 1000 / 10) * 10} m`;
+  if (distanceKm < 10) return `${distanceKm.toFixed(1)} km`;
+  return `${Math.round(distanceKm)} km`;
+}
+
+export type WalkWarning = 'none' | 'long' | 'too-far';
+
+export interface TravelEstimate {
+  distanceKm: number; // Straight-line
+  walkingMinutes: number;
+  transitMinutes: number;
+  walkWarning: WalkWarning;
+}
+
+// Rough walking and transit times for a straight-line distance
+export function estimateTravel(distanceKm: number): TravelEstimate {
+  const config = TRAVEL_ESTIMATE_CONFIG;
+  const walkingMinutes = Math.round((distanceKm * config.walkingDetourFactor / config.walkingSpeedKmh) * 60);
+  const transitMinutes = Math.round((distanceKm * config.transitDetourFactor / config.transitSpeedKmh) * 60 + config.transitOverheadMinutes);
+  let walkWarning: WalkWarning = 'none';
+  if (distanceKm > config.maxWalkKm) walkWarning = 'too-far';
+  else if (distanceKm > config.longWalkKm) walkWarning = 'long';
+  return { distanceKm, walkingMinutes, transitMinutes, walkWarning };
+}
+
+// Estimates for each leg between consecutive points (one fewer than the number of points)
+export function estimatePathLegs(points: [number, number][]): TravelEstimate[] {
+  return points.slice(1).map((point, index) => estimateTravel(haversineDistanceKm(points[index], point)));
+}
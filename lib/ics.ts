@@ -0,0 +1,200 @@
+// lib/ics.ts
+import type { ItineraryDay, LocationData } from '@/lib/types';
+import { TRIP_TIME_ZONE } from '@/lib/constants';
+import { addDaysToDateString, getTripDayDate } from '@/lib/date-utils';
+import { isValidTimeString, timeStringToMinutes } from '@/lib/itinerary-schedule';
+import { formatCostTotals, formatStopCost, getTripCostTotals, sumStopCosts } from '@/lib/itinerary-budget';
+
+// iCalendar (RFC 5545) export of an itinerary: one event per stop, or one all-day event
+// per day when none of the day's stops has a start time.
+
+// Length of a timed stop without a planned duration, so it still shows up as a block in calendars
+const DEFAULT_EVENT_MINUTES = 60;
+
+// Tokyo has no daylight saving time, so one fixed STANDARD component describes it fully
+const TOKYO_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TRIP_TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0900',
+  'TZOFFSETTO:+0900',
+  'TZNAME:JST',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export interface ItineraryCalendarInput {
+  id: number;
+  name: string;
+  startDate: string; // 'YYYY-MM-DD'; events can't be placed without it
+  days: ItineraryDay[];
+}
+
+interface ItineraryCalendarOptions {
+  baseUrl: string; // Origin used for links back to /location/[slug], e.g. "https://example.com"
+  now?: Date; // DTSTAMP; defaults to the current time
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// 'YYYY-MM-DD' -> 'YYYYMMDD'
+function toIcsDate(dateString: string): string {
+  return dateString.replace(/-/g, '');
+}
+
+// Local Tokyo date-time for a day plus minutes since midnight (may run into the next day)
+function toIcsLocalDateTime(dateString: string, minutes: number): string {
+  const date = addDaysToDateString(dateString, Math.floor(minutes / (24 * 60)));
+  const minutesOfDay = minutes % (24 * 60);
+  const hours = String(Math.floor(minutesOfDay / 60)).padStart(2, '0');
+  const mins = String(minutesOfDay % 60).padStart(2, '0');
+  return `${toIcsDate(date)}T${hours}${mins}00`;
+}
+
+function toIcsUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function getLocationUrl(location: LocationData, baseUrl: string): string | null {
+  return location.isCustom ? null : `${baseUrl}/location/${encodeURIComponent(location.id)}`;
+}
+
+// Description, note, cost and link of a stop as plain text
+function describeStop(location: LocationData, baseUrl: string): string {
+  const url = getLocationUrl(location, baseUrl);
+  const cost = formatStopCost(location);
+  return [
+    location.isCustom ? location.address : location.description,
+    location.note && `Note: ${location.note}`,
+    cost && `Estimated cost: ${cost}`,
+    url,
+  ].filter(Boolean).join('\n\n');
+}
+
+function buildStopEvent(location: LocationData, date: string, uid: string, dtstamp: string, baseUrl: string): string[] {
+  const isTimed = isValidTimeString(location.startTime);
+  const timing = isTimed
+    ? (() => {
+      const start = timeStringToMinutes(location.startTime!);
+      const end = start + (location.durationMinutes ?? DEFAULT_EVENT_MINUTES);
+      return [
+        `DTSTART;TZID=${TRIP_TIME_ZONE}:${toIcsLocalDateTime(date, start)}`,
+        `DTEND;TZID=${TRIP_TIME_ZONE}:${toIcsLocalDateTime(date, end)}`,
+      ];
+    })()
+    : [`DTSTART;VALUE=DATE:${toIcsDate(date)}`, `DTEND;VALUE=DATE:${toIcsDate(addDaysToDateString(date, 1))}`];
+  const url = getLocationUrl(location, baseUrl);
+  const description = describeStop(location, baseUrl);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${dtstamp}`,
+    ...timing,
+    `SUMMARY:${escapeText(location.name)}`,
+    `LOCATION:${escapeText(location.address ? `${location.name}, ${location.address}` : location.name)}`,
+    `GEO:${location.coordinates[0]};${location.coordinates[1]}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(url ? [`URL:${url}`] : []),
+    // All-day stops shouldn't block out the whole day in free/busy views
+    `TRANSP:${isTimed ? 'OPAQUE' : 'TRANSPARENT'}`,
+    'END:VEVENT',
+  ];
+}
+
+// A day without any times becomes a single all-day event listing its stops in order
+function buildDayEvent(day: ItineraryDay, itineraryName: string, date: string, uid: string, dtstamp: string, baseUrl: string): string[] {
+  const stopList = day.locations
+    .map((location, index) => {
+      const url = getLocationUrl(location, baseUrl);
+      const cost = formatStopCost(location);
+      return [`${index + 1}. ${location.name}${cost ? ` (${cost})` : ''}`, location.note, url].filter(Boolean).join('\n');
+    })
+    .join('\n\n');
+  const costTotal = formatCostTotals(sumStopCosts(day.locations));
+  const description = [stopList, costTotal && `Estimated cost: ${costTotal}`].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+    `DTEND;VALUE=DATE:${toIcsDate(addDaysToDateString(date, 1))}`,
+    `SUMMARY:${escapeText(`${itineraryName}: Day ${day.id}`)}`,
+    ...(day.locations.length > 0 ? [`LOCATION:${escapeText(day.locations.map(location => location.name).join(', '))}`] : []),
+    // GEO takes a single point; use the day's first stop
+    ...(day.locations.length > 0 ? [`GEO:${day.locations[0].coordinates[0]};${day.locations[0].coordinates[1]}`] : []),
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Builds the .ics file for an itinerary. Days with at least one timed stop get one event per stop
+ * (untimed stops on those days become all-day events); days without times get one all-day event.
+ * Empty days are left out.
+ */
+export function buildItineraryCalendar(itinerary: ItineraryCalendarInput, { baseUrl, now = new Date() }: ItineraryCalendarOptions): string {
+  const dtstamp = toIcsUtcDateTime(now);
+  const uidDomain = new URL(baseUrl).hostname;
+  const events = itinerary.days
+    .filter(day => day.locations.length > 0)
+    .flatMap(day => {
+      const date = getTripDayDate(itinerary.startDate, day.id);
+      const uidPrefix = `itinerary-${itinerary.id}-day-${day.id}`;
+      if (!day.locations.some(location => isValidTimeString(location.startTime))) {
+        return buildDayEvent(day, itinerary.name, date, `${uidPrefix}@${uidDomain}`, dtstamp, baseUrl);
+      }
+      return day.locations.flatMap(location => (
+        buildStopEvent(location, date, `${uidPrefix}-${location.id}@${uidDomain}`, dtstamp, baseUrl)
+      ));
+    });
+
+  const tripCostTotal = formatCostTotals(getTripCostTotals(itinerary.days));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Tokyo Guide//Itinerary Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(itinerary.name)}`,
+    `X-WR-TIMEZONE:${TRIP_TIME_ZONE}`,
+    ...(tripCostTotal ? [`X-WR-CALDESC:${escapeText(`Estimated cost: ${tripCostTotal}`)}`] : []),
+    ...TOKYO_VTIMEZONE,
+    ...events,
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
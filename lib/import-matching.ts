@@ -0,0 +1,68 @@
+// lib/import-matching.ts
+import type { LocationData } from '@/lib/types';
+import type { ImportRow } from '@/lib/itinerary-import';
+import { IMPORT_CONFIG } from '@/lib/constants';
+import { haversineDistanceKm } from '@/lib/geo';
+
+export type ImportMatchMethod = 'id' | 'name' | 'coordinates';
+
+export interface ImportMatch {
+  location: LocationData | null; // Catalog location the row refers to, or null if nothing matched
+  method: ImportMatchMethod | null;
+  distanceKm?: number; // For coordinate matches
+}
+
+// Case, width, accents and punctuation are ignored: "Sensō-ji" matches "Senso-ji" and "SENSOJI"
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    // Whitespace, ASCII punctuation, curly quotes and Japanese punctuation (、。・)
+    .replace(/[\s!-/:-@[-`{-~\u2018\u2019\u201c\u201d\u3001\u3002\u30fb]+/g, '');
+}
+
+function findNearest(locations: LocationData[], coordinates: [number, number]): { location: LocationData; distanceKm: number } | null {
+  let nearest: { location: LocationData; distanceKm: number } | null = null;
+  for (const location of locations) {
+    const distanceKm = haversineDistanceKm(coordinates, location.coordinates);
+    if (!nearest || distanceKm < nearest.distanceKm) nearest = { location, distanceKm };
+  }
+  return nearest;
+}
+
+/**
+ * Matches imported rows to catalog locations, trying the id first, then the name (the nearest one
+ * if several places share it), then the closest location within IMPORT_CONFIG.matchRadiusKm.
+ * Custom places from another account are never matched by position: a hotel next to a temple isn't the temple.
+ */
+export function matchImportRows(rows: ImportRow[], locations: LocationData[]): ImportMatch[] {
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const byName = new Map<string, LocationData[]>();
+  locations.forEach(location => {
+    const key = normalizePlaceName(location.name);
+    byName.set(key, [...(byName.get(key) ?? []), location]);
+  });
+
+  return rows.map((row): ImportMatch => {
+    const idMatch = row.locationId ? byId.get(row.locationId) : undefined;
+    if (idMatch) return { location: idMatch, method: 'id' };
+
+    const nameMatches = byName.get(normalizePlaceName(row.name)) ?? [];
+    if (nameMatches.length > 0) {
+      const location = row.coordinates && nameMatches.length > 1
+        ? findNearest(nameMatches, row.coordinates)!.location
+        : nameMatches[0];
+      return { location, method: 'name' };
+    }
+
+    if (row.coordinates && !row.isCustom) {
+      const nearest = findNearest(locations, row.coordinates);
+      if (nearest && nearest.distanceKm <= IMPORT_CONFIG.matchRadiusKm) {
+        return { location: nearest.location, method: 'coordinates', distanceKm: nearest.distanceKm };
+      }
+    }
+
+    return { location: null, method: null };
+  });
+}
@@ -0,0 +1,91 @@
+// lib/itinerary-budget.ts
+import type { CostTotals, ItineraryDay, LocationData } from '@/lib/types';
+import { BUDGET_CONFIG } from '@/lib/constants';
+
+// What a stop's cost is worked out from
+export type StopCostFields = Pick<LocationData, 'costEstimate' | 'costCurrency' | 'isFree' | 'costOverride'>;
+
+export interface StopCost {
+  amount: number;
+  currency: string;
+  isOverride: boolean; // Entered by the user rather than the location's typical estimate
+}
+
+export function isValidCostAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= BUDGET_CONFIG.maxCostAmount;
+}
+
+// Three-letter ISO 4217 code, e.g. 'JPY'
+export function isValidCurrency(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+}
+
+export function getStopCurrency(location: StopCostFields): string {
+  return location.costCurrency ?? BUDGET_CONFIG.defaultCurrency;
+}
+
+// The user's override if set, otherwise nothing for free places, otherwise the location's typical estimate.
+// Null when none of these is known.
+export function getStopCost(location: StopCostFields): StopCost | null {
+  const currency = getStopCurrency(location);
+  if (location.costOverride !== undefined) return { amount: location.costOverride, currency, isOverride: true };
+  if (location.isFree) return { amount: 0, currency, isOverride: false };
+  if (location.costEstimate !== undefined) return { amount: location.costEstimate, currency, isOverride: false };
+  return null;
+}
+
+export function sumStopCosts(locations: StopCostFields[]): CostTotals {
+  const totals: CostTotals = { amounts: {}, unpricedCount: 0 };
+  locations.forEach(location => {
+    const cost = getStopCost(location);
+    if (!cost) {
+      totals.unpricedCount += 1;
+      return;
+    }
+    totals.amounts[cost.currency] = (totals.amounts[cost.currency] ?? 0) + cost.amount;
+  });
+  return totals;
+}
+
+export function getTripCostTotals(days: ItineraryDay[]): CostTotals {
+  return sumStopCosts(days.flatMap(day => day.locations));
+}
+
+// e.g. '¥3,500' or 'US$20.50'
+export function formatCost(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    }).format(amount);
+  } catch {
+    return `${amount} ${currency}`; // Unknown currency code
+  }
+}
+
+// A stop's cost as shown to users, e.g. 'Free' or '¥1,200'; null when it isn't known
+export function formatStopCost(location: StopCostFields): string | null {
+  const cost = getStopCost(location);
+  if (!cost) return null;
+  return cost.amount === 0 ? 'Free' : formatCost(cost.amount, cost.currency);
+}
+
+/**
+ * Totals as one line, e.g. '¥12,400 + US$30'. Free stops count as priced, so a day of free
+ * places comes out as '¥0'. Null when no stop has a cost, so callers can leave the total out.
+ */
+export function formatCostTotals(totals: CostTotals): string | null {
+  const currencies = Object.keys(totals.amounts).sort((a, b) => (
+    a === BUDGET_CONFIG.defaultCurrency ? -1 : b === BUDGET_CONFIG.defaultCurrency ? 1 : a.localeCompare(b)
+  ));
+  if (currencies.length === 0) return null;
+  return currencies.map(currency => formatCost(totals.amounts[currency], currency)).join(' + ');
+}
+
+// e.g. '2 stops without a cost estimate'
+export function describeUnpricedStops(totals: CostTotals): string | null {
+  if (totals.unpricedCount === 0) return null;
+  return `${totals.unpricedCount} ${totals.unpricedCount === 1 ? 'stop' : 'stops'} without a cost estimate`;
+}
@@ -0,0 +1,84 @@
+// lib/itinerary-days.ts
+import type { ItineraryDay } from '@/lib/types';
+
+// A change to the days themselves, for keeping anything that refers to days by number (e.g. the map's day filter) in step
+export type DayOperation =
+  | { type: 'insert'; dayId: number } // New empty day numbered dayId
+  | { type: 'split'; dayId: number } // Second half becomes dayId + 1
+  | { type: 'merge'; dayId: number } // dayId + 1 joins dayId
+  | { type: 'duplicate'; dayId: number } // Copy becomes dayId + 1
+  | { type: 'remove'; dayId: number };
+
+// Days are numbered 1..n in order
+function renumberDays(days: ItineraryDay[]): ItineraryDay[] {
+  return days.map((day, index) => (day.id === index + 1 ? day : { ...day, id: index + 1 }));
+}
+
+// Insert an empty day so it becomes day `dayId` (1 to days.length + 1); later days move up by one
+export function insertItineraryDay(days: ItineraryDay[], dayId: number): ItineraryDay[] {
+  const index = Math.max(0, Math.min(dayId - 1, days.length));
+  return renumberDays([...days.slice(0, index), { id: index + 1, locations: [] }, ...days.slice(index)]);
+}
+
+// Move the stops from `atIndex` on into a new day right after; needs at least one stop on either side
+export function splitItineraryDay(days: ItineraryDay[], dayId: number, atIndex: number): ItineraryDay[] {
+  const index = days.findIndex(day => day.id === dayId);
+  const day = days[index];
+  if (!day || atIndex <= 0 || atIndex >= day.locations.length) return days;
+  return renumberDays([
+    ...days.slice(0, index),
+    { ...day, locations: day.locations.slice(0, atIndex) },
+    { id: dayId + 1, locations: day.locations.slice(atIndex) },
+    ...days.slice(index + 1),
+  ]);
+}
+
+// Append the next day's stops to this day and drop the next day. A place already on this day
+// keeps its first visit (a place can only be on a day once).
+export function mergeItineraryDayWithNext(days: ItineraryDay[], dayId: number): ItineraryDay[] {
+  const index = days.findIndex(day => day.id === dayId);
+  const day = days[index];
+  const nextDay = days[index + 1];
+  if (!day || !nextDay) return days;
+  const placeIds = new Set(day.locations.map(location => location.id));
+  return renumberDays([
+    ...days.slice(0, index),
+    { ...day, locations: [...day.locations, ...nextDay.locations.filter(location => !placeIds.has(location.id))] },
+    ...days.slice(index + 2),
+  ]);
+}
+
+// Copy a day, stops and their times and notes included, to right after it
+export function duplicateItineraryDay(days: ItineraryDay[], dayId: number): ItineraryDay[] {
+  const index = days.findIndex(day => day.id === dayId);
+  const day = days[index];
+  if (!day) return days;
+  return renumberDays([
+    ...days.slice(0, index + 1),
+    { id: dayId + 1, locations: day.locations.map(location => ({ ...location })) },
+    ...days.slice(index + 1),
+  ]);
+}
+
+/**
+ * Where day numbers end up after a day operation. A day that was split or duplicated stays
+ * selected along with its new half or copy; a removed day is dropped.
+ */
+export function remapDayIds(dayIds: number[], op: DayOperation): number[] {
+  const remapped = dayIds.flatMap((id): number[] => {
+    switch (op.type) {
+      case 'insert':
+        return [id >= op.dayId ? id + 1 : id];
+      case 'split':
+      case 'duplicate':
+        if (id === op.dayId) return [id, id + 1];
+        return [id > op.dayId ? id + 1 : id];
+      case 'merge':
+        return [id > op.dayId ? id - 1 : id];
+      case 'remove':
+        if (id === op.dayId) return [];
+        return [id > op.dayId ? id - 1 : id];
+    }
+  });
+  return Array.from(new Set(remapped)).sort((a, b) => a - b);
+}
@@ -0,0 +1,61 @@
+// lib/itinerary-file.ts
+import type { CostTotals, ItineraryDay } from '@/lib/types';
+import { getStopCurrency, getTripCostTotals, sumStopCosts } from '@/lib/itinerary-budget';
+
+// Versioned JSON export of an itinerary, meant to be imported again (by the same or another user).
+// Bump ITINERARY_FILE_VERSION when the shape changes and keep reading the older versions.
+
+export const ITINERARY_FILE_FORMAT = 'tokyo-guide-itinerary';
+export const ITINERARY_FILE_VERSION = 1;
+
+export interface ItineraryFileStop {
+  id: string; // Catalog location id, or "custom-<n>" for the exporting user's custom places
+  name: string;
+  coordinates: [number, number]; // [lat, lng]
+  category: string;
+  isCustom?: boolean;
+  address?: string;
+  startTime?: string;
+  durationMinutes?: number;
+  note?: string;
+  costOverride?: number; // In costCurrency
+  costCurrency?: string;
+}
+
+export interface ItineraryFile {
+  format: typeof ITINERARY_FILE_FORMAT;
+  version: number;
+  name: string;
+  startDate: string | null;
+  days: { day: number; stops: ItineraryFileStop[]; costTotals?: CostTotals }[];
+  costTotals?: CostTotals; // Estimated cost of the stops, for reading the file; ignored on import
+}
+
+export function buildItineraryFile(name: string, startDate: string | null, days: ItineraryDay[]): ItineraryFile {
+  return {
+    format: ITINERARY_FILE_FORMAT,
+    version: ITINERARY_FILE_VERSION,
+    name,
+    startDate,
+    days: days.map(day => ({
+      day: day.id,
+      stops: day.locations.map(location => ({
+        id: location.id,
+        name: location.name,
+        coordinates: location.coordinates,
+        category: location.category,
+        ...(location.isCustom && { isCustom: true, address: location.address }),
+        ...(location.startTime && { startTime: location.startTime }),
+        ...(location.durationMinutes && { durationMinutes: location.durationMinutes }),
+        ...(location.note && { note: location.note }),
+        ...(location.costOverride !== undefined && { costOverride: location.costOverride, costCurrency: getStopCurrency(location) }),
+      })),
+      costTotals: sumStopCosts(day.locations),
+    })),
+    costTotals: getTripCostTotals(days),
+  };
+}
+
+export function isItineraryFile(value: unknown): value is ItineraryFile {
+  return typeof value === 'object' && value !== null && (value as ItineraryFile).format === ITINERARY_FILE_FORMAT;
+}
@@ -0,0 +1,82 @@
+// lib/itinerary-history.ts
+import type { ItineraryDay, LocationData } from '@/lib/types';
+
+// What changed between two versions of an itinerary, as the places involved
+export interface ItineraryChangeSummary {
+  added: LocationData[];
+  removed: LocationData[];
+  moved: LocationData[]; // To another day, or to another place in the order of the same day
+}
+
+// Indexes (into order) of the longest run that is already in increasing order; everything else has to move
+function longestIncreasingRun(order: number[]): Set<number> {
+  const lengths = order.map(() => 1);
+  const previous = order.map(() => -1);
+  order.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (order[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+  const kept = new Set<number>();
+  let index = lengths.indexOf(Math.max(0, ...lengths));
+  while (index !== -1) {
+    kept.add(index);
+    index = previous[index];
+  }
+  return kept;
+}
+
+/**
+ * Compares two versions of an itinerary's days. A stop that went to another day counts as moved, not as
+ * removed and added; within a day only the stops that broke the order count as moved (moving one stop to the
+ * front moves one stop, not all the ones after it). Stop times and notes are not compared.
+ */
+export function summarizeItineraryChanges(before: ItineraryDay[], after: ItineraryDay[]): ItineraryChangeSummary {
+  const summary: ItineraryChangeSummary = { added: [], removed: [], moved: [] };
+  const beforeDays = new Map(before.map(day => [day.id, day.locations]));
+  const afterDays = new Map(after.map(day => [day.id, day.locations]));
+
+  // Stops only in one version, per place (a place can be planned on several days)
+  const addedByPlace = new Map<string, LocationData[]>();
+  const removedByPlace = new Map<string, LocationData[]>();
+  const collect = (from: Map<number, LocationData[]>, other: Map<number, LocationData[]>, into: Map<string, LocationData[]>) => {
+    from.forEach((locations, dayId) => {
+      const otherIds = new Set((other.get(dayId) ?? []).map(loc => loc.id));
+      locations.filter(loc => !otherIds.has(loc.id)).forEach(loc => into.set(loc.id, [...(into.get(loc.id) ?? []), loc]));
+    });
+  };
+  collect(afterDays, beforeDays, addedByPlace);
+  collect(beforeDays, afterDays, removedByPlace);
+
+  addedByPlace.forEach((added, placeId) => {
+    const movedCount = Math.min(added.length, removedByPlace.get(placeId)?.length ?? 0);
+    summary.moved.push(...added.slice(0, movedCount));
+    summary.added.push(...added.slice(movedCount));
+  });
+  removedByPlace.forEach((removed, placeId) => {
+    summary.removed.push(...removed.slice(addedByPlace.get(placeId)?.length ?? 0));
+  });
+
+  // Reordered stops on days present in both versions
+  afterDays.forEach((afterLocations, dayId) => {
+    const beforeIds = (beforeDays.get(dayId) ?? []).map(loc => loc.id);
+    const shared = afterLocations.filter(loc => beforeIds.includes(loc.id));
+    const kept = longestIncreasingRun(shared.map(loc => beforeIds.indexOf(loc.id)));
+    summary.moved.push(...shared.filter((_, index) => !kept.has(index)));
+  });
+
+  return summary;
+}
+
+// e.g. "2 stops added, 1 removed, 3 moved"
+export function describeItineraryChanges(summary: ItineraryChangeSummary): string {
+  const counts = ([['added', summary.added.length], ['removed', summary.removed.length], ['moved', summary.moved.length]] as const)
+    .filter(([, count]) => count > 0);
+  if (counts.length === 0) return 'No changes';
+  return counts
+    .map(([what, count], index) => (index === 0 ? `${count} ${count === 1 ? 'stop' : 'stops'} ${what}` : `${count} ${what}`))
+    .join(', ');
+}
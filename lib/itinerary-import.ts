@@ -0,0 +1,363 @@
+// lib/itinerary-import.ts
+// Reading itineraries from files: our versioned JSON export, CSV spreadsheets, and KML/GeoJSON
+// placemarks (e.g. a Google My Maps layer). Every format is reduced to rows of (day, place reference),
+// which are then matched against the catalog (lib/import-matching.ts).
+import { BUDGET_CONFIG, IMPORT_CONFIG } from '@/lib/constants';
+import { ITINERARY_FILE_VERSION, isItineraryFile } from '@/lib/itinerary-file';
+import { isValidDurationMinutes, isValidTimeString } from '@/lib/itinerary-schedule';
+import { isValidDateString } from '@/lib/date-utils';
+import { isValidCostAmount, isValidCurrency } from '@/lib/itinerary-budget';
+
+export interface ImportRow {
+  day: number; // Day number from the file (1-based); days are renumbered in order when the itinerary is created
+  name: string; // What the file calls the place; shown in the review step
+  locationId?: string; // Catalog id, if the file has one
+  coordinates?: [number, number]; // [lat, lng]
+  address?: string;
+  isCustom?: boolean; // A custom place in the exporting user's account; only matched by name
+  startTime?: string;
+  durationMinutes?: number;
+  note?: string;
+  costOverride?: number;
+}
+
+export interface ParsedImport {
+  name: string | null; // Itinerary name from the file, if it has one
+  startDate: string | null;
+  rows: ImportRow[];
+}
+
+// Body of POST /api/itineraries/import once the user has reviewed the matches.
+// Each stop is either a catalog location or a new custom place.
+export interface ImportStopInput {
+  locationId?: string;
+  customPlace?: { name: string; latitude: number; longitude: number; address?: string };
+  startTime?: string;
+  durationMinutes?: number;
+  note?: string;
+  costOverride?: number;
+}
+
+export interface ImportItineraryRequest {
+  name: string;
+  startDate: string | null;
+  days: { stops: ImportStopInput[] }[]; // In order; numbered 1..n
+}
+
+export type ImportFileType = 'json' | 'csv' | 'kml' | 'geojson';
+
+export const IMPORT_FILE_ACCEPT = '.json,.geojson,.csv,.kml,application/json,application/geo+json,text/csv,application/vnd.google-earth.kml+xml';
+
+// ---- Shared helpers ----
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'string' && value.trim() === '') return undefined; // Number('') is 0
+  const number = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function toDayNumber(value: unknown): number | undefined {
+  const number = toNumber(typeof value === 'string' ? value.replace(/^\s*day\s*/i, '') : value);
+  return number !== undefined && Number.isInteger(number) && number >= 1 ? number : undefined;
+}
+
+function toCoordinates(lat: unknown, lng: unknown): [number, number] | undefined {
+  const latitude = toNumber(lat);
+  const longitude = toNumber(lng);
+  if (latitude === undefined || longitude === undefined) return undefined;
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) return undefined;
+  return [latitude, longitude];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Our exports link stops to ".../location/<id>"; pick the id back out of such a link
+function locationIdFromUrl(url: unknown): string | undefined {
+  const match = typeof url === 'string' ? url.match(/\/location\/([^/?#]+)\/?(?:[?#].*)?$/) : null;
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+// Stop fields that only make sense if they're valid; anything else is dropped silently
+function scheduleFields(startTime: unknown, durationMinutes: unknown, note: unknown): Pick<ImportRow, 'startTime' | 'durationMinutes' | 'note'> {
+  const duration = toNumber(durationMinutes);
+  const text = optionalString(note);
+  return {
+    ...(typeof startTime === 'string' && isValidTimeString(startTime.trim()) && { startTime: startTime.trim() }),
+    ...(duration !== undefined && isValidDurationMinutes(duration) && { durationMinutes: duration }),
+    ...(text && { note: text }),
+  };
+}
+
+// Cost overrides are kept only in the default currency, which is what places in Tokyo (catalog or custom) are priced in
+function costFields(costOverride: unknown, costCurrency: unknown): Pick<ImportRow, 'costOverride'> {
+  const currency = isValidCurrency(costCurrency) ? costCurrency : BUDGET_CONFIG.defaultCurrency;
+  return isValidCostAmount(costOverride) && currency === BUDGET_CONFIG.defaultCurrency ? { costOverride } : {};
+}
+
+function stripHtml(value: string): string {
+  return value.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').trim();
+}
+
+// ---- JSON (our export) ----
+
+function parseItineraryJson(data: unknown): ParsedImport {
+  if (!isItineraryFile(data)) {
+    throw new Error("This JSON file isn't a Tokyo Guide itinerary export.");
+  }
+  if (!Number.isInteger(data.version) || data.version > ITINERARY_FILE_VERSION) {
+    throw new Error('This itinerary was exported by a newer version of the app. Please reload the page and try again.');
+  }
+  if (!Array.isArray(data.days)) {
+    throw new Error('The itinerary file has no days.');
+  }
+
+  const rows = data.days.flatMap((day, index) => {
+    const dayNumber = toDayNumber(day?.day) ?? index + 1;
+    return (Array.isArray(day?.stops) ? day.stops : []).map((stop): ImportRow => ({
+      day: dayNumber,
+      name: optionalString(stop?.name) ?? optionalString(stop?.id) ?? 'Unnamed place',
+      locationId: stop?.isCustom ? undefined : optionalString(stop?.id),
+      coordinates: Array.isArray(stop?.coordinates) ? toCoordinates(stop.coordinates[0], stop.coordinates[1]) : undefined,
+      address: optionalString(stop?.address),
+      isCustom: stop?.isCustom === true || undefined,
+      ...scheduleFields(stop?.startTime, stop?.durationMinutes, stop?.note),
+      ...costFields(stop?.costOverride, stop?.costCurrency),
+    }));
+  });
+
+  return {
+    name: optionalString(data.name) ?? null,
+    startDate: typeof data.startDate === 'string' && isValidDateString(data.startDate) ? data.startDate : null,
+    rows,
+  };
+}
+
+// ---- GeoJSON ----
+
+function parseGeoJson(data: any): ParsedImport {
+  const features: any[] = data?.type === 'FeatureCollection' ? (Array.isArray(data.features) ? data.features : [])
+    : data?.type === 'Feature' ? [data]
+      : [];
+
+  const points = features
+    .filter(feature => feature?.geometry?.type === 'Point' && Array.isArray(feature.geometry.coordinates))
+    .map((feature, index) => {
+      const properties = feature.properties ?? {};
+      const [lng, lat] = feature.geometry.coordinates;
+      const row: ImportRow = {
+        day: toDayNumber(properties.day) ?? 1,
+        name: optionalString(properties.name) ?? optionalString(properties.title) ?? optionalString(properties.Name) ?? `Place ${index + 1}`,
+        locationId: optionalString(properties.id) ?? locationIdFromUrl(properties.url),
+        coordinates: toCoordinates(lat, lng),
+        address: optionalString(properties.address),
+        ...scheduleFields(properties.startTime, properties.durationMinutes, properties.note),
+      };
+      return { row, stop: toNumber(properties.stop) ?? index + 1, index };
+    });
+
+  // Keep each day's stops in their stop order; the file order breaks ties
+  points.sort((a, b) => a.row.day - b.row.day || a.stop - b.stop || a.index - b.index);
+
+  return { name: optionalString(data?.name) ?? null, startDate: null, rows: points.map(point => point.row) };
+}
+
+// ---- KML ----
+
+function childText(element: Element, tagName: string): string | undefined {
+  const child = Array.from(element.children).find(node => node.localName === tagName);
+  return optionalString(child?.textContent ?? undefined);
+}
+
+function extendedData(placemark: Element): Record<string, string> {
+  const data: Record<string, string> = {};
+  placemark.querySelectorAll('ExtendedData Data').forEach(node => {
+    const key = node.getAttribute('name');
+    const value = Array.from(node.children).find(child => child.localName === 'value')?.textContent;
+    if (key && value) data[key] = value;
+  });
+  return data;
+}
+
+// Each folder (a Google My Maps layer, or a day in our export) becomes a day, in file order,
+// unless its name says which day it is ("Day 3"). Placemarks outside folders go to day 1.
+function parseKml(text: string): ParsedImport {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("This KML file couldn't be read.");
+  }
+
+  const folders = Array.from(document.getElementsByTagName('Folder'))
+    .filter(folder => Array.from(folder.children).some(child => child.localName === 'Placemark'));
+  const folderDay = new Map<Element, number>();
+  folders.forEach((folder, index) => {
+    const dayMatch = childText(folder, 'name')?.match(/day\s*(\d+)/i);
+    folderDay.set(folder, dayMatch ? Number(dayMatch[1]) : index + 1);
+  });
+
+  const rows = Array.from(document.getElementsByTagName('Placemark')).flatMap((placemark, index): ImportRow[] => {
+    const point = placemark.getElementsByTagName('Point')[0];
+    const coordinatesText = point?.getElementsByTagName('coordinates')[0]?.textContent?.trim();
+    if (!coordinatesText) return []; // Routes and areas aren't places
+    const [lng, lat] = coordinatesText.split(/[\s,]+/);
+    const data = extendedData(placemark);
+    const parent = placemark.parentElement;
+    const description = childText(placemark, 'description');
+    return [{
+      day: toDayNumber(data.day) ?? (parent && folderDay.get(parent)) ?? 1,
+      name: childText(placemark, 'name') ?? `Place ${index + 1}`,
+      locationId: optionalString(data.id) ?? locationIdFromUrl(data.url),
+      coordinates: toCoordinates(lat, lng),
+      address: childText(placemark, 'address') ?? optionalString(data.address),
+      ...scheduleFields(data.startTime, data.durationMinutes, data.note ?? (description && !data.description ? stripHtml(description) : undefined)),
+    }];
+  });
+
+  const documentElement = document.getElementsByTagName('Document')[0];
+  return { name: documentElement ? childText(documentElement, 'name') ?? null : null, startDate: null, rows };
+}
+
+// ---- CSV ----
+
+// RFC 4180 style: quoted fields may contain the delimiter, quotes ("") and line breaks
+function parseCsvRecords(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) => (
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  ), ',');
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(fields => fields.some(value => value.trim()));
+}
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  day: ['day', 'day number', 'day_number'],
+  id: ['id', 'location id', 'location_id', 'slug'],
+  name: ['name', 'location', 'place', 'title', 'location name'],
+  lat: ['lat', 'latitude'],
+  lng: ['lng', 'lon', 'long', 'longitude'],
+  address: ['address'],
+  startTime: ['time', 'start', 'start time', 'start_time', 'starttime'],
+  durationMinutes: ['duration', 'duration minutes', 'duration_minutes', 'minutes'],
+  note: ['note', 'notes', 'comment'],
+};
+
+// With a header row, columns are found by name. Without one, the columns are (day, location name or id).
+function parseCsv(text: string): ParsedImport {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return { name: null, startDate: null, rows: [] };
+
+  const header = records[0].map(value => value.trim().toLowerCase());
+  const columnIndex = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([key, aliases]) => (
+    [key, header.findIndex(value => aliases.includes(value))]
+  ))) as Record<keyof typeof CSV_COLUMNS, number>;
+  const hasHeader = columnIndex.day >= 0 && (columnIndex.name >= 0 || columnIndex.id >= 0);
+
+  const rows = (hasHeader ? records.slice(1) : records).flatMap((fields): ImportRow[] => {
+    const get = (key: string) => {
+      const index = columnIndex[key];
+      return index >= 0 ? optionalString(fields[index]) : undefined;
+    };
+    if (!hasHeader) {
+      const reference = optionalString(fields[1]);
+      const day = toDayNumber(fields[0]);
+      return reference && day ? [{ day, name: reference, locationId: reference }] : [];
+    }
+    const day = toDayNumber(get('day'));
+    const name = get('name') ?? get('id');
+    if (!day || !name) return [];
+    return [{
+      day,
+      name,
+      locationId: get('id'),
+      coordinates: toCoordinates(get('lat'), get('lng')),
+      address: get('address'),
+      ...scheduleFields(get('startTime'), get('durationMinutes'), get('note')),
+    }];
+  });
+
+  return { name: null, startDate: null, rows };
+}
+
+// ---- Entry point ----
+
+export function getImportFileType(fileName: string, text: string): ImportFileType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'geojson') return 'geojson';
+  if (extension === 'json') return 'json';
+  // Unknown extension: sniff the content
+  const start = text.trimStart();
+  if (start.startsWith('<')) return 'kml';
+  if (start.startsWith('{')) return 'json';
+  return null;
+}
+
+/**
+ * Reads an import file into rows. Runs in the browser (KML parsing needs DOMParser).
+ * Throws an Error with a user-facing message when the file can't be used.
+ */
+export function parseImportFile(fileName: string, text: string): ParsedImport {
+  const type = getImportFileType(fileName, text);
+  let parsed: ParsedImport;
+
+  if (type === 'csv') {
+    parsed = parseCsv(text);
+  } else if (type === 'kml') {
+    parsed = parseKml(text);
+  } else if (type === 'json' || type === 'geojson') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("This file isn't valid JSON.");
+    }
+    // A .json file may also hold GeoJSON
+    parsed = isItineraryFile(data) || (type === 'json' && !(data as any)?.type) ? parseItineraryJson(data) : parseGeoJson(data);
+  } else {
+    throw new Error('Unsupported file. Use a JSON export, a CSV, a KML or a GeoJSON file.');
+  }
+
+  if (parsed.rows.length === 0) {
+    throw new Error('No places were found in this file.');
+  }
+  if (parsed.rows.length > IMPORT_CONFIG.maxRows) {
+    throw new Error(`This file has ${parsed.rows.length} places; at most ${IMPORT_CONFIG.maxRows} can be imported at once.`);
+  }
+  return parsed;
+}
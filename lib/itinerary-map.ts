@@ -0,0 +1,55 @@
+// lib/itinerary-map.ts
+import type { ItineraryDay, LocationData, PlannedStopRef } from '@/lib/types';
+import type { DayRoute, MapLegendItem } from '@/components/map/map-view';
+import { MARKER_CONFIG } from '@/lib/constants';
+import { getDayColor } from '@/lib/day-colors';
+
+// Every stop of each location ("day.stop"), in day order; used for marker colours and labels
+export function buildLocationToDayMap(days: ItineraryDay[]): Map<string, PlannedStopRef[]> {
+  const map = new Map<string, PlannedStopRef[]>();
+  days.forEach(day => {
+    day.locations.forEach((loc, index) => {
+      const stops = map.get(loc.id) ?? [];
+      stops.push({ dayId: day.id, stopNumber: index + 1 });
+      map.set(loc.id, stops);
+    });
+  });
+  return map;
+}
+
+// One line per day through its stops in order (a single stop has no route)
+export function buildDayRoutes(days: ItineraryDay[]): DayRoute[] {
+  return days
+    .filter(day => day.locations.length >= 2)
+    .map(day => ({
+      dayId: day.id,
+      color: getDayColor(day.id),
+      coordinates: day.locations.map(loc => loc.coordinates),
+    }));
+}
+
+interface MapLegendOptions {
+  customPlaceLabel?: string; // Legend entry for custom place markers, if any are on the map
+  unplannedLabel?: string; // Legend entry for markers not in the itinerary, if the map shows those
+}
+
+export function buildMapLegend(
+  days: ItineraryDay[],
+  locationToDayMap: Map<string, PlannedStopRef[]>,
+  locations: LocationData[],
+  { customPlaceLabel, unplannedLabel }: MapLegendOptions = {}
+): MapLegendItem[] {
+  const items: MapLegendItem[] = days
+    .filter(day => day.locations.length > 0)
+    .map(day => ({ color: getDayColor(day.id), label: `Day ${day.id}` }));
+  if (Array.from(locationToDayMap.values()).some(stops => stops.length > 1)) {
+    items.push({ color: MARKER_CONFIG.multiDayBadgeColor, label: 'On several days', variant: 'badge' });
+  }
+  if (customPlaceLabel && locations.some(loc => loc.isCustom && !locationToDayMap.has(loc.id))) {
+    items.push({ color: MARKER_CONFIG.customPlaceColor, label: customPlaceLabel });
+  }
+  if (unplannedLabel) {
+    items.push({ color: MARKER_CONFIG.defaultColor, label: unplannedLabel });
+  }
+  return items;
+}
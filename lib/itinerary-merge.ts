@@ -0,0 +1,92 @@
+// lib/itinerary-merge.ts
+import type { ItineraryDay, LocationData } from '@/lib/types';
+
+// The per-stop fields a user can edit
+function stopFieldsKey(location: LocationData): string {
+  return JSON.stringify([location.startTime ?? null, location.durationMinutes ?? null, location.note ?? null, location.costOverride ?? null]);
+}
+
+function orderOf(locations: LocationData[], ids: Set<string>): string[] {
+  return locations.map(loc => loc.id).filter(id => ids.has(id));
+}
+
+// Replay one day's local changes (relative to base) on top of the other version of that day
+function mergeDay(baseDay: ItineraryDay | undefined, myDay: ItineraryDay, theirDay: ItineraryDay): ItineraryDay {
+  const baseLocations = baseDay?.locations ?? [];
+  const baseById = new Map(baseLocations.map(loc => [loc.id, loc]));
+  const myById = new Map(myDay.locations.map(loc => [loc.id, loc]));
+
+  // Drop stops removed locally, and take local edits to stop fields
+  let locations = theirDay.locations
+    .filter(loc => !baseById.has(loc.id) || myById.has(loc.id))
+    .map(loc => {
+      const mine = myById.get(loc.id);
+      const base = baseById.get(loc.id);
+      return mine && base && stopFieldsKey(mine) !== stopFieldsKey(base)
+        ? { ...loc, startTime: mine.startTime, durationMinutes: mine.durationMinutes, note: mine.note, costOverride: mine.costOverride }
+        : loc;
+    });
+
+  // Add stops added locally (a place can only appear once per day)
+  const resultIds = new Set(locations.map(loc => loc.id));
+  myDay.locations.forEach(loc => {
+    if (!baseById.has(loc.id) && !resultIds.has(loc.id)) {
+      locations.push(loc);
+      resultIds.add(loc.id);
+    }
+  });
+
+  // Use the local order if only this side reordered the stops both sides kept
+  const sharedIds = new Set(baseLocations.map(loc => loc.id).filter(id => myById.has(id) && resultIds.has(id)));
+  const baseOrder = orderOf(baseLocations, sharedIds).join(',');
+  const iReordered = orderOf(myDay.locations, sharedIds).join(',') !== baseOrder;
+  const theyReordered = orderOf(theirDay.locations, sharedIds).join(',') !== baseOrder;
+  if (iReordered && !theyReordered) {
+    const myIndex = new Map(myDay.locations.map((loc, index) => [loc.id, index]));
+    locations = [...locations].sort((a, b) => (myIndex.get(a.id) ?? Infinity) - (myIndex.get(b.id) ?? Infinity));
+  }
+
+  return { ...theirDay, locations };
+}
+
+/**
+ * Whether `other` changed which days there are compared to `base`, rather than only their stops: a day was
+ * removed, or days were renumbered by inserting, splitting, merging or duplicating one. Days appended at the
+ * end don't count. A renumbered day is recognised by its stops: none of them are left on the day with its old
+ * number, but some are now on another day.
+ */
+function changesDayStructure(base: ItineraryDay[], other: ItineraryDay[]): boolean {
+  if (other.length < base.length) return true;
+  return base.some((baseDay, index) => {
+    if (baseDay.locations.length === 0) return false;
+    const baseIds = new Set(baseDay.locations.map(loc => loc.id));
+    if (other[index].locations.some(loc => baseIds.has(loc.id))) return false;
+    return other.some((day, otherIndex) => otherIndex !== index && day.locations.some(loc => baseIds.has(loc.id)));
+  });
+}
+
+/**
+ * Three-way merge of itinerary days after a save conflict: local changes (base → mine) are
+ * replayed on top of the newer server version (theirs). Days are matched by day number, so
+ * this only works while neither side changed which days there are: added, removed and edited
+ * stops, reorders and days appended at the end carry over. Returns null when either side
+ * removed, inserted, split, merged or duplicated a day; the user has to pick one version then.
+ */
+export function mergeItineraryDays(base: ItineraryDay[], mine: ItineraryDay[], theirs: ItineraryDay[]): ItineraryDay[] | null {
+  if (changesDayStructure(base, mine) || changesDayStructure(base, theirs)) return null;
+
+  const baseById = new Map(base.map(day => [day.id, day]));
+  const myById = new Map(mine.map(day => [day.id, day]));
+
+  const merged = theirs.map(theirDay => {
+    const myDay = myById.get(theirDay.id);
+    return myDay ? mergeDay(baseById.get(theirDay.id), myDay, theirDay) : theirDay;
+  });
+
+  // Days added locally go after the other version's days
+  mine
+    .filter(day => day.id > base.length && day.id > theirs.length)
+    .forEach(day => merged.push({ ...day, id: merged.length + 1 }));
+
+  return merged;
+}
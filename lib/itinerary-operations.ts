@@ -0,0 +1,174 @@
+// lib/itinerary-operations.ts
+import type { ItineraryDay, LocationData } from '@/lib/types';
+
+// The per-stop fields stored with a stop; missing fields are cleared
+export interface StopFields {
+  startTime?: string;
+  durationMinutes?: number;
+  note?: string;
+  costOverride?: number;
+}
+
+// Incremental itinerary edits, applied in order by the operations endpoint.
+// Days are addressed by day number and stops by location ID; indexes are 0-based
+// positions within the day after any removal the operation itself makes.
+export type ItineraryOperation =
+  | { type: 'addDay'; dayId?: number } // Inserts an empty day as dayId (later days are renumbered up by one), or appends it
+  | { type: 'removeDay'; dayId: number } // Later days are renumbered down by one
+  | ({ type: 'addStop'; dayId: number; locationId: string; index: number } & StopFields)
+  | { type: 'removeStop'; dayId: number; locationId: string }
+  | { type: 'moveStop'; fromDayId: number; toDayId: number; locationId: string; index: number } // Keeps the stop's fields
+  | ({ type: 'updateStop'; dayId: number; locationId: string } & StopFields);
+
+interface WorkingStop extends StopFields {
+  id: string;
+}
+
+function toWorkingStop(location: LocationData): WorkingStop {
+  return { id: location.id, startTime: location.startTime, durationMinutes: location.durationMinutes, note: location.note, costOverride: location.costOverride };
+}
+
+function stopFieldsOf(stop: StopFields): StopFields {
+  return { startTime: stop.startTime, durationMinutes: stop.durationMinutes, note: stop.note, costOverride: stop.costOverride };
+}
+
+function sameStopFields(a: StopFields, b: StopFields): boolean {
+  return (a.startTime ?? null) === (b.startTime ?? null)
+    && (a.durationMinutes ?? null) === (b.durationMinutes ?? null)
+    && (a.note ?? null) === (b.note ?? null)
+    && (a.costOverride ?? null) === (b.costOverride ?? null);
+}
+
+function dayKey(stops: WorkingStop[]): string {
+  return stops.map(stop => stop.id).join('\n');
+}
+
+// Apply one operation to the working copy the same way the database does
+function applyOperation(days: WorkingStop[][], op: ItineraryOperation): void {
+  switch (op.type) {
+    case 'addDay':
+      days.splice(op.dayId === undefined ? days.length : op.dayId - 1, 0, []);
+      break;
+    case 'removeDay':
+      days.splice(op.dayId - 1, 1);
+      break;
+    case 'addStop': {
+      const stops = days[op.dayId - 1];
+      stops.splice(Math.min(op.index, stops.length), 0, { id: op.locationId, ...stopFieldsOf(op) });
+      break;
+    }
+    case 'removeStop': {
+      const stops = days[op.dayId - 1];
+      stops.splice(stops.findIndex(stop => stop.id === op.locationId), 1);
+      break;
+    }
+    case 'moveStop': {
+      const fromStops = days[op.fromDayId - 1];
+      const [stop] = fromStops.splice(fromStops.findIndex(s => s.id === op.locationId), 1);
+      const toStops = days[op.toDayId - 1];
+      toStops.splice(Math.min(op.index, toStops.length), 0, stop);
+      break;
+    }
+    case 'updateStop': {
+      const stops = days[op.dayId - 1];
+      const index = stops.findIndex(stop => stop.id === op.locationId);
+      stops[index] = { id: op.locationId, ...stopFieldsOf(op) };
+      break;
+    }
+  }
+}
+
+// Which day to remove so the remaining days line up with the target best (ties remove the later day)
+function pickDayToRemove(days: WorkingStop[][], target: WorkingStop[][]): number {
+  let bestIndex = days.length - 1;
+  let bestScore = -1;
+  for (let k = days.length - 1; k >= 0; k--) {
+    const remaining = [...days.slice(0, k), ...days.slice(k + 1)];
+    const score = target.filter((day, i) => remaining[i] && dayKey(remaining[i]) === dayKey(day)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = k;
+    }
+  }
+  return bestIndex;
+}
+
+// Where to insert an empty day so the days line up with the target best (ties append)
+function pickDayToInsert(days: WorkingStop[][], target: WorkingStop[][]): number {
+  let bestIndex = days.length;
+  let bestScore = -1;
+  for (let k = days.length; k >= 0; k--) {
+    const withEmpty = [...days.slice(0, k), [], ...days.slice(k)];
+    const score = target.filter((day, i) => withEmpty[i] && dayKey(withEmpty[i]) === dayKey(day)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = k;
+    }
+  }
+  return bestIndex;
+}
+
+/**
+ * Works out the operations that turn `base` into `target`, keeping existing stops (moving
+ * rather than re-adding them) so their stored rows and fields survive. Returns an empty
+ * list when nothing changed.
+ */
+export function diffItineraryDays(base: ItineraryDay[], target: ItineraryDay[]): ItineraryOperation[] {
+  const operations: ItineraryOperation[] = [];
+  const days = base.map(day => day.locations.map(toWorkingStop));
+  const goal = target.map(day => day.locations.map(toWorkingStop));
+  const emit = (op: ItineraryOperation) => {
+    applyOperation(days, op);
+    operations.push(op);
+  };
+
+  // 1. Day count
+  while (days.length > goal.length) {
+    emit({ type: 'removeDay', dayId: pickDayToRemove(days, goal) + 1 });
+  }
+  while (days.length < goal.length) {
+    const index = pickDayToInsert(days, goal);
+    emit(index === days.length ? { type: 'addDay' } : { type: 'addDay', dayId: index + 1 });
+  }
+
+  // 2. Which days each location is on: move where possible, otherwise remove or add
+  const locationIds = new Set([...days.flat(), ...goal.flat()].map(stop => stop.id));
+  locationIds.forEach(locationId => {
+    const currentDays = days.map((stops, i) => stops.some(stop => stop.id === locationId) ? i : -1).filter(i => i >= 0);
+    const goalDays = goal.map((stops, i) => stops.some(stop => stop.id === locationId) ? i : -1).filter(i => i >= 0);
+    const extra = currentDays.filter(i => !goalDays.includes(i));
+    const missing = goalDays.filter(i => !currentDays.includes(i));
+    extra.forEach((from, n) => {
+      const to = missing[n];
+      if (to !== undefined) {
+        emit({ type: 'moveStop', fromDayId: from + 1, toDayId: to + 1, locationId, index: days[to].length });
+      } else {
+        emit({ type: 'removeStop', dayId: from + 1, locationId });
+      }
+    });
+    missing.slice(extra.length).forEach(to => {
+      const stop = goal[to].find(s => s.id === locationId)!;
+      emit({ type: 'addStop', dayId: to + 1, locationId, index: days[to].length, ...stopFieldsOf(stop) });
+    });
+  });
+
+  // 3. Order within each day
+  goal.forEach((goalStops, d) => {
+    goalStops.forEach((goalStop, i) => {
+      if (days[d][i].id !== goalStop.id) {
+        emit({ type: 'moveStop', fromDayId: d + 1, toDayId: d + 1, locationId: goalStop.id, index: i });
+      }
+    });
+  });
+
+  // 4. Stop fields
+  goal.forEach((goalStops, d) => {
+    goalStops.forEach((goalStop, i) => {
+      if (!sameStopFields(days[d][i], goalStop)) {
+        emit({ type: 'updateStop', dayId: d + 1, locationId: goalStop.id, ...stopFieldsOf(goalStop) });
+      }
+    });
+  });
+
+  return operations;
+}
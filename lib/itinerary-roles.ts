@@ -0,0 +1,17 @@
+// lib/itinerary-roles.ts
+import type { ItineraryMemberRole, ItineraryRole } from '@/lib/types';
+
+export const ITINERARY_ROLE_LABELS: Record<ItineraryRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view',
+};
+
+export function isItineraryMemberRole(value: unknown): value is ItineraryMemberRole {
+  return value === 'viewer' || value === 'editor';
+}
+
+// Editors can change days, stops and the start date; renaming, deleting, sharing and managing members stay with the owner
+export function canEditItinerary(role: ItineraryRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
@@ -0,0 +1,99 @@
+// lib/itinerary-schedule.ts
+import type { LocationData } from "@/lib/types";
+
+// Stop times are wall-clock 'HH:MM' strings in Tokyo time (Postgres TIME without seconds).
+// Durations are whole minutes. Both are optional; untimed stops are left out of the timeline.
+
+const TIME_STRING_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimeString(value: unknown): value is string {
+  return typeof value === 'string' && TIME_STRING_PATTERN.test(value);
+}
+
+export function isValidDurationMinutes(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= 24 * 60;
+}
+
+// Postgres returns TIME as 'HH:MM:SS'
+export function normalizeTimeString(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.slice(0, 5);
+  return isValidTimeString(trimmed) ? trimmed : undefined;
+}
+
+export function timeStringToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes since midnight to 'HH:MM'; values past midnight keep counting (e.g. "25:30")
+export function minutesToTimeString(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// e.g. 90 -> "1h 30m"
+export function formatDuration(durationMinutes: number): string {
+  const hours = Math.floor(durationMinutes / 60);
+  const minutes = durationMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+export interface ScheduledStop {
+  locationId: string;
+  startMinutes: number;
+  endMinutes: number; // Same as startMinutes when no duration is set
+  overlapsWith: string[]; // Ids of other stops whose time ranges overlap this one
+  isPastDayEnd: boolean;
+}
+
+export interface DaySchedule {
+  stops: ScheduledStop[]; // Timed stops only, in itinerary order
+  stopsById: Map<string, ScheduledStop>;
+  hasOverlaps: boolean;
+  runsPastDayEnd: boolean;
+  latestEndMinutes: number | null;
+}
+
+/**
+ * Works out the timeline for a day's stops: which timed stops overlap each other and
+ * whether any stop runs past the day's end hour.
+ */
+export function buildDaySchedule(locations: LocationData[], dayEndHour: number): DaySchedule {
+  const dayEndMinutes = dayEndHour * 60;
+  const stops: ScheduledStop[] = locations
+    .filter(location => isValidTimeString(location.startTime))
+    .map(location => {
+      const startMinutes = timeStringToMinutes(location.startTime!);
+      return {
+        locationId: location.id,
+        startMinutes,
+        endMinutes: startMinutes + (location.durationMinutes ?? 0),
+        overlapsWith: [],
+        isPastDayEnd: false,
+      };
+    });
+
+  stops.forEach((stop, index) => {
+    stop.isPastDayEnd = stop.endMinutes > dayEndMinutes || stop.startMinutes >= dayEndMinutes;
+    for (const other of stops.slice(index + 1)) {
+      // Back-to-back stops don't overlap; two stops at the same start time always do
+      const overlaps = stop.startMinutes === other.startMinutes
+        || (stop.startMinutes < other.endMinutes && other.startMinutes < stop.endMinutes);
+      if (overlaps) {
+        stop.overlapsWith.push(other.locationId);
+        other.overlapsWith.push(stop.locationId);
+      }
+    }
+  });
+
+  return {
+    stops,
+    stopsById: new Map(stops.map(stop => [stop.locationId, stop])),
+    hasOverlaps: stops.some(stop => stop.overlapsWith.length > 0),
+    runsPastDayEnd: stops.some(stop => stop.isPastDayEnd),
+    latestEndMinutes: stops.length > 0 ? Math.max(...stops.map(stop => stop.endMinutes)) : null,
+  };
+}
@@ -0,0 +1,266 @@
+// lib/map-export.ts
+import type { ItineraryDay, LocationData } from '@/lib/types';
+import { getDayColor } from '@/lib/day-colors';
+import { formatCostTotals, formatStopCost, getStopCost, sumStopCosts } from '@/lib/itinerary-budget';
+
+// GeoJSON, KML and GPX exports for offline map apps (Maps.me, OsmAnd, Google My Maps).
+// An export is a list of layers: one per itinerary day (drawn as a line/track in stop order),
+// or a single layer of unordered points such as the user's favorites.
+
+export type MapExportFormat = 'geojson' | 'kml' | 'gpx';
+
+export interface MapExportLayer {
+  name: string; // e.g. "Day 2" or "Favorites"
+  dayId?: number; // Set for itinerary days; their stops are also exported as a line/track
+  color: string; // '#rrggbb'
+  locations: LocationData[];
+}
+
+export interface MapExport {
+  name: string;
+  layers: MapExportLayer[];
+}
+
+interface MapExportOptions {
+  baseUrl: string; // Origin used for links back to /location/[slug]
+}
+
+export const MAP_EXPORT_FORMATS: Record<MapExportFormat, { label: string; extension: string; contentType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', contentType: 'application/geo+json; charset=utf-8' },
+  kml: { label: 'KML', extension: 'kml', contentType: 'application/vnd.google-earth.kml+xml; charset=utf-8' },
+  gpx: { label: 'GPX', extension: 'gpx', contentType: 'application/gpx+xml; charset=utf-8' },
+};
+
+export function isMapExportFormat(value: unknown): value is MapExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MAP_EXPORT_FORMATS, value);
+}
+
+// Color used for favorites, which don't belong to a day
+const FAVORITES_COLOR = '#e11d48'; // rose-600
+
+export function itineraryToMapExport(name: string, days: ItineraryDay[]): MapExport {
+  return {
+    name,
+    layers: days
+      .filter(day => day.locations.length > 0)
+      .map(day => ({ name: `Day ${day.id}`, dayId: day.id, color: getDayColor(day.id), locations: day.locations })),
+  };
+}
+
+export function favoritesToMapExport(locations: LocationData[]): MapExport {
+  return { name: 'Tokyo Guide favorites', layers: [{ name: 'Favorites', color: FAVORITES_COLOR, locations }] };
+}
+
+function getLocationUrl(location: LocationData, baseUrl: string): string | undefined {
+  return location.isCustom ? undefined : `${baseUrl}/location/${encodeURIComponent(location.id)}`;
+}
+
+// A custom place's description holds its owner's private notes, which are left out of exports (as on the
+// share page and in the calendar export); its address is shown instead
+function getLocationDescription(location: LocationData): string {
+  return (location.isCustom ? location.address : location.description) || '';
+}
+
+// Estimated cost of a day's stops, or of all days of the export; undefined for favorites and when nothing is priced
+function getCostTotalLabel(layers: MapExportLayer[]): string | undefined {
+  const dayLayers = layers.filter(layer => layer.dayId !== undefined);
+  if (dayLayers.length === 0) return undefined;
+  return formatCostTotals(sumStopCosts(dayLayers.flatMap(layer => layer.locations))) ?? undefined;
+}
+
+function describeCostTotal(layers: MapExportLayer[]): string | undefined {
+  const label = getCostTotalLabel(layers);
+  return label && `Estimated cost: ${label}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Element with escaped text content, left out when there is no value
+function xmlElement(tag: string, value: string | number | undefined): string {
+  return value === undefined || value === '' ? '' : `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+// ---- GeoJSON ----
+
+function getStopCostProperties(location: LocationData): { cost?: number; currency?: string } {
+  const cost = getStopCost(location);
+  return cost ? { cost: cost.amount, currency: cost.currency } : {};
+}
+
+export function buildGeoJson({ name, layers }: MapExport, { baseUrl }: MapExportOptions): string {
+  const features = layers.flatMap(layer => {
+    const points = layer.locations.map((location, index) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [location.coordinates[1], location.coordinates[0]] },
+      properties: {
+        name: location.name,
+        category: location.category,
+        description: getLocationDescription(location),
+        url: getLocationUrl(location, baseUrl),
+        layer: layer.name,
+        ...getStopCostProperties(location),
+        ...(layer.dayId !== undefined && {
+          day: layer.dayId,
+          stop: index + 1,
+          startTime: location.startTime,
+          durationMinutes: location.durationMinutes,
+          note: location.note,
+        }),
+        'marker-color': layer.color, // simplestyle-spec, used by geojson.io and others
+      },
+    }));
+    if (layer.dayId === undefined || layer.locations.length < 2) return points;
+    const line = {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: layer.locations.map(location => [location.coordinates[1], location.coordinates[0]]) },
+      properties: { name: layer.name, day: layer.dayId, estimatedCost: getCostTotalLabel([layer]), stroke: layer.color, 'stroke-width': 3 },
+    };
+    return [line, ...points];
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', name, estimatedCost: getCostTotalLabel(layers), features }, null, 2);
+}
+
+// ---- KML ----
+
+// KML colours are aabbggrr
+function toKmlColor(hexColor: string): string {
+  const [r, g, b] = [hexColor.slice(1, 3), hexColor.slice(3, 5), hexColor.slice(5, 7)];
+  return `ff${b}${g}${r}`.toLowerCase();
+}
+
+function buildKmlPlacemark(location: LocationData, layer: MapExportLayer, styleId: string, stopNumber: number, baseUrl: string): string {
+  const description = getLocationDescription(location);
+  const url = getLocationUrl(location, baseUrl);
+  const data: [string, string | number | undefined][] = [
+    ['category', location.category],
+    ['description', description],
+    ['url', url],
+    ['cost', formatStopCost(location) ?? undefined],
+    ...(layer.dayId !== undefined
+      ? [['day', layer.dayId], ['stop', stopNumber], ['startTime', location.startTime], ['note', location.note]] as [string, string | number | undefined][]
+      : []),
+  ];
+  return [
+    '<Placemark>',
+    xmlElement('name', location.name),
+    xmlElement('description', [description, location.note, url].filter(Boolean).join('\n\n')),
+    `<styleUrl>#${styleId}</styleUrl>`,
+    '<ExtendedData>',
+    ...data
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `<Data name="${key}">${xmlElement('value', value)}</Data>`),
+    '</ExtendedData>',
+    `<Point><coordinates>${location.coordinates[1]},${location.coordinates[0]},0</coordinates></Point>`,
+    '</Placemark>',
+  ].filter(Boolean).join('\n');
+}
+
+export function buildKml({ name, layers }: MapExport, { baseUrl }: MapExportOptions): string {
+  const styles = layers.map((layer, index) => [
+    `<Style id="layer-${index}">`,
+    `<IconStyle><color>${toKmlColor(layer.color)}</color></IconStyle>`,
+    `<LineStyle><color>${toKmlColor(layer.color)}</color><width>3</width></LineStyle>`,
+    '</Style>',
+  ].join('\n'));
+
+  const folders = layers.map((layer, index) => {
+    const styleId = `layer-${index}`;
+    const route = layer.dayId !== undefined && layer.locations.length >= 2
+      ? [
+        '<Placemark>',
+        xmlElement('name', `${layer.name} route`),
+        `<styleUrl>#${styleId}</styleUrl>`,
+        '<LineString><tessellate>1</tessellate><coordinates>',
+        layer.locations.map(location => `${location.coordinates[1]},${location.coordinates[0]},0`).join(' '),
+        '</coordinates></LineString>',
+        '</Placemark>',
+      ].join('\n')
+      : '';
+    return [
+      '<Folder>',
+      xmlElement('name', layer.name),
+      xmlElement('description', describeCostTotal([layer])),
+      ...layer.locations.map((location, stopIndex) => buildKmlPlacemark(location, layer, styleId, stopIndex + 1, baseUrl)),
+      route,
+      '</Folder>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    xmlElement('name', name),
+    xmlElement('description', describeCostTotal(layers)),
+    ...styles,
+    ...folders,
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// ---- GPX ----
+
+function buildGpxPoint(tag: 'wpt' | 'trkpt', location: LocationData, extra: string[] = []): string {
+  return [
+    `<${tag} lat="${location.coordinates[0]}" lon="${location.coordinates[1]}">`,
+    xmlElement('name', location.name),
+    ...extra,
+    `</${tag}>`,
+  ].filter(Boolean).join('\n');
+}
+
+// GPX 1.1 requires waypoints before tracks; each day becomes a numbered track through its stops
+export function buildGpx({ name, layers }: MapExport, { baseUrl }: MapExportOptions): string {
+  const waypoints = layers.flatMap(layer => layer.locations.map((location, index) => {
+    const url = getLocationUrl(location, baseUrl);
+    return buildGpxPoint('wpt', location, [
+      layer.dayId !== undefined ? xmlElement('cmt', `${layer.name}, stop ${index + 1}${location.note ? `: ${location.note}` : ''}`) : '',
+      xmlElement('desc', getLocationDescription(location)),
+      url ? `<link href="${escapeXml(url)}">${xmlElement('text', location.name)}</link>` : '',
+      xmlElement('type', location.category),
+    ]);
+  }));
+
+  const tracks = layers
+    .filter(layer => layer.dayId !== undefined)
+    .map(layer => [
+      '<trk>',
+      xmlElement('name', layer.name),
+      xmlElement('desc', describeCostTotal([layer])),
+      xmlElement('number', layer.dayId),
+      '<trkseg>',
+      ...layer.locations.map(location => buildGpxPoint('trkpt', location)),
+      '</trkseg>',
+      '</trk>',
+    ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Tokyo Guide" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata>${xmlElement('name', name)}${xmlElement('desc', describeCostTotal(layers))}</metadata>`,
+    ...waypoints,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+const MAP_EXPORT_BUILDERS: Record<MapExportFormat, (mapExport: MapExport, options: MapExportOptions) => string> = {
+  geojson: buildGeoJson,
+  kml: buildKml,
+  gpx: buildGpx,
+};
+
+export function buildMapExport(format: MapExportFormat, mapExport: MapExport, options: MapExportOptions): string {
+  return MAP_EXPORT_BUILDERS[format](mapExport, options);
+}
@@ -1,5 +1,19 @@
 import { MARKER_CONFIG } from "@/lib/constants"
 
+// Optional corner badge, e.g. "+1" for a place planned on more than one day
+export interface MarkerBadge {
+  text: string
+  color: string
+}
+
+// Shrink the label as it gets longer so "2.3" or "10.12" still fits inside the pin
+function getLabelFontSize(label: string): string {
+  if (label.length <= 1) return '10px'
+  if (label.length === 2) return '9px'
+  if (label.length === 3) return '7.5px'
+  return '6px'
+}
+
 /**
  * Creates a marker SVG string with the specified parameters
  * This function has no dependencies on browser APIs or Leaflet
@@ -7,22 +21,38 @@ import { MARKER_CONFIG } from "@/lib/constants"
 export function createMarkerSvg(
   size: number,
   color: string,
-  number?: number
+  label?: number | string,
+  badge?: MarkerBadge
 ): string {
-  // Determine the content inside the marker (number or circle)
-  const innerContent = number !== undefined 
+  // Determine the content inside the marker (label or circle)
+  const labelText = label !== undefined ? String(label) : undefined;
+  const innerContent = labelText !== undefined
     ? `<text
         x="12"
         y="10"
         fill="${MARKER_CONFIG.textColor}"
-        font-size="${number > 9 ? '9px' : '10px'}"
+        font-size="${getLabelFontSize(labelText)}"
         font-weight="bold"
         text-anchor="middle"
         dominant-baseline="central"
         pointer-events="none"
-      >${number}</text>`
+      >${labelText}</text>`
     : `<circle cx="12" cy="10" r="3.5" fill="${MARKER_CONFIG.textColor}" />`;
 
+  const badgeContent = badge
+    ? `<circle cx="19.5" cy="4" r="4.5" fill="${badge.color}" stroke="white" stroke-width="1" />
+      <text
+        x="19.5"
+        y="4"
+        fill="white"
+        font-size="${badge.text.length > 2 ? '4.5px' : '5.5px'}"
+        font-weight="bold"
+        text-anchor="middle"
+        dominant-baseline="central"
+        pointer-events="none"
+      >${badge.text}</text>`
+    : '';
+
   return `
   <svg
     width="${size}"
@@ -41,6 +71,7 @@ export function createMarkerSvg(
       vector-effect="non-scaling-stroke"
     />
     ${innerContent}
+    ${badgeContent}
   </svg>
   `;
 }
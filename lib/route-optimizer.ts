@@ -0,0 +1,93 @@
+// lib/route-optimizer.ts
+import type { LocationData } from '@/lib/types';
+import { getPathDistanceKm, haversineDistanceKm } from '@/lib/geo';
+
+export interface OptimizeRouteOptions {
+  fixFirst?: boolean; // Keep the current first stop at the start (e.g. leaving from the hotel)
+  fixLast?: boolean; // Keep the current last stop at the end
+}
+
+export function getRouteDistanceKm(locations: LocationData[]): number {
+  return getPathDistanceKm(locations.map(location => location.coordinates));
+}
+
+// Greedy path through `indices` starting at `start`, always visiting the nearest unvisited stop next
+function nearestNeighbourPath(start: number, indices: number[], distances: number[][]): number[] {
+  const path = [start];
+  const remaining = new Set(indices.filter(index => index !== start));
+  while (remaining.size > 0) {
+    const current = path[path.length - 1];
+    let nearest = -1;
+    remaining.forEach(index => {
+      if (nearest === -1 || distances[current][index] < distances[current][nearest]) nearest = index;
+    });
+    path.push(nearest);
+    remaining.delete(nearest);
+  }
+  return path;
+}
+
+function pathLength(path: number[], distances: number[][]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += distances[path[i - 1]][path[i]];
+  return total;
+}
+
+// Improve an open path by reversing segments while that shortens it (2-opt).
+// Positions before `firstMovable` and after `lastMovable` stay where they are.
+function twoOpt(path: number[], distances: number[][], firstMovable: number, lastMovable: number): number[] {
+  const best = [...path];
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = firstMovable; i < lastMovable; i++) {
+      for (let j = i + 1; j <= lastMovable; j++) {
+        const before = i > 0 ? best[i - 1] : null;
+        const after = j < best.length - 1 ? best[j + 1] : null;
+        const currentCost = (before !== null ? distances[before][best[i]] : 0) + (after !== null ? distances[best[j]][after] : 0);
+        const reversedCost = (before !== null ? distances[before][best[j]] : 0) + (after !== null ? distances[best[i]][after] : 0);
+        if (reversedCost < currentCost - 1e-9) {
+          best.splice(i, j - i + 1, ...best.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Reorders a day's stops to minimise the total straight-line travel distance.
+ * Uses nearest-neighbour starts followed by 2-opt, which is exact or close to it for
+ * the handful of stops a day usually has. Returns the stops unchanged if nothing is shorter.
+ */
+export function optimizeRouteOrder(locations: LocationData[], options: OptimizeRouteOptions = {}): LocationData[] {
+  const count = locations.length;
+  if (count < 3) return locations;
+
+  const distances = locations.map(from => locations.map(to => haversineDistanceKm(from.coordinates, to.coordinates)));
+  const allIndices = locations.map((_, index) => index);
+  const fixedFirst = options.fixFirst ? 0 : null;
+  const fixedLast = options.fixLast ? count - 1 : null;
+  const middle = allIndices.filter(index => index !== fixedFirst && index !== fixedLast);
+
+  // Try every stop as the starting point (or just the fixed one) and keep the shortest result
+  const starts = fixedFirst !== null ? [fixedFirst] : middle;
+  let bestPath = allIndices;
+  let bestLength = pathLength(allIndices, distances);
+
+  starts.forEach(start => {
+    const greedy = nearestNeighbourPath(start, middle, distances);
+    const candidate = fixedLast !== null ? [...greedy, fixedLast] : greedy;
+    const firstMovable = fixedFirst !== null ? 1 : 0;
+    const lastMovable = fixedLast !== null ? count - 2 : count - 1;
+    const improved = twoOpt(candidate, distances, firstMovable, lastMovable);
+    const length = pathLength(improved, distances);
+    if (length < bestLength - 1e-9) {
+      bestPath = improved;
+      bestLength = length;
+    }
+  });
+
+  return bestPath.map(index => locations[index]);
+}
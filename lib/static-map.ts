@@ -0,0 +1,98 @@
+// lib/static-map.ts
+// Fixed-size map images assembled from map tiles, for places where an interactive Leaflet map
+// doesn't work (the printable itinerary). Uses Web Mercator like the tile servers.
+import { MAP_CONFIG } from '@/lib/constants';
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 17; // Closer than this shows little more than a street corner
+const MAX_LATITUDE = 85.05112878;
+
+export interface StaticMapTile {
+  url: string;
+  left: number; // Position inside the map, in pixels
+  top: number;
+}
+
+export interface StaticMap {
+  width: number;
+  height: number;
+  zoom: number;
+  tiles: StaticMapTile[];
+  points: { x: number; y: number }[]; // Same order as the input coordinates
+}
+
+interface StaticMapOptions {
+  width: number;
+  height: number;
+  padding?: number; // Minimum space between the outermost points and the map edge, in pixels
+}
+
+// World pixel coordinates of a [lat, lng] point at a zoom level
+function project([lat, lng]: [number, number], zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+function getTileUrl(x: number, y: number, zoom: number): string {
+  const subdomain = 'abc'[(x + y) % 3];
+  return MAP_CONFIG.tileLayerUrl
+    .replace('{s}', subdomain)
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+}
+
+/**
+ * Picks the closest zoom that fits every point inside the map (with padding) and lists the tiles
+ * covering it. Without points the map shows central Tokyo at the default zoom.
+ */
+export function buildStaticMap(coordinates: [number, number][], { width, height, padding = 32 }: StaticMapOptions): StaticMap {
+  const fitsAt = (zoom: number) => {
+    const projected = coordinates.map(point => project(point, zoom));
+    const xs = projected.map(point => point.x);
+    const ys = projected.map(point => point.y);
+    return Math.max(...xs) - Math.min(...xs) <= width - 2 * padding
+      && Math.max(...ys) - Math.min(...ys) <= height - 2 * padding;
+  };
+
+  let zoom: number = MAP_CONFIG.defaultZoom;
+  if (coordinates.length === 1) {
+    zoom = 15;
+  } else if (coordinates.length > 1) {
+    zoom = MAX_ZOOM;
+    while (zoom > 1 && !fitsAt(zoom)) zoom--;
+  }
+
+  // Centre on the middle of the points' bounding box
+  const projected = coordinates.map(point => project(point, zoom));
+  const center = projected.length > 0
+    ? {
+      x: (Math.min(...projected.map(point => point.x)) + Math.max(...projected.map(point => point.x))) / 2,
+      y: (Math.min(...projected.map(point => point.y)) + Math.max(...projected.map(point => point.y))) / 2,
+    }
+    : project(MAP_CONFIG.defaultCenter, zoom);
+  const originX = Math.round(center.x - width / 2);
+  const originY = Math.round(center.y - height / 2);
+
+  const tileCount = 2 ** zoom;
+  const tiles: StaticMapTile[] = [];
+  for (let tileY = Math.floor(originY / TILE_SIZE); tileY * TILE_SIZE < originY + height; tileY++) {
+    if (tileY < 0 || tileY >= tileCount) continue;
+    for (let tileX = Math.floor(originX / TILE_SIZE); tileX * TILE_SIZE < originX + width; tileX++) {
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      tiles.push({ url: getTileUrl(wrappedX, tileY, zoom), left: tileX * TILE_SIZE - originX, top: tileY * TILE_SIZE - originY });
+    }
+  }
+
+  return {
+    width,
+    height,
+    zoom,
+    tiles,
+    points: projected.map(point => ({ x: point.x - originX, y: point.y - originY })),
+  };
+}
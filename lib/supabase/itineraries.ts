@@ -0,0 +1,266 @@
+// lib/supabase/itineraries.ts
+import { createClient } from "./server";
+import type { ItineraryDay, ItineraryDetails, ItineraryRole, ItinerarySummary, LocationData, SharedItinerary } from "../types";
+import { isValidDurationMinutes, isValidTimeString, normalizeTimeString } from "../itinerary-schedule";
+import { customPlaceToLocationData, parseCustomPlaceId, toCustomPlaceLocationId, type CustomPlaceRow } from "../custom-places";
+import { STOP_NOTE_MAX_LENGTH } from "../constants";
+import { isValidCostAmount, sumStopCosts } from "../itinerary-budget";
+import { getCustomPlacesByIds } from "./places";
+import { toLocationCostFields } from "./locations";
+
+// Fetch catalog locations by ID, keyed by ID. Throws on database errors.
+async function getCatalogLocationMap(supabase: ReturnType<typeof createClient>, locationIds: string[]): Promise<Map<string, LocationData>> {
+    const locationMap = new Map<string, LocationData>();
+    if (locationIds.length === 0) return locationMap;
+
+    const { data: locationsData, error: fullLocationsError } = await supabase
+        .from("locations")
+        .select(`
+            id, name, description, latitude, longitude, images, cost_estimate, cost_currency, is_free,
+            categories!inner ( name )
+        `)
+        .in("id", locationIds);
+
+    if (fullLocationsError) {
+        throw new Error(`Failed to fetch location details: ${fullLocationsError.message}`);
+    }
+
+    locationsData?.forEach(location => {
+        // Check if categories is an array and has at least one element
+        const categoryName = (Array.isArray(location.categories) && location.categories.length > 0)
+            ? location.categories[0].name // Access the name from the first element
+            : (location.categories && typeof location.categories === 'object' && 'name' in location.categories)
+                ? (location.categories as { name: string }).name // Handle if it's already an object
+                : 'Unknown'; // Fallback category name
+
+        locationMap.set(location.id, {
+            id: location.id,
+            name: location.name,
+            description: location.description,
+            category: categoryName,
+            coordinates: [location.latitude, location.longitude] as [number, number],
+            images: Array.isArray(location.images) ? location.images : JSON.parse(location.images || '[]'),
+            ...toLocationCostFields(location),
+        });
+    });
+    return locationMap;
+}
+
+// cost_override is NUMERIC, which may come back as a string
+function toCostOverride(value: unknown): number | undefined {
+    return value === null || value === undefined ? undefined : Number(value);
+}
+
+// Work out a user's role from an itinerary row selected with "user_id, itinerary_members(user_id, role)"
+function toItineraryRole(itinerary: any, userId: string): ItineraryRole | null {
+    if (itinerary.user_id === userId) return 'owner';
+    const membership = (itinerary.itinerary_members || []).find((member: any) => member.user_id === userId);
+    return membership?.role ?? null;
+}
+
+// Helper to check a user's access (shared by the /api/itineraries/[id] routes).
+// Returns null if the itinerary doesn't exist or isn't shared with the user.
+export async function getItineraryRole(supabase: ReturnType<typeof createClient>, itineraryId: number, userId: string): Promise<ItineraryRole | null> {
+    const { data, error } = await supabase
+        .from("user_itineraries")
+        .select("user_id, itinerary_members(user_id, role)")
+        .eq("id", itineraryId)
+        .maybeSingle();
+
+    if (error) {
+        console.error("Error checking itinerary access:", error.message);
+        return null;
+    }
+    return data ? toItineraryRole(data, userId) : null;
+}
+
+// Fetch the dashboard list of itineraries a user owns or is a member of, with their cost totals. Throws on database errors.
+export async function getItinerarySummaries(supabase: ReturnType<typeof createClient>, userId: string): Promise<ItinerarySummary[]> {
+    // RLS limits this to itineraries the user owns or has joined. Only the cost columns of each stop are
+    // fetched; custom places have no estimate of their own (and another member's wouldn't be visible anyway).
+    const { data, error } = await supabase
+        .from("user_itineraries")
+        .select(`
+            id, name, start_date, user_id, itinerary_members(user_id, role),
+            itinerary_days(itinerary_locations(cost_override, locations(cost_estimate, cost_currency, is_free)))
+        `)
+        .order("created_at", { ascending: true }); // Or order by name, etc.
+
+    if (error) {
+        throw new Error(`Failed to fetch itineraries: ${error.message}`);
+    }
+
+    return (data || [])
+        .map((itinerary: any) => ({
+            id: itinerary.id,
+            name: itinerary.name,
+            startDate: itinerary.start_date ?? null,
+            dayCount: itinerary.itinerary_days?.length ?? 0,
+            role: toItineraryRole(itinerary, userId),
+            costTotals: sumStopCosts((itinerary.itinerary_days || []).flatMap((day: any) => day.itinerary_locations || []).map((stop: any) => ({
+                ...(stop.locations ? toLocationCostFields(stop.locations) : {}),
+                costOverride: toCostOverride(stop.cost_override),
+            }))),
+        }))
+        .filter((itinerary): itinerary is ItinerarySummary => itinerary.role !== null);
+}
+
+// Fetch an itinerary the user owns or is a member of, with its days and full location data.
+// Returns null if the itinerary doesn't exist or isn't shared with the user; throws on database errors.
+export async function getItineraryDetails(supabase: ReturnType<typeof createClient>, itineraryId: number, userId: string): Promise<ItineraryDetails | null> {
+    // Check access (RLS also enforces this, but the role is needed anyway)
+    const { data: itineraryInfo, error: itineraryError } = await supabase
+        .from("user_itineraries")
+        .select("id, name, start_date, version, user_id, itinerary_members(user_id, role)")
+        .eq("id", itineraryId)
+        .maybeSingle();
+
+    if (itineraryError) {
+        throw new Error(`Failed to verify itinerary access: ${itineraryError.message}`);
+    }
+    const role = itineraryInfo ? toItineraryRole(itineraryInfo, userId) : null;
+    if (!itineraryInfo || !role) {
+        return null; // Not found or not shared with the user
+    }
+
+    const details: ItineraryDetails = {
+        id: itineraryId,
+        name: itineraryInfo.name,
+        startDate: itineraryInfo.start_date ?? null,
+        version: itineraryInfo.version,
+        role,
+        days: [],
+    };
+
+    // Fetch all days for this itinerary
+    const { data: days, error: daysError } = await supabase
+        .from("itinerary_days")
+        .select("id, day_number")
+        .eq("itinerary_id", itineraryId)
+        .order("day_number");
+
+    if (daysError) {
+        throw new Error(`Failed to fetch itinerary days: ${daysError.message}`);
+    }
+
+    if (!days || days.length === 0) {
+        // Itinerary exists but has no days (e.g., immediately after creation before default day insert finishes?)
+        return details;
+    }
+
+    // Fetch all locations for these days
+    const dayIds = days.map(day => day.id);
+    const { data: itineraryLocations, error: locationsError } = await supabase
+        .from("itinerary_locations")
+        .select("day_id, location_id, custom_place_id, position, start_time, duration_minutes, note, cost_override")
+        .in("day_id", dayIds)
+        .order("position");
+
+    if (locationsError) {
+        throw new Error(`Failed to fetch itinerary locations: ${locationsError.message}`);
+    }
+
+    // Extract all unique location IDs (catalog locations and custom places of the user or other members)
+    const locationIds = Array.from(new Set(itineraryLocations?.map(item => item.location_id).filter((id): id is string => !!id) || []));
+    const customPlaceIds = Array.from(new Set(itineraryLocations?.map(item => item.custom_place_id).filter((id): id is number => !!id) || []));
+    const locationMap = await getCatalogLocationMap(supabase, locationIds);
+
+    const customPlaces = await getCustomPlacesByIds(supabase, customPlaceIds);
+    customPlaces.forEach(place => locationMap.set(place.id, place));
+
+    // Assemble the days array with their locations
+    details.days = days.map(day => {
+        const dayLocations = itineraryLocations
+            ?.filter(item => item.day_id === day.id)
+            .map((item): LocationData | undefined => {
+                const location = locationMap.get(item.location_id ?? toCustomPlaceLocationId(item.custom_place_id));
+                if (!location) return undefined;
+                // Copy so the same place on several days keeps its own stop fields
+                return {
+                    ...location,
+                    startTime: normalizeTimeString(item.start_time),
+                    durationMinutes: item.duration_minutes ?? undefined,
+                    note: item.note ?? undefined,
+                    costOverride: toCostOverride(item.cost_override),
+                };
+            })
+            .filter((loc): loc is LocationData => !!loc); // Type guard to ensure only valid LocationData objects
+
+        return {
+            id: day.day_number, // Use day_number as the client-side ID
+            locations: dayLocations || []
+        };
+    });
+
+    return details;
+}
+
+// Fetch the itinerary shared under a public share token (no login needed).
+// Returns null if the token doesn't match a shared itinerary; throws on database errors.
+export async function getSharedItinerary(supabase: ReturnType<typeof createClient>, token: string): Promise<SharedItinerary | null> {
+    const { data, error } = await supabase.rpc('get_shared_itinerary', { _token: token });
+
+    if (error) {
+        throw new Error(`Failed to fetch shared itinerary: ${error.message}`);
+    }
+    if (!data) {
+        return null;
+    }
+
+    const [days] = await resolveStoredDays(supabase, [data.days || []]);
+    return {
+        name: data.name,
+        startDate: data.start_date ?? null,
+        days,
+    };
+}
+
+// Turn days stored as JSONB by get_shared_itinerary or create_itinerary_snapshot (catalog location ids plus copies of
+// custom places) into ItineraryDays, looking up all catalog locations in one query. Catalog locations that no longer exist are left out.
+export async function resolveStoredDays(supabase: ReturnType<typeof createClient>, storedDaysList: any[][]): Promise<ItineraryDay[][]> {
+    const locationIds = Array.from(new Set(
+        storedDaysList.flatMap(storedDays => storedDays.flatMap(day => day.locations.map((item: any) => item.location_id)))
+            .filter((id): id is string => !!id)
+    ));
+    const locationMap = await getCatalogLocationMap(supabase, locationIds);
+
+    return storedDaysList.map(storedDays => storedDays.map(day => ({
+        id: day.day_number,
+        locations: day.locations
+            .map((item: any): LocationData | undefined => {
+                // Private place notes are not stored with the days
+                const location = item.custom_place
+                    ? customPlaceToLocationData({ ...(item.custom_place as Omit<CustomPlaceRow, 'notes'>), notes: null })
+                    : locationMap.get(item.location_id);
+                if (!location) return undefined;
+                return {
+                    ...location,
+                    startTime: normalizeTimeString(item.start_time),
+                    durationMinutes: item.duration_minutes ?? undefined,
+                    note: item.note ?? undefined,
+                    costOverride: toCostOverride(item.cost_override),
+                };
+            })
+            .filter((loc: LocationData | undefined): loc is LocationData => !!loc),
+    })));
+}
+
+// Shape the days for the update_itinerary RPC. Invalid stop times/durations/costs are dropped rather than rejected,
+// and over-long notes are truncated.
+export function toItineraryDaysData(days: ItineraryDay[]) {
+    return days.map(day => ({
+        day_number: day.id,
+        locations: day.locations.map(loc => {
+            // Custom places are stored by their user_places id instead of a catalog location id
+            const customPlaceId = parseCustomPlaceId(loc.id);
+            return {
+                id: customPlaceId === null ? loc.id : null,
+                custom_place_id: customPlaceId,
+                start_time: isValidTimeString(loc.startTime) ? loc.startTime : null,
+                duration_minutes: isValidDurationMinutes(loc.durationMinutes) ? loc.durationMinutes : null,
+                note: typeof loc.note === 'string' && loc.note.trim() ? loc.note.slice(0, STOP_NOTE_MAX_LENGTH) : null,
+                cost_override: isValidCostAmount(loc.costOverride) ? loc.costOverride : null,
+            };
+        })
+    }));
+}
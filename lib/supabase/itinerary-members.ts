@@ -0,0 +1,78 @@
+// lib/supabase/itinerary-members.ts
+import { createClient } from "./server";
+import type { ItineraryInvitation, ItineraryInvitationPreview, ItineraryMember, PendingItineraryInvitation } from "../types";
+
+// Fetch the members of an itinerary (not including its owner). Throws on database errors.
+export async function getItineraryMembers(supabase: ReturnType<typeof createClient>, itineraryId: number): Promise<ItineraryMember[]> {
+    const { data, error } = await supabase
+        .from("itinerary_members")
+        .select("user_id, email, role")
+        .eq("itinerary_id", itineraryId)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to fetch itinerary members: ${error.message}`);
+    }
+
+    return (data || []).map(member => ({
+        userId: member.user_id,
+        email: member.email,
+        role: member.role,
+    }));
+}
+
+// Fetch the open invitations of an itinerary (RLS limits this to its owner). Throws on database errors.
+export async function getItineraryInvitations(supabase: ReturnType<typeof createClient>, itineraryId: number): Promise<ItineraryInvitation[]> {
+    const { data, error } = await supabase
+        .from("itinerary_invitations")
+        .select("id, email, role, token")
+        .eq("itinerary_id", itineraryId)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to fetch itinerary invitations: ${error.message}`);
+    }
+
+    return (data || []).map(invitation => ({
+        id: invitation.id,
+        email: invitation.email ?? null,
+        role: invitation.role,
+        token: invitation.token,
+    }));
+}
+
+// Fetch what an invitation token offers. Returns null for unknown tokens; throws on database errors.
+export async function getItineraryInvitationPreview(supabase: ReturnType<typeof createClient>, token: string): Promise<ItineraryInvitationPreview | null> {
+    const { data, error } = await supabase.rpc('get_itinerary_invitation', { _token: token });
+
+    if (error) {
+        throw new Error(`Failed to fetch invitation: ${error.message}`);
+    }
+    if (!data) {
+        return null;
+    }
+
+    return {
+        itineraryId: data.itinerary_id,
+        itineraryName: data.itinerary_name,
+        role: data.role,
+        email: data.email ?? null,
+        currentRole: data.current_role ?? null,
+    };
+}
+
+// Fetch the email invitations addressed to the current user. Throws on database errors.
+export async function getPendingItineraryInvitations(supabase: ReturnType<typeof createClient>): Promise<PendingItineraryInvitation[]> {
+    const { data, error } = await supabase.rpc('get_my_itinerary_invitations');
+
+    if (error) {
+        throw new Error(`Failed to fetch invitations: ${error.message}`);
+    }
+
+    return ((data as any[]) || []).map(invitation => ({
+        token: invitation.token,
+        role: invitation.role,
+        itineraryId: invitation.itinerary_id,
+        itineraryName: invitation.itinerary_name,
+    }));
+}
@@ -0,0 +1,69 @@
+// lib/supabase/itinerary-snapshots.ts
+import { createClient } from "./server";
+import type { ItinerarySnapshot } from "../types";
+import { resolveStoredDays } from "./itineraries";
+import { getCustomPlacesByIds } from "./places";
+import { parseCustomPlaceId } from "../custom-places";
+import { SNAPSHOT_CONFIG } from "../constants";
+
+// Fetch an itinerary's snapshots, newest first (RLS limits this to its members). Throws on database errors.
+// Stops at custom places the user can no longer see (deleted, or owned by someone who left) are left out,
+// so restoring a snapshot never refers to a place the save would reject.
+export async function getItinerarySnapshots(supabase: ReturnType<typeof createClient>, itineraryId: number): Promise<ItinerarySnapshot[]> {
+    const { data, error } = await supabase
+        .from("itinerary_snapshots")
+        .select("id, version, label, days, created_at")
+        .eq("itinerary_id", itineraryId)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to fetch itinerary snapshots: ${error.message}`);
+    }
+
+    const snapshots = data || [];
+    const resolvedDays = await resolveStoredDays(supabase, snapshots.map(snapshot => snapshot.days || []));
+
+    const customPlaceIds = Array.from(new Set(resolvedDays.flatMap(days => days.flatMap(day => day.locations))
+        .map(location => parseCustomPlaceId(location.id))
+        .filter((id): id is number => id !== null)));
+    const visiblePlaceIds = new Set((await getCustomPlacesByIds(supabase, customPlaceIds)).map(place => place.id));
+
+    return snapshots.map((snapshot, index) => ({
+        id: snapshot.id,
+        version: snapshot.version,
+        label: snapshot.label ?? null,
+        createdAt: snapshot.created_at,
+        days: resolvedDays[index].map(day => ({
+            ...day,
+            locations: day.locations.filter(location => !location.isCustom || visiblePlaceIds.has(location.id)),
+        })),
+    }));
+}
+
+// Store the itinerary's current days as a snapshot. Labelled snapshots are always stored; automatic ones
+// (label null) are skipped when nothing changed or the last snapshot is recent. Returns the new snapshot's id
+// or null if it was skipped. Throws on database errors, including when the user can't edit the itinerary.
+export async function createItinerarySnapshot(supabase: ReturnType<typeof createClient>, itineraryId: number, label: string | null): Promise<number | null> {
+    const { data, error } = await supabase.rpc('create_itinerary_snapshot', {
+        _itinerary_id: itineraryId,
+        _label: label,
+        _min_interval: `${SNAPSHOT_CONFIG.autoIntervalMinutes} minutes`,
+    });
+
+    if (error) {
+        throw new Error(`Failed to create itinerary snapshot: ${error.message}`);
+    }
+
+    return data ?? null;
+}
+
+// Take an automatic snapshot of the stored days before a save replaces them.
+// Never throws: losing a history entry is better than losing the save.
+export async function snapshotBeforeSave(supabase: ReturnType<typeof createClient>, itineraryId: number): Promise<void> {
+    try {
+        await createItinerarySnapshot(supabase, itineraryId, null);
+    } catch (error) {
+        console.error(`Failed to snapshot itinerary ${itineraryId} before saving:`, error);
+    }
+}
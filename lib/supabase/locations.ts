@@ -2,6 +2,15 @@
 import { createClient } from "./server";
 import { LocationData } from "../types";
 
+// The cost estimate columns of a locations row as LocationData fields
+export function toLocationCostFields(location: any): Pick<LocationData, 'costEstimate' | 'costCurrency' | 'isFree'> {
+  return {
+    ...(location.cost_estimate !== null && location.cost_estimate !== undefined && { costEstimate: Number(location.cost_estimate) }),
+    ...(location.cost_currency && { costCurrency: location.cost_currency }),
+    ...(location.is_free && { isFree: true }),
+  };
+}
+
 export async function getLocations(): Promise<LocationData[]> {
   const supabase = createClient();
 
@@ -10,7 +19,7 @@ export async function getLocations(): Promise<LocationData[]> {
   const { data, error } = await supabase
     .from("locations")
     .select(`
-      id, name, description, latitude, longitude, images,
+      id, name, description, latitude, longitude, images, cost_estimate, cost_currency, is_free,
       categories!inner (
         name
       )
@@ -28,7 +37,8 @@ export async function getLocations(): Promise<LocationData[]> {
     description: location.description,
     category: location.categories.name,
     coordinates: [location.latitude, location.longitude] as [number, number],
-    images: Array.isArray(location.images) ? location.images : JSON.parse(location.images || '[]')
+    images: Array.isArray(location.images) ? location.images : JSON.parse(location.images || '[]'),
+    ...toLocationCostFields(location),
     // details_markdown is omitted here
   }));
 }
@@ -63,6 +73,7 @@ export async function getLocationById(id: string): Promise<LocationData | null>
     coordinates: [data.latitude, data.longitude] as [number, number],
     images: Array.isArray(data.images) ? data.images : JSON.parse(data.images || '[]'),
     details_markdown: data.details_markdown || '', // Add markdown field
+    ...toLocationCostFields(data),
   };
 }
 
@@ -98,9 +109,42 @@ export async function getLocationBySlug(slug: string): Promise<LocationData | nu
       coordinates: [data.latitude, data.longitude] as [number, number],
       images: Array.isArray(data.images) ? data.images : JSON.parse(data.images || '[]'),
       details_markdown: data.details_markdown || '', // Add markdown field
+      ...toLocationCostFields(data),
     };
   } catch (error) {
     console.error("Exception in getLocationBySlug:", error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+// Locations the user has favorited, most recent first. Throws on database errors so exports don't silently come out empty.
+export async function getFavoriteLocations(userId: string): Promise<LocationData[]> {
+  const supabase = createClient();
+
+  const { data, error } = await supabase
+    .from("user_favorites")
+    .select(`
+      locations!inner (
+        id, name, description, latitude, longitude, images, cost_estimate, cost_currency, is_free,
+        categories!inner (
+          name
+        )
+      )
+    `)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch favorite locations: ${error.message}`);
+  }
+
+  return (data || []).map((favorite: any) => ({
+    id: favorite.locations.id,
+    name: favorite.locations.name,
+    description: favorite.locations.description,
+    category: favorite.locations.categories.name,
+    coordinates: [favorite.locations.latitude, favorite.locations.longitude] as [number, number],
+    images: Array.isArray(favorite.locations.images) ? favorite.locations.images : JSON.parse(favorite.locations.images || '[]'),
+    ...toLocationCostFields(favorite.locations),
+  }));
+}
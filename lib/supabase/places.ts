@@ -0,0 +1,35 @@
+// lib/supabase/places.ts
+import { createClient } from "./server";
+import { customPlaceToLocationData, type CustomPlaceRow } from "../custom-places";
+import type { LocationData } from "../types";
+
+export const CUSTOM_PLACE_COLUMNS = "id, name, latitude, longitude, address, notes";
+
+// Fetch a user's custom places as LocationData. Throws on database errors.
+export async function getCustomPlaces(supabase: ReturnType<typeof createClient>, userId: string): Promise<LocationData[]> {
+    const { data, error } = await supabase
+        .from("user_places")
+        .select(CUSTOM_PLACE_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to fetch custom places: ${error.message}`);
+    }
+
+    return (data as CustomPlaceRow[] || []).map(customPlaceToLocationData);
+}
+
+// Fetch specific custom places: the current user's own, and those used in itineraries shared with them
+// (without their owner's private notes). Throws on database errors.
+export async function getCustomPlacesByIds(supabase: ReturnType<typeof createClient>, placeIds: number[]): Promise<LocationData[]> {
+    if (placeIds.length === 0) return [];
+
+    const { data, error } = await supabase.rpc("get_custom_places", { _place_ids: placeIds });
+
+    if (error) {
+        throw new Error(`Failed to fetch custom places: ${error.message}`);
+    }
+
+    return (data as CustomPlaceRow[] || []).map(customPlaceToLocationData);
+}
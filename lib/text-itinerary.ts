@@ -0,0 +1,211 @@
+// lib/text-itinerary.ts
+// Turning free-form trip text ("Day 1: Meiji Shrine, then Harajuku...") into days of catalog locations
+// without an LLM: the text is split at day headings and place names are found with a fuzzy matcher.
+import type { LocationData } from '@/lib/types';
+import { normalizePlaceName } from '@/lib/import-matching';
+
+export interface TextItineraryStop {
+  location: LocationData;
+  mention: string | null; // The words in the text that matched, if known
+}
+
+export interface TextItineraryDraft {
+  name: string | null;
+  days: { stops: TextItineraryStop[] }[];
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+// "Day 1", "day two", "Second day", "1日目"
+const DAY_HEADING_PATTERN = /\bday\s*(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten)\b|\b(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)\s+day\b|(\d{1,2})\s*日目/gi;
+
+// Words that describe what a place is rather than which place it is; "Meiji" alone still means Meiji Shrine
+const GENERIC_NAME_WORDS = new Set([
+  'shrine', 'temple', 'jinja', 'jingu', 'tera', 'park', 'garden', 'gardens', 'museum', 'station', 'tower',
+  'market', 'street', 'st', 'crossing', 'area', 'district', 'center', 'centre', 'building', 'hall',
+  'national', 'imperial', 'japanese', 'old', 'new', 'outer', 'inner', 'the', 'of', 'and', 'tokyo', 'japan',
+]);
+
+const MIN_CORE_NAME_LENGTH = 5; // Shorter core names ("Ueno" is fine, "Zoo" is not) match too much prose
+
+interface TextToken {
+  norm: string;
+  start: number;
+  end: number;
+}
+
+interface PlaceAlias {
+  location: LocationData;
+  key: string; // Normalized, without spaces
+  tokenCount: number;
+  isCore: boolean; // Name without generic words
+}
+
+interface PlaceCandidate {
+  location: LocationData;
+  startToken: number;
+  endToken: number; // Exclusive
+  score: number;
+}
+
+function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  const pattern = /[^\s.,;:!?()[\]{}"“”/&+→>|]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const norm = normalizePlaceName(match[0]);
+    if (norm) tokens.push({ norm, start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos allowed for a name of this length: none for short names, then about one per six letters
+function maxEditsFor(length: number): number {
+  if (length <= 5) return 0;
+  if (length <= 8) return 1;
+  return Math.floor(length / 6);
+}
+
+// Full names plus alternative names in parentheses or after a slash ("Tokyo Skytree (Sky Tree)"),
+// and each name without its generic words when that is still distinctive
+function buildAliases(locations: LocationData[]): PlaceAlias[] {
+  const fullAliases: PlaceAlias[] = [];
+  const coreAliases: PlaceAlias[] = [];
+  locations.forEach(location => {
+    location.name.split(/[()/]/).map(part => part.trim()).filter(Boolean).forEach(name => {
+      const words = name.split(/[\s-]+/).map(normalizePlaceName).filter(Boolean);
+      if (words.length === 0) return;
+      fullAliases.push({ location, key: words.join(''), tokenCount: words.length, isCore: false });
+      const coreWords = words.filter(word => !GENERIC_NAME_WORDS.has(word));
+      const coreKey = coreWords.join('');
+      if (coreWords.length > 0 && coreWords.length < words.length && coreKey.length >= MIN_CORE_NAME_LENGTH) {
+        coreAliases.push({ location, key: coreKey, tokenCount: coreWords.length, isCore: true });
+      }
+    });
+  });
+
+  // A core name shared by several places (or equal to another place's full name) identifies none of them
+  const keyOwners = new Map<string, Set<string>>();
+  [...fullAliases, ...coreAliases].forEach(alias => {
+    keyOwners.set(alias.key, (keyOwners.get(alias.key) ?? new Set()).add(alias.location.id));
+  });
+  return [...fullAliases, ...coreAliases.filter(alias => keyOwners.get(alias.key)!.size === 1)];
+}
+
+function findCandidates(tokens: TextToken[], aliases: PlaceAlias[]): PlaceCandidate[] {
+  const candidates: PlaceCandidate[] = [];
+  aliases.forEach(alias => {
+    const maxEdits = maxEditsFor(alias.key.length);
+    // "Senso-ji" may be written "Senso ji" or "Sensoji", so try a word more and a word less
+    for (let windowSize = Math.max(1, alias.tokenCount - 1); windowSize <= alias.tokenCount + 1; windowSize++) {
+      for (let start = 0; start + windowSize <= tokens.length; start++) {
+        if (tokens[start].norm[0] !== alias.key[0]) continue;
+        const text = tokens.slice(start, start + windowSize).map(token => token.norm).join('');
+        if (Math.abs(text.length - alias.key.length) > maxEdits) continue;
+        const edits = text === alias.key ? 0 : levenshtein(text, alias.key);
+        if (edits > maxEdits) continue;
+        const similarity = 1 - edits / Math.max(text.length, alias.key.length);
+        candidates.push({
+          location: alias.location,
+          startToken: start,
+          endToken: start + windowSize,
+          score: similarity + (alias.isCore ? 0 : 0.05) + alias.key.length / 1000, // Prefer full and longer names
+        });
+      }
+    }
+  });
+  return candidates;
+}
+
+// Best non-overlapping matches in text order, each place once
+function findPlaceMentions(text: string, aliases: PlaceAlias[]): TextItineraryStop[] {
+  const tokens = tokenize(text);
+  const candidates = findCandidates(tokens, aliases).sort((a, b) => b.score - a.score);
+  const usedTokens = new Set<number>();
+  const chosen: PlaceCandidate[] = [];
+  candidates.forEach(candidate => {
+    for (let i = candidate.startToken; i < candidate.endToken; i++) {
+      if (usedTokens.has(i)) return;
+    }
+    for (let i = candidate.startToken; i < candidate.endToken; i++) usedTokens.add(i);
+    chosen.push(candidate);
+  });
+
+  const seen = new Set<string>();
+  return chosen
+    .sort((a, b) => a.startToken - b.startToken)
+    .filter(candidate => {
+      if (seen.has(candidate.location.id)) return false;
+      seen.add(candidate.location.id);
+      return true;
+    })
+    .map(candidate => ({
+      location: candidate.location,
+      mention: text.slice(tokens[candidate.startToken].start, tokens[candidate.endToken - 1].end),
+    }));
+}
+
+function toDayNumber(match: RegExpExecArray): number {
+  const value = (match[1] ?? match[2] ?? match[3]).toLowerCase();
+  return NUMBER_WORDS[value] ?? Number(value);
+}
+
+/**
+ * Splits the text at day headings. Text before the first heading counts as the day before it
+ * (so "Meiji Shrine... Day 2: ..." works) or, if that is day 1, as an introduction and is skipped.
+ * Without any headings the whole text is one day. Repeated day numbers are merged.
+ */
+export function splitTextIntoDays(text: string): { day: number; text: string }[] {
+  const headings: { day: number; index: number; end: number }[] = [];
+  const pattern = new RegExp(DAY_HEADING_PATTERN.source, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    headings.push({ day: toDayNumber(match), index: match.index, end: match.index + match[0].length });
+  }
+  if (headings.length === 0) return [{ day: 1, text }];
+
+  const sections = headings.map((heading, i) => ({
+    day: heading.day,
+    text: text.slice(heading.end, headings[i + 1]?.index ?? text.length),
+  }));
+  const preface = text.slice(0, headings[0].index);
+  if (headings[0].day > 1 && preface.trim()) {
+    sections.unshift({ day: headings[0].day - 1, text: preface });
+  }
+
+  const byDay = new Map<number, string>();
+  sections.forEach(section => byDay.set(section.day, `${byDay.get(section.day) ?? ''}\n${section.text}`));
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([day, dayText]) => ({ day, text: dayText }));
+}
+
+// A short first line that isn't a day heading is usually the trip's title
+function guessTripName(text: string): string | null {
+  const firstLine = text.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).find(Boolean);
+  if (!firstLine || firstLine.length > 60) return null;
+  return new RegExp(DAY_HEADING_PATTERN.source, 'i').test(firstLine) ? null : firstLine;
+}
+
+export function parseTextItinerary(text: string, locations: LocationData[]): TextItineraryDraft {
+  const aliases = buildAliases(locations);
+  return {
+    name: guessTripName(text),
+    days: splitTextIntoDays(text).map(section => ({ stops: findPlaceMentions(section.text, aliases) })),
+  };
+}
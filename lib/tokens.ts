@@ -0,0 +1,7 @@
+// lib/tokens.ts
+import { randomBytes } from "crypto";
+
+// Unguessable token for share and invitation links: 24 random bytes = 32 URL-safe characters. Server only.
+export function generateUrlToken(): string {
+  return randomBytes(24).toString("base64url");
+}
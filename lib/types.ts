@@ -7,6 +7,17 @@ export interface LocationData {
   coordinates: [number, number]
   images: string[]
   details_markdown?: string // Added markdown field (optional)
+  isCustom?: boolean // User's own place from user_places (id is "custom-<n>"); has no /location page
+  address?: string // Custom places only
+  // Typical admission or spend per person, catalog locations only
+  costEstimate?: number // In costCurrency
+  costCurrency?: string // ISO 4217 code; BUDGET_CONFIG.defaultCurrency when not set
+  isFree?: boolean
+  // Per-stop fields, only set on locations inside an itinerary day
+  startTime?: string // Planned start, 'HH:MM' in Tokyo time
+  durationMinutes?: number // Planned visit length
+  note?: string // Personal markdown note
+  costOverride?: number // The user's own cost estimate for this stop, in the stop's currency
 }
 
 export interface ItineraryDay {
@@ -14,6 +25,87 @@ export interface ItineraryDay {
   locations: LocationData[];
 }
 
+// Estimated cost of a set of stops, per currency (amounts in different currencies are never added up)
+export interface CostTotals {
+  amounts: Record<string, number>; // By ISO 4217 currency code
+  unpricedCount: number; // Stops with neither an estimate nor an override
+}
+
+// Where a location sits in the plan, e.g. { dayId: 2, stopNumber: 3 } is shown as "2.3"
+export interface PlannedStopRef {
+  dayId: number;
+  stopNumber: number; // 1-based position within the day
+}
+
+// The owner is user_itineraries.user_id; viewers and editors are itinerary members
+export type ItineraryRole = 'owner' | 'editor' | 'viewer';
+export type ItineraryMemberRole = Exclude<ItineraryRole, 'owner'>;
+
+export interface ItinerarySummary {
+  id: number;
+  name: string;
+  startDate: string | null; // 'YYYY-MM-DD', a calendar day in Tokyo
+  dayCount: number;
+  role: ItineraryRole; // The current user's role
+  costTotals: CostTotals; // Estimated cost of all stops
+}
+
+export interface ItineraryDetails {
+  id: number;
+  name: string;
+  startDate: string | null;
+  version: number; // Content version; saves must be based on the latest one
+  role: ItineraryRole; // The current user's role
+  days: ItineraryDay[];
+}
+
+export interface ItineraryMember {
+  userId: string;
+  email: string;
+  role: ItineraryMemberRole;
+}
+
+// An open invitation, as the itinerary owner sees it
+export interface ItineraryInvitation {
+  id: number;
+  email: string | null; // null for a link anyone logged in can use
+  role: ItineraryMemberRole;
+  token: string;
+}
+
+// An email invitation addressed to the current user
+export interface PendingItineraryInvitation {
+  token: string;
+  role: ItineraryMemberRole;
+  itineraryId: number;
+  itineraryName: string;
+}
+
+// What the /invite/[token] page shows before the invitation is accepted
+export interface ItineraryInvitationPreview {
+  itineraryId: number;
+  itineraryName: string;
+  role: ItineraryMemberRole; // Role the invitation gives
+  email: string | null; // Who it's addressed to; null for link invitations
+  currentRole: ItineraryRole | null; // The current user's role, if they already have access
+}
+
+// What the public read-only share page shows
+export interface SharedItinerary {
+  name: string;
+  startDate: string | null;
+  days: ItineraryDay[];
+}
+
+// A past version of an itinerary's days, from its version history
+export interface ItinerarySnapshot {
+  id: number;
+  version: number; // Itinerary version the snapshot was taken at
+  label: string | null; // Set for versions saved by hand; null for automatic snapshots
+  createdAt: string;
+  days: ItineraryDay[]; // Places deleted since are left out
+}
+
 export interface CategoryFilterProps {
   categories: string[]
   onFilterChange: (selectedCategories: string[]) => void
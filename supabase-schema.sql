@@ -3,6 +3,19 @@
 -- ==================================
 -- Drop dependent objects first (functions, policies)
 DROP FUNCTION IF EXISTS public.update_itinerary(integer, jsonb);
+DROP FUNCTION IF EXISTS public.update_itinerary(integer, jsonb, integer);
+DROP FUNCTION IF EXISTS public.patch_itinerary(integer, jsonb, integer);
+DROP FUNCTION IF EXISTS public.get_shared_itinerary(text);
+DROP FUNCTION IF EXISTS public.duplicate_itinerary(integer, text);
+DROP FUNCTION IF EXISTS public.get_itinerary_invitation(text);
+DROP FUNCTION IF EXISTS public.accept_itinerary_invitation(text);
+DROP FUNCTION IF EXISTS public.decline_itinerary_invitation(text);
+DROP FUNCTION IF EXISTS public.get_my_itinerary_invitations();
+DROP FUNCTION IF EXISTS public.create_itinerary_snapshot(integer, text, interval);
+DROP FUNCTION IF EXISTS public.protect_itinerary_owner_columns() CASCADE; -- Also drops its trigger
+DROP FUNCTION IF EXISTS public.get_itinerary_role(integer) CASCADE; -- Also drops the policies that use it
+DROP FUNCTION IF EXISTS public.is_itinerary_place(integer, integer) CASCADE;
+DROP FUNCTION IF EXISTS public.get_custom_places(integer[]);
 DROP FUNCTION IF EXISTS public.create_new_itinerary(text); -- Add drop for new function if needed
 
 DROP POLICY IF EXISTS "Allow public read access" ON public.locations;
@@ -13,11 +26,25 @@ DROP POLICY IF EXISTS "Allow individual user access" ON public.user_favorites;
 DROP POLICY IF EXISTS "Allow individual user access for itineraries" ON public.user_itineraries; -- Renamed for clarity
 DROP POLICY IF EXISTS "Allow access for itinerary owner" ON public.itinerary_days;
 DROP POLICY IF EXISTS "Allow access for itinerary owner" ON public.itinerary_locations;
+DROP POLICY IF EXISTS "Allow individual user access" ON public.user_places;
+DROP POLICY IF EXISTS "Allow members to read places used in their itineraries" ON public.user_places;
+DROP POLICY IF EXISTS "Allow members to read itineraries" ON public.user_itineraries;
+DROP POLICY IF EXISTS "Allow users to create their own itineraries" ON public.user_itineraries;
+DROP POLICY IF EXISTS "Allow editors to update itineraries" ON public.user_itineraries;
+DROP POLICY IF EXISTS "Allow owner to delete itineraries" ON public.user_itineraries;
+DROP POLICY IF EXISTS "Allow read access for itinerary members" ON public.itinerary_days;
+DROP POLICY IF EXISTS "Allow changes by itinerary editors" ON public.itinerary_days;
+DROP POLICY IF EXISTS "Allow read access for itinerary members" ON public.itinerary_locations;
+DROP POLICY IF EXISTS "Allow changes by itinerary editors" ON public.itinerary_locations;
 
 -- Drop tables in reverse order of dependency
+DROP TABLE IF EXISTS public.itinerary_snapshots;
+DROP TABLE IF EXISTS public.itinerary_invitations;
+DROP TABLE IF EXISTS public.itinerary_members;
 DROP TABLE IF EXISTS public.itinerary_locations;
 DROP TABLE IF EXISTS public.itinerary_days;
 DROP TABLE IF EXISTS public.user_itineraries;
+DROP TABLE IF EXISTS public.user_places;
 DROP TABLE IF EXISTS public.user_favorites;
 DROP TABLE IF EXISTS public.locations;
 DROP TABLE IF EXISTS public.categories;
@@ -42,7 +69,10 @@ CREATE TABLE public.locations (
   latitude FLOAT NOT NULL,
   longitude FLOAT NOT NULL,
   details_markdown TEXT, -- Added markdown content field
-  images JSONB NOT NULL DEFAULT '[]'::jsonb
+  images JSONB NOT NULL DEFAULT '[]'::jsonb,
+  cost_estimate NUMERIC(12, 2) CHECK (cost_estimate >= 0), -- Typical admission or spend per person; NULL if unknown
+  cost_currency CHAR(3) NOT NULL DEFAULT 'JPY' CHECK (cost_currency ~ '^[A-Z]{3}$'), -- ISO 4217 code of cost_estimate
+  is_free BOOLEAN NOT NULL DEFAULT FALSE -- No admission; cost_estimate is ignored
 );
 COMMENT ON TABLE public.locations IS 'Stores details about visitable locations.';
 
@@ -56,11 +86,28 @@ CREATE TABLE public.user_favorites (
 );
 COMMENT ON TABLE public.user_favorites IS 'Stores user favorite locations.';
 
+-- Create user places table (private places like a hotel or a booked restaurant, not part of the curated catalog)
+CREATE TABLE public.user_places (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  latitude FLOAT NOT NULL,
+  longitude FLOAT NOT NULL,
+  address TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+COMMENT ON TABLE public.user_places IS 'Stores custom places owned by a user. Only visible to their owner (members of itineraries that use them read them, without notes, through get_custom_places); usable as itinerary stops.';
+
 -- Create user itineraries table (MODIFIED)
 CREATE TABLE public.user_itineraries (
   id SERIAL PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   name TEXT NOT NULL, -- Added name field
+  start_date DATE, -- Optional first day of the trip (calendar day in Tokyo); the end date follows from the number of days
+  version INTEGER NOT NULL DEFAULT 1, -- Bumped by every content save (update_itinerary) so stale saves can be rejected
+  share_token TEXT UNIQUE, -- Unguessable token for the public read-only /share/[token] page; NULL when not shared
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   UNIQUE(user_id, name) -- Name must be unique per user
@@ -74,7 +121,7 @@ CREATE TABLE public.itinerary_days (
   day_number INTEGER NOT NULL CHECK (day_number > 0),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
-  UNIQUE(itinerary_id, day_number)
+  UNIQUE(itinerary_id, day_number) DEFERRABLE INITIALLY IMMEDIATE -- patch_itinerary defers it while renumbering
 );
 COMMENT ON TABLE public.itinerary_days IS 'Stores individual days within an itinerary.';
 
@@ -82,14 +129,57 @@ COMMENT ON TABLE public.itinerary_days IS 'Stores individual days within an itin
 CREATE TABLE public.itinerary_locations (
   id SERIAL PRIMARY KEY,
   day_id INTEGER NOT NULL REFERENCES public.itinerary_days(id) ON DELETE CASCADE,
-  location_id TEXT NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  location_id TEXT REFERENCES public.locations(id) ON DELETE CASCADE, -- Set for catalog locations...
+  custom_place_id INTEGER REFERENCES public.user_places(id) ON DELETE CASCADE, -- ...or for the user's own places
   position INTEGER NOT NULL CHECK (position >= 0),
+  start_time TIME, -- Optional planned start (wall-clock time in Tokyo)
+  duration_minutes INTEGER CHECK (duration_minutes > 0), -- Optional planned visit length
+  note TEXT, -- Optional personal markdown note for this stop
+  cost_override NUMERIC(12, 2) CHECK (cost_override >= 0), -- Optional user estimate, in the location's currency (JPY for custom places)
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   UNIQUE(day_id, location_id),
-  UNIQUE(day_id, position) -- Ensure position is unique within a day
+  UNIQUE(day_id, custom_place_id),
+  UNIQUE(day_id, position) DEFERRABLE INITIALLY IMMEDIATE, -- Ensure position is unique within a day (deferred while patch_itinerary shifts stops)
+  CHECK ((location_id IS NULL) <> (custom_place_id IS NULL)) -- Exactly one kind of place per stop
 );
 COMMENT ON TABLE public.itinerary_locations IS 'Stores the sequence of locations within an itinerary day.';
 
+-- Create itinerary members table (people an itinerary is shared with; the owner is user_itineraries.user_id and not listed here)
+CREATE TABLE public.itinerary_members (
+  id SERIAL PRIMARY KEY,
+  itinerary_id INTEGER NOT NULL REFERENCES public.user_itineraries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL, -- Copied (lowercased) from the member's account when they joined, so the others can see who they are
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor')), -- Viewers can only read; editors can also change days, stops and dates
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(itinerary_id, user_id)
+);
+COMMENT ON TABLE public.itinerary_members IS 'Stores the collaborators of an itinerary and their role. Rows are only created by accept_itinerary_invitation.';
+
+-- Create itinerary invitations table
+CREATE TABLE public.itinerary_invitations (
+  id SERIAL PRIMARY KEY,
+  itinerary_id INTEGER NOT NULL REFERENCES public.user_itineraries(id) ON DELETE CASCADE,
+  email TEXT, -- Only the account with this email can accept, once; NULL for a link anyone logged in can use until it's revoked
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor')), -- Role given on acceptance
+  token TEXT NOT NULL UNIQUE, -- Unguessable token used in the /invite/[token] link
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(itinerary_id, email)
+);
+COMMENT ON TABLE public.itinerary_invitations IS 'Stores open invitations to join an itinerary, by email or by link.';
+
+-- Create itinerary snapshots table (version history; update_itinerary replaces all days and stops on every save)
+CREATE TABLE public.itinerary_snapshots (
+  id SERIAL PRIMARY KEY,
+  itinerary_id INTEGER NOT NULL REFERENCES public.user_itineraries(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL, -- The itinerary's version when the snapshot was taken
+  label TEXT, -- Set when a member saved the version by hand; NULL for automatic snapshots
+  days JSONB NOT NULL, -- Days and stops in get_shared_itinerary's shape, with a copy of each custom place
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+COMMENT ON TABLE public.itinerary_snapshots IS 'Stores past versions of an itinerary''s days. Rows are only created (and old automatic ones pruned) by create_itinerary_snapshot.';
+
 -- ==================================
 --          INITIAL DATA
 -- ==================================
@@ -169,6 +259,26 @@ VALUES
   ('zojoji-temple', 'Zojoji Temple', 'Large Buddhist temple located next to Tokyo Tower, known for its massive Sanmon gate.', 'shrine', 35.6570, 139.7485, '["https://images.unsplash.com/photo-1624253321171-1be53e12f5f4", "https://images.unsplash.com/photo-1624253321171-1be53e12f5f4"]'::jsonb, 'Details need to be written.'),
   ('suntory-museum-of-art', 'Suntory Museum of Art', 'Museum in Tokyo Midtown focusing on "Art in Life", showcasing Japanese paintings, ceramics, textiles, and glass.', 'museum', 35.6660, 139.7316, '["https://images.unsplash.com/photo-1624253321171-1be53e12f5f4", "https://images.unsplash.com/photo-1624253321171-1be53e12f5f4"]'::jsonb, 'Details need to be written.');
 
+-- Typical cost per person in JPY (approximate admission or spend; prices change and users can override them per stop).
+-- Districts and shopping streets are left without an estimate, since what people spend there varies too much.
+UPDATE public.locations SET is_free = TRUE
+WHERE id IN (
+  'meiji-shrine', 'shibuya-crossing', 'ueno-park', 'senso-ji', 'yoyogi-park', 'inokashira-park', 'imperial-palace-east-garden',
+  'tokyo-metropolitan-govt-building', 'tokyo-station', 'rainbow-bridge', 'gotokuji-temple', 'yasukuni-shrine',
+  'suga-shrine-stairs', 'tokyo-international-forum', 'zojoji-temple'
+);
+
+UPDATE public.locations AS l SET cost_estimate = v.cost_estimate
+FROM (VALUES
+  ('tokyo-skytree', 2400), ('shinjuku-gyoen', 500), ('tsukiji-outer-market', 3000), ('tokyo-national-museum', 1000),
+  ('teamlab-planets', 3800), ('ghibli-museum', 1000), ('national-museum-nature-science', 630),
+  ('koishikawa-korakuen-garden', 300), ('hamarikyu-gardens', 300), ('kabuki-za-theatre', 2000), ('golden-gai', 3000),
+  ('showa-memorial-park', 450), ('tokyo-tower', 1200), ('tokyo-disneyland', 9400), ('nezu-museum', 1300),
+  ('rikugien-garden', 300), ('tokyo-disneysea', 9400), ('edo-tokyo-museum', 600), ('omoide-yokocho', 2500),
+  ('mori-art-museum', 2000), ('sumida-aquarium', 2500), ('shibuya-sky', 2500), ('suntory-museum-of-art', 1700)
+) AS v(id, cost_estimate)
+WHERE l.id = v.id;
+
 -- ==================================
 --          INDEXES
 -- ==================================
@@ -185,6 +295,10 @@ CREATE INDEX IF NOT EXISTS idx_itinerary_locations_day_id ON public.itinerary_lo
 -- (day_id, location_id) is already indexed by UNIQUE constraint on itinerary_locations
 CREATE INDEX IF NOT EXISTS idx_itinerary_locations_location_id ON public.itinerary_locations(location_id);
 -- (day_id, position) is already indexed by UNIQUE constraint on itinerary_locations
+CREATE INDEX IF NOT EXISTS idx_itinerary_members_user_id ON public.itinerary_members(user_id);
+-- (itinerary_id, user_id) is already indexed by UNIQUE constraint on itinerary_members
+CREATE INDEX IF NOT EXISTS idx_itinerary_invitations_email ON public.itinerary_invitations(lower(email));
+CREATE INDEX IF NOT EXISTS idx_itinerary_snapshots_itinerary_id ON public.itinerary_snapshots(itinerary_id, created_at DESC);
 
 -- ==================================
 --      ROW LEVEL SECURITY (RLS)
@@ -212,6 +326,74 @@ ALTER TABLE public.user_favorites ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_itineraries ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.itinerary_days ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.itinerary_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_places ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Role of the calling user on an itinerary: 'owner', 'editor', 'viewer', or NULL without access.
+-- SECURITY DEFINER so policies on user_itineraries and itinerary_members can use it without recursing into each other.
+CREATE OR REPLACE FUNCTION public.get_itinerary_role(_itinerary_id integer)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+    SELECT CASE
+        WHEN ui.user_id = auth.uid() THEN 'owner'
+        ELSE (SELECT m.role FROM itinerary_members m WHERE m.itinerary_id = ui.id AND m.user_id = auth.uid())
+    END
+    FROM user_itineraries ui
+    WHERE ui.id = _itinerary_id;
+$function$;
+
+COMMENT ON FUNCTION public.get_itinerary_role(integer) IS 'Returns the calling user''s role on an itinerary (owner, editor or viewer), or NULL if they have no access.';
+
+-- Whether a custom place belongs to the itinerary's owner or one of its editors, i.e. may be used as one of its stops
+CREATE OR REPLACE FUNCTION public.is_itinerary_place(_itinerary_id integer, _place_id integer)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+    SELECT EXISTS (
+        SELECT 1
+        FROM user_places p
+        JOIN user_itineraries ui ON ui.id = _itinerary_id
+        WHERE p.id = _place_id
+          AND (p.user_id = ui.user_id
+               OR EXISTS (SELECT 1 FROM itinerary_members m WHERE m.itinerary_id = ui.id AND m.user_id = p.user_id AND m.role = 'editor'))
+    );
+$function$;
+
+COMMENT ON FUNCTION public.is_itinerary_place(integer, integer) IS 'Returns true if the custom place belongs to the owner or an editor of the itinerary.';
+
+-- Create get_custom_places function
+-- SECURITY DEFINER: members of an itinerary need the custom places it uses, but not the owners' private notes, which a
+-- SELECT policy can't leave out
+CREATE OR REPLACE FUNCTION public.get_custom_places(_place_ids integer[])
+RETURNS TABLE (id integer, name text, latitude float, longitude float, address text, notes text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+    SELECT p.id, p.name, p.latitude, p.longitude, p.address,
+           CASE WHEN p.user_id = auth.uid() THEN p.notes END
+    FROM user_places p
+    WHERE p.id = ANY(_place_ids)
+      AND (p.user_id = auth.uid()
+           OR EXISTS (
+               SELECT 1
+               FROM itinerary_locations il
+               JOIN itinerary_days d ON d.id = il.day_id
+               WHERE il.custom_place_id = p.id AND public.get_itinerary_role(d.itinerary_id) IS NOT NULL
+           ));
+$function$;
+
+COMMENT ON FUNCTION public.get_custom_places(integer[]) IS 'Returns the given custom places that the caller owns or that are used in an itinerary shared with them. Notes are NULL for other users'' places.';
 
 -- Policies for user_favorites (Only owner can manage their favorites)
 CREATE POLICY "Allow individual user access" ON public.user_favorites
@@ -219,36 +401,88 @@ CREATE POLICY "Allow individual user access" ON public.user_favorites
   USING (auth.uid() = user_id)
   WITH CHECK (auth.uid() = user_id);
 
--- Policies for user_itineraries (Only owner can manage their itineraries)
-CREATE POLICY "Allow individual user access for itineraries" ON public.user_itineraries
-  FOR ALL
-  USING (auth.uid() = user_id)
+-- Policies for user_itineraries (Members can read; owner and editors can update; only the owner can delete)
+-- Editors can't rename, transfer or share an itinerary; the protect_itinerary_owner_columns trigger enforces that.
+CREATE POLICY "Allow members to read itineraries" ON public.user_itineraries
+  FOR SELECT
+  USING (public.get_itinerary_role(id) IS NOT NULL);
+
+CREATE POLICY "Allow users to create their own itineraries" ON public.user_itineraries
+  FOR INSERT
   WITH CHECK (auth.uid() = user_id);
 
--- Policies for itinerary_days (Only owner of the parent itinerary can manage days)
--- RLS checks that the user_id associated with the itinerary_id matches the authenticated user's ID.
-CREATE POLICY "Allow access for itinerary owner" ON public.itinerary_days
+CREATE POLICY "Allow editors to update itineraries" ON public.user_itineraries
+  FOR UPDATE
+  USING (public.get_itinerary_role(id) IN ('owner', 'editor'))
+  WITH CHECK (public.get_itinerary_role(id) IN ('owner', 'editor'));
+
+CREATE POLICY "Allow owner to delete itineraries" ON public.user_itineraries
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Policies for itinerary_days (Members of the parent itinerary can read; owner and editors can manage days)
+CREATE POLICY "Allow read access for itinerary members" ON public.itinerary_days
+  FOR SELECT
+  USING (public.get_itinerary_role(itinerary_id) IS NOT NULL);
+
+CREATE POLICY "Allow changes by itinerary editors" ON public.itinerary_days
   FOR ALL
-  USING (EXISTS (SELECT 1 FROM public.user_itineraries WHERE id = itinerary_id AND user_id = auth.uid()))
-  WITH CHECK (EXISTS (SELECT 1 FROM public.user_itineraries WHERE id = itinerary_id AND user_id = auth.uid()));
+  USING (public.get_itinerary_role(itinerary_id) IN ('owner', 'editor'))
+  WITH CHECK (public.get_itinerary_role(itinerary_id) IN ('owner', 'editor'));
+
+-- Policies for itinerary_locations (Same rules as itinerary_days, checked through the parent day)
+CREATE POLICY "Allow read access for itinerary members" ON public.itinerary_locations
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.itinerary_days d
+    WHERE d.id = day_id AND public.get_itinerary_role(d.itinerary_id) IS NOT NULL
+  ));
 
--- Policies for itinerary_locations (Only owner of the parent itinerary can manage locations within days)
--- RLS checks ownership by joining through itinerary_days to user_itineraries.
-CREATE POLICY "Allow access for itinerary owner" ON public.itinerary_locations
+CREATE POLICY "Allow changes by itinerary editors" ON public.itinerary_locations
   FOR ALL
   USING (EXISTS (
-    SELECT 1
-    FROM public.itinerary_days d
-    JOIN public.user_itineraries ui ON d.itinerary_id = ui.id
-    WHERE d.id = day_id AND ui.user_id = auth.uid()
+    SELECT 1 FROM public.itinerary_days d
+    WHERE d.id = day_id AND public.get_itinerary_role(d.itinerary_id) IN ('owner', 'editor')
   ))
   WITH CHECK (EXISTS (
-    SELECT 1
-    FROM public.itinerary_days d
-    JOIN public.user_itineraries ui ON d.itinerary_id = ui.id
-    WHERE d.id = day_id AND ui.user_id = auth.uid()
+    SELECT 1 FROM public.itinerary_days d
+    WHERE d.id = day_id AND public.get_itinerary_role(d.itinerary_id) IN ('owner', 'editor')
+      -- Foreign keys bypass RLS, so make sure a custom place belongs to someone who can edit this itinerary
+      AND (custom_place_id IS NULL OR public.is_itinerary_place(d.itinerary_id, custom_place_id))
   ));
 
+-- Policies for user_places (Only owner can access their places; members of an itinerary read the places it uses through get_custom_places; never exposed publicly)
+CREATE POLICY "Allow individual user access" ON public.user_places
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policies for itinerary_members (Members see each other; the owner changes roles and removes members; anyone can leave)
+-- There is no INSERT policy: members join through accept_itinerary_invitation.
+CREATE POLICY "Allow members to read members" ON public.itinerary_members
+  FOR SELECT
+  USING (public.get_itinerary_role(itinerary_id) IS NOT NULL);
+
+CREATE POLICY "Allow owner to change roles" ON public.itinerary_members
+  FOR UPDATE
+  USING (public.get_itinerary_role(itinerary_id) = 'owner')
+  WITH CHECK (public.get_itinerary_role(itinerary_id) = 'owner');
+
+CREATE POLICY "Allow owner to remove members and members to leave" ON public.itinerary_members
+  FOR DELETE
+  USING (public.get_itinerary_role(itinerary_id) = 'owner' OR auth.uid() = user_id);
+
+-- Policies for itinerary_invitations (Only the owner manages invitations; invitees decline through decline_itinerary_invitation)
+CREATE POLICY "Allow owner to manage invitations" ON public.itinerary_invitations
+  FOR ALL
+  USING (public.get_itinerary_role(itinerary_id) = 'owner')
+  WITH CHECK (public.get_itinerary_role(itinerary_id) = 'owner');
+
+-- Policies for itinerary_snapshots (Members can read the history; there are no write policies, see create_itinerary_snapshot)
+CREATE POLICY "Allow read access for itinerary members" ON public.itinerary_snapshots
+  FOR SELECT
+  USING (public.get_itinerary_role(itinerary_id) IS NOT NULL);
+
 
 -- ==================================
 --          FUNCTIONS
@@ -256,20 +490,34 @@ CREATE POLICY "Allow access for itinerary owner" ON public.itinerary_locations
 
 -- Create update_itinerary function for atomically updating a specific itinerary's content
 -- SECURITY INVOKER means the function runs with the permissions of the user calling it (relies on RLS policies above)
-CREATE OR REPLACE FUNCTION public.update_itinerary(_itinerary_id integer, _days_data jsonb)
-RETURNS void
+-- _expected_version is the version the client's edits are based on. If someone else saved in the meantime
+-- the call fails with serialization_failure (40001) and nothing is changed.
+CREATE OR REPLACE FUNCTION public.update_itinerary(_itinerary_id integer, _days_data jsonb, _expected_version integer)
+RETURNS integer -- Returns the new version
 LANGUAGE plpgsql
 SECURITY INVOKER -- Important: Runs as the calling user, respecting RLS policies
 AS $function$
 DECLARE
     day_data jsonb;
-    loc_id text;
+    loc_data jsonb;
     new_day_id integer;
     loc_index integer;
+    current_version integer;
 BEGIN
-    -- Verify ownership before proceeding (although RLS should handle this, belt-and-suspenders)
-    IF NOT EXISTS (SELECT 1 FROM public.user_itineraries WHERE id = _itinerary_id AND user_id = auth.uid()) THEN
-        RAISE EXCEPTION 'User does not own itinerary %', _itinerary_id;
+    -- Verify the caller may edit before proceeding (although RLS should handle this, belt-and-suspenders).
+    -- Lock the row so two concurrent saves can't both pass the version check.
+    SELECT version INTO current_version
+    FROM public.user_itineraries
+    WHERE id = _itinerary_id AND public.get_itinerary_role(id) IN ('owner', 'editor')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User cannot edit itinerary %', _itinerary_id;
+    END IF;
+
+    IF current_version <> _expected_version THEN
+        RAISE EXCEPTION 'Itinerary % was modified (version % expected, found %)', _itinerary_id, _expected_version, current_version
+            USING ERRCODE = 'serialization_failure';
     END IF;
 
     -- Delete existing days and locations for this specific itinerary
@@ -288,21 +536,484 @@ BEGIN
 
         -- Insert locations for this day
         loc_index := 0;
-        FOR loc_id IN SELECT * FROM jsonb_array_elements_text(day_data->'locations')
+        -- Each entry is either a location ID string or {id | custom_place_id, start_time, duration_minutes, note, cost_override}
+        FOR loc_data IN SELECT * FROM jsonb_array_elements(day_data->'locations')
         LOOP
-            INSERT INTO public.itinerary_locations (day_id, location_id, position)
-            VALUES (new_day_id, loc_id, loc_index);
+            IF jsonb_typeof(loc_data) = 'string' THEN
+                INSERT INTO public.itinerary_locations (day_id, location_id, position)
+                VALUES (new_day_id, loc_data #>> '{}', loc_index);
+            ELSE
+                INSERT INTO public.itinerary_locations (day_id, location_id, custom_place_id, position, start_time, duration_minutes, note, cost_override)
+                VALUES (
+                    new_day_id,
+                    loc_data->>'id',
+                    (loc_data->>'custom_place_id')::integer,
+                    loc_index,
+                    (loc_data->>'start_time')::time,
+                    (loc_data->>'duration_minutes')::integer,
+                    loc_data->>'note',
+                    (loc_data->>'cost_override')::numeric
+                );
+            END IF;
             loc_index := loc_index + 1;
         END LOOP;
     END LOOP;
 
-    -- Update the itinerary's updated_at timestamp
+    -- Update the itinerary's updated_at timestamp and version
     -- RLS policy ensures the user can only update their own itinerary
-    UPDATE public.user_itineraries SET updated_at = NOW() WHERE id = _itinerary_id;
+    UPDATE public.user_itineraries SET updated_at = NOW(), version = current_version + 1 WHERE id = _itinerary_id;
+
+    RETURN current_version + 1;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.update_itinerary(integer, jsonb, integer) IS 'Atomically updates a specific itinerary''s content by deleting existing days/locations and inserting the new structure provided in _days_data JSONB. Fails with serialization_failure (40001) if the itinerary''s version is not _expected_version; returns the new version. Runs with invoker security, relying on RLS.';
+
+-- Create patch_itinerary function for applying incremental edits (see lib/itinerary-operations.ts) in one transaction.
+-- Unlike update_itinerary it keeps existing day and stop rows. Operations are JSONB objects with a "type" of
+-- addDay, removeDay, addStop, removeStop, moveStop or updateStop; days are addressed by day_number (addDay takes an
+-- optional at_day_number to insert rather than append) and stops by location_id / custom_place_id. An operation
+-- that doesn't fit the current itinerary fails with invalid_parameter_value (22023) and nothing is changed.
+-- Same version check as update_itinerary.
+CREATE OR REPLACE FUNCTION public.patch_itinerary(_itinerary_id integer, _operations jsonb, _expected_version integer)
+RETURNS integer -- Returns the new version
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $function$
+DECLARE
+    op jsonb;
+    current_version integer;
+    source_day_id integer;
+    target_day_id integer;
+    stop_id integer;
+    stop_position integer;
+    stop_count integer;
+    new_day_number integer;
+BEGIN
+    SELECT version INTO current_version
+    FROM public.user_itineraries
+    WHERE id = _itinerary_id AND public.get_itinerary_role(id) IN ('owner', 'editor')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User cannot edit itinerary %', _itinerary_id;
+    END IF;
+
+    IF current_version <> _expected_version THEN
+        RAISE EXCEPTION 'Itinerary % was modified (version % expected, found %)', _itinerary_id, _expected_version, current_version
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    -- Renumbering days and shifting stops briefly duplicates day numbers / positions; check them at commit instead
+    SET CONSTRAINTS ALL DEFERRED;
+
+    FOR op IN SELECT * FROM jsonb_array_elements(_operations)
+    LOOP
+        -- Resolve the day(s) the operation refers to
+        source_day_id := NULL;
+        target_day_id := NULL;
+        IF op ? 'from_day_number' THEN
+            SELECT id INTO source_day_id FROM public.itinerary_days
+            WHERE itinerary_id = _itinerary_id AND day_number = (op->>'from_day_number')::integer;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Day % not found', op->>'from_day_number' USING ERRCODE = 'invalid_parameter_value';
+            END IF;
+        END IF;
+        IF op ? 'day_number' OR op ? 'to_day_number' THEN
+            SELECT id INTO target_day_id FROM public.itinerary_days
+            WHERE itinerary_id = _itinerary_id AND day_number = COALESCE(op->>'day_number', op->>'to_day_number')::integer;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Day % not found', COALESCE(op->>'day_number', op->>'to_day_number') USING ERRCODE = 'invalid_parameter_value';
+            END IF;
+        END IF;
+
+        CASE op->>'type'
+        WHEN 'addDay' THEN
+            -- Appended, or inserted at at_day_number with that day and the ones after it renumbered up by one
+            SELECT COALESCE(MAX(day_number), 0) + 1 INTO new_day_number
+            FROM public.itinerary_days WHERE itinerary_id = _itinerary_id;
+            IF op ? 'at_day_number' THEN
+                IF (op->>'at_day_number')::integer NOT BETWEEN 1 AND new_day_number THEN
+                    RAISE EXCEPTION 'Cannot insert a day at %', op->>'at_day_number' USING ERRCODE = 'invalid_parameter_value';
+                END IF;
+                UPDATE public.itinerary_days SET day_number = day_number + 1, updated_at = NOW()
+                WHERE itinerary_id = _itinerary_id AND day_number >= (op->>'at_day_number')::integer;
+                new_day_number := (op->>'at_day_number')::integer;
+            END IF;
+            INSERT INTO public.itinerary_days (itinerary_id, day_number)
+            VALUES (_itinerary_id, new_day_number);
+
+        WHEN 'removeDay' THEN
+            -- Stops go with the day (ON DELETE CASCADE)
+            DELETE FROM public.itinerary_days WHERE id = target_day_id;
+            UPDATE public.itinerary_days SET day_number = day_number - 1, updated_at = NOW()
+            WHERE itinerary_id = _itinerary_id AND day_number > (op->>'day_number')::integer;
+
+        WHEN 'addStop' THEN
+            SELECT COUNT(*) INTO stop_count FROM public.itinerary_locations WHERE day_id = target_day_id;
+            stop_position := LEAST(GREATEST((op->>'index')::integer, 0), stop_count);
+            UPDATE public.itinerary_locations SET position = position + 1
+            WHERE day_id = target_day_id AND position >= stop_position;
+            INSERT INTO public.itinerary_locations (day_id, location_id, custom_place_id, position, start_time, duration_minutes, note, cost_override)
+            VALUES (
+                target_day_id,
+                op->>'location_id',
+                (op->>'custom_place_id')::integer,
+                stop_position,
+                (op->>'start_time')::time,
+                (op->>'duration_minutes')::integer,
+                op->>'note',
+                (op->>'cost_override')::numeric
+            );
+
+        WHEN 'removeStop' THEN
+            DELETE FROM public.itinerary_locations
+            WHERE day_id = target_day_id
+              AND location_id IS NOT DISTINCT FROM op->>'location_id'
+              AND custom_place_id IS NOT DISTINCT FROM (op->>'custom_place_id')::integer
+            RETURNING position INTO stop_position;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Stop not found on day %', op->>'day_number' USING ERRCODE = 'invalid_parameter_value';
+            END IF;
+            UPDATE public.itinerary_locations SET position = position - 1
+            WHERE day_id = target_day_id AND position > stop_position;
+
+        WHEN 'moveStop' THEN
+            SELECT id, position INTO stop_id, stop_position FROM public.itinerary_locations
+            WHERE day_id = source_day_id
+              AND location_id IS NOT DISTINCT FROM op->>'location_id'
+              AND custom_place_id IS NOT DISTINCT FROM (op->>'custom_place_id')::integer;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Stop not found on day %', op->>'from_day_number' USING ERRCODE = 'invalid_parameter_value';
+            END IF;
+            -- Close the gap in the source day, then open one in the target day (the moved row is skipped by id)
+            UPDATE public.itinerary_locations SET position = position - 1
+            WHERE day_id = source_day_id AND position > stop_position;
+            SELECT COUNT(*) INTO stop_count FROM public.itinerary_locations WHERE day_id = target_day_id AND id <> stop_id;
+            stop_position := LEAST(GREATEST((op->>'index')::integer, 0), stop_count);
+            UPDATE public.itinerary_locations SET position = position + 1
+            WHERE day_id = target_day_id AND id <> stop_id AND position >= stop_position;
+            -- Raises unique_violation if the target day already has this place
+            UPDATE public.itinerary_locations SET day_id = target_day_id, position = stop_position WHERE id = stop_id;
+
+        WHEN 'updateStop' THEN
+            UPDATE public.itinerary_locations
+            SET start_time = (op->>'start_time')::time,
+                duration_minutes = (op->>'duration_minutes')::integer,
+                note = op->>'note',
+                cost_override = (op->>'cost_override')::numeric
+            WHERE day_id = target_day_id
+              AND location_id IS NOT DISTINCT FROM op->>'location_id'
+              AND custom_place_id IS NOT DISTINCT FROM (op->>'custom_place_id')::integer;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Stop not found on day %', op->>'day_number' USING ERRCODE = 'invalid_parameter_value';
+            END IF;
+
+        ELSE
+            RAISE EXCEPTION 'Unknown operation type %', op->>'type' USING ERRCODE = 'invalid_parameter_value';
+        END CASE;
+    END LOOP;
+
+    UPDATE public.user_itineraries SET updated_at = NOW(), version = current_version + 1 WHERE id = _itinerary_id;
+
+    RETURN current_version + 1;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.patch_itinerary(integer, jsonb, integer) IS 'Applies a list of incremental edits (addDay, removeDay, addStop, removeStop, moveStop, updateStop) to an itinerary the calling user can edit in one transaction, keeping existing rows. Fails with serialization_failure (40001) if the itinerary''s version is not _expected_version; returns the new version.';
+
+-- Create get_shared_itinerary function for the public read-only share page
+-- SECURITY DEFINER: anonymous visitors can't read itineraries through RLS, so this returns exactly what the page
+-- shows for a valid token and nothing else. Custom places are included (name, position, address) but not their private notes.
+CREATE OR REPLACE FUNCTION public.get_shared_itinerary(_token text)
+RETURNS jsonb -- NULL if no itinerary is shared with this token
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+    SELECT jsonb_build_object(
+        'name', ui.name,
+        'start_date', ui.start_date,
+        'days', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'day_number', d.day_number,
+                'locations', COALESCE((
+                    SELECT jsonb_agg(jsonb_build_object(
+                        'location_id', il.location_id,
+                        'custom_place', (
+                            SELECT jsonb_build_object('id', p.id, 'name', p.name, 'latitude', p.latitude, 'longitude', p.longitude, 'address', p.address)
+                            FROM user_places p WHERE p.id = il.custom_place_id
+                        ),
+                        'start_time', il.start_time,
+                        'duration_minutes', il.duration_minutes,
+                        'note', il.note,
+                        'cost_override', il.cost_override
+                    ) ORDER BY il.position)
+                    FROM itinerary_locations il WHERE il.day_id = d.id
+                ), '[]'::jsonb)
+            ) ORDER BY d.day_number)
+            FROM itinerary_days d WHERE d.itinerary_id = ui.id
+        ), '[]'::jsonb)
+    )
+    FROM user_itineraries ui
+    WHERE ui.share_token = _token;
+$function$;
+
+COMMENT ON FUNCTION public.get_shared_itinerary(text) IS 'Returns the name, start date and days (with stops) of the itinerary shared under _token, or NULL. Callable without login.';
+GRANT EXECUTE ON FUNCTION public.get_shared_itinerary(text) TO anon, authenticated;
+
+-- Create duplicate_itinerary function for copying an itinerary with all its days and locations
+-- SECURITY INVOKER: the copy is owned by the calling user and all reads/writes go through RLS
+CREATE OR REPLACE FUNCTION public.duplicate_itinerary(_itinerary_id integer, _new_name text)
+RETURNS integer -- Returns the new itinerary ID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $function$
+DECLARE
+    new_itinerary_id integer;
+    source_day record;
+    new_day_id integer;
+BEGIN
+    IF public.get_itinerary_role(_itinerary_id) IS NULL THEN
+        RAISE EXCEPTION 'User cannot access itinerary %', _itinerary_id;
+    END IF;
+
+    -- Raises unique_violation (23505) if the user already has an itinerary with this name
+    INSERT INTO public.user_itineraries (user_id, name, start_date)
+    SELECT auth.uid(), _new_name, start_date FROM public.user_itineraries WHERE id = _itinerary_id
+    RETURNING id INTO new_itinerary_id;
+
+    FOR source_day IN SELECT id, day_number FROM public.itinerary_days WHERE itinerary_id = _itinerary_id ORDER BY day_number
+    LOOP
+        INSERT INTO public.itinerary_days (itinerary_id, day_number)
+        VALUES (new_itinerary_id, source_day.day_number)
+        RETURNING id INTO new_day_id;
+
+        -- Other members' custom places stay private to them, so those stops are left out of the copy
+        INSERT INTO public.itinerary_locations (day_id, location_id, custom_place_id, position, start_time, duration_minutes, note, cost_override)
+        SELECT new_day_id, location_id, custom_place_id, ROW_NUMBER() OVER (ORDER BY position) - 1, start_time, duration_minutes, note, cost_override
+        FROM public.itinerary_locations
+        WHERE day_id = source_day.id
+          AND (custom_place_id IS NULL OR custom_place_id IN (SELECT id FROM public.user_places WHERE user_id = auth.uid()));
+    END LOOP;
+
+    RETURN new_itinerary_id;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.duplicate_itinerary(integer, text) IS 'Copies an itinerary the calling user owns or is a member of, including its days and locations, into a new itinerary they own under a new name. Returns the new itinerary ID.';
+
+-- Keep renaming, transferring and sharing an itinerary to its owner; editors may only change the content, start date and version
+CREATE OR REPLACE FUNCTION public.protect_itinerary_owner_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+    IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.user_id
+       AND (NEW.user_id, NEW.name, NEW.share_token) IS DISTINCT FROM (OLD.user_id, OLD.name, OLD.share_token) THEN
+        RAISE EXCEPTION 'Only the owner can rename or share itinerary %', OLD.id USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_itinerary_owner_columns
+  BEFORE UPDATE ON public.user_itineraries
+  FOR EACH ROW EXECUTE FUNCTION public.protect_itinerary_owner_columns();
+
+-- Create get_itinerary_invitation function for the /invite/[token] page
+-- SECURITY DEFINER: the invitee can't read the itinerary until they've joined, but should see what they're joining
+CREATE OR REPLACE FUNCTION public.get_itinerary_invitation(_token text)
+RETURNS jsonb -- NULL if there is no such invitation or the caller isn't logged in
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+    SELECT jsonb_build_object(
+        'itinerary_id', ui.id,
+        'itinerary_name', ui.name,
+        'role', inv.role,
+        'email', inv.email,
+        'current_role', CASE
+            WHEN ui.user_id = auth.uid() THEN 'owner'
+            ELSE (SELECT m.role FROM itinerary_members m WHERE m.itinerary_id = ui.id AND m.user_id = auth.uid())
+        END
+    )
+    FROM itinerary_invitations inv
+    JOIN user_itineraries ui ON ui.id = inv.itinerary_id
+    WHERE inv.token = _token AND auth.uid() IS NOT NULL;
+$function$;
+
+COMMENT ON FUNCTION public.get_itinerary_invitation(text) IS 'Returns the itinerary name, offered role, addressee (NULL for link invitations) and the caller''s current role for an invitation token, or NULL.';
+
+-- Create accept_itinerary_invitation function
+-- SECURITY DEFINER: there is no INSERT policy on itinerary_members, so joining is only possible through a valid invitation
+CREATE OR REPLACE FUNCTION public.accept_itinerary_invitation(_token text)
+RETURNS integer -- Returns the itinerary ID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+    invitation record;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not logged in' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO invitation FROM itinerary_invitations WHERE token = _token;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF invitation.email IS NOT NULL AND lower(invitation.email) <> lower(auth.email()) THEN
+        RAISE EXCEPTION 'Invitation is for another account' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- The owner opening their own link is a no-op; an existing member is never downgraded
+    IF NOT EXISTS (SELECT 1 FROM user_itineraries WHERE id = invitation.itinerary_id AND user_id = auth.uid()) THEN
+        INSERT INTO itinerary_members (itinerary_id, user_id, email, role)
+        VALUES (invitation.itinerary_id, auth.uid(), lower(auth.email()), invitation.role)
+        ON CONFLICT (itinerary_id, user_id) DO UPDATE
+        SET role = CASE WHEN itinerary_members.role = 'editor' THEN 'editor' ELSE EXCLUDED.role END;
+    END IF;
+
+    -- Email invitations are single use; link invitations stay valid until the owner revokes them
+    IF invitation.email IS NOT NULL THEN
+        DELETE FROM itinerary_invitations WHERE id = invitation.id;
+    END IF;
+
+    RETURN invitation.itinerary_id;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.accept_itinerary_invitation(text) IS 'Adds the calling user to the invited itinerary with the invitation''s role. Fails with no_data_found (P0002) for unknown tokens and insufficient_privilege (42501) for email invitations addressed to another account.';
+
+-- Create decline_itinerary_invitation function
+-- SECURITY DEFINER: invitees can't read invitations, and RLS only deletes rows the caller can read
+CREATE OR REPLACE FUNCTION public.decline_itinerary_invitation(_token text)
+RETURNS boolean -- FALSE if there is no such email invitation addressed to the caller
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not logged in' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    DELETE FROM itinerary_invitations
+    WHERE token = _token
+      AND email IS NOT NULL
+      AND lower(email) = lower(auth.email());
+    RETURN FOUND;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.decline_itinerary_invitation(text) IS 'Deletes an email invitation addressed to the calling user''s email. Returns FALSE if there was none.';
+
+-- Create get_my_itinerary_invitations function for the planner dashboard
+-- SECURITY DEFINER for the same reason as get_itinerary_invitation
+CREATE OR REPLACE FUNCTION public.get_my_itinerary_invitations()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'token', inv.token,
+        'role', inv.role,
+        'itinerary_id', ui.id,
+        'itinerary_name', ui.name
+    ) ORDER BY inv.created_at), '[]'::jsonb)
+    FROM itinerary_invitations inv
+    JOIN user_itineraries ui ON ui.id = inv.itinerary_id
+    WHERE lower(inv.email) = lower(auth.email())
+      AND ui.user_id <> auth.uid()
+      AND NOT EXISTS (SELECT 1 FROM itinerary_members m WHERE m.itinerary_id = ui.id AND m.user_id = auth.uid());
+$function$;
+
+COMMENT ON FUNCTION public.get_my_itinerary_invitations() IS 'Returns the open email invitations addressed to the calling user''s email, with the itinerary name.';
+
+-- Create create_itinerary_snapshot function for the version history
+-- SECURITY DEFINER: there are no write policies on itinerary_snapshots, so snapshots can only be taken here, by the
+-- owner or an editor. Custom places are copied into the snapshot so it can still be shown after they change.
+-- Automatic snapshots (_label NULL) are skipped if the itinerary has no stops, if nothing changed since the latest
+-- snapshot, or if that one is younger than _min_interval; only the newest 50 automatic snapshots are kept.
+CREATE OR REPLACE FUNCTION public.create_itinerary_snapshot(_itinerary_id integer, _label text, _min_interval interval)
+RETURNS integer -- Returns the snapshot ID, or NULL if it was skipped
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+    current_version integer;
+    current_days jsonb;
+    latest_days jsonb;
+    latest_created_at timestamp with time zone;
+    new_snapshot_id integer;
+BEGIN
+    IF COALESCE(public.get_itinerary_role(_itinerary_id), '') NOT IN ('owner', 'editor') THEN
+        RAISE EXCEPTION 'User cannot edit itinerary %', _itinerary_id USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT version INTO current_version FROM user_itineraries WHERE id = _itinerary_id;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'day_number', d.day_number,
+        'locations', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'location_id', il.location_id,
+                'custom_place', (
+                    SELECT jsonb_build_object('id', p.id, 'name', p.name, 'latitude', p.latitude, 'longitude', p.longitude, 'address', p.address)
+                    FROM user_places p WHERE p.id = il.custom_place_id
+                ),
+                'start_time', il.start_time,
+                'duration_minutes', il.duration_minutes,
+                'note', il.note,
+                'cost_override', il.cost_override
+            ) ORDER BY il.position)
+            FROM itinerary_locations il WHERE il.day_id = d.id
+        ), '[]'::jsonb)
+    ) ORDER BY d.day_number), '[]'::jsonb)
+    INTO current_days
+    FROM itinerary_days d WHERE d.itinerary_id = _itinerary_id;
+
+    IF _label IS NULL THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM itinerary_locations il JOIN itinerary_days d ON d.id = il.day_id WHERE d.itinerary_id = _itinerary_id
+        ) THEN
+            RETURN NULL;
+        END IF;
+
+        SELECT days, created_at INTO latest_days, latest_created_at
+        FROM itinerary_snapshots WHERE itinerary_id = _itinerary_id
+        ORDER BY created_at DESC, id DESC LIMIT 1;
+
+        IF latest_days = current_days OR latest_created_at > NOW() - COALESCE(_min_interval, interval '0') THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    INSERT INTO itinerary_snapshots (itinerary_id, version, label, days, created_by)
+    VALUES (_itinerary_id, current_version, _label, current_days, auth.uid())
+    RETURNING id INTO new_snapshot_id;
+
+    DELETE FROM itinerary_snapshots WHERE id IN (
+        SELECT id FROM itinerary_snapshots
+        WHERE itinerary_id = _itinerary_id AND label IS NULL
+        ORDER BY created_at DESC, id DESC
+        OFFSET 50
+    );
+
+    RETURN new_snapshot_id;
 END;
 $function$;
 
-COMMENT ON FUNCTION public.update_itinerary(integer, jsonb) IS 'Atomically updates a specific itinerary''s content by deleting existing days/locations and inserting the new structure provided in _days_data JSONB. Runs with invoker security, relying on RLS.';
+COMMENT ON FUNCTION public.create_itinerary_snapshot(integer, text, interval) IS 'Stores the itinerary''s current days as a snapshot, labelled or automatic (throttled by _min_interval and skipped when unchanged). Fails with insufficient_privilege (42501) unless the caller is the owner or an editor.';
 
 -- Optional: Function to create a new itinerary and its first day (can be called from API)
 -- CREATE OR REPLACE FUNCTION public.create_new_itinerary(_user_id UUID, _name TEXT)